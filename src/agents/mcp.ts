@@ -1,5 +1,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { Hono } from "hono";
+import { createAuthMiddleware, createCorsMiddleware, loadAuthConfig } from "../remote/auth.js";
+import type { AuthVariables } from "../remote/auth.js";
+import { mountSseTransport } from "../remote/sse.js";
+import type { HttpBindings } from "@hono/node-server";
 
 /**
  * Base MCP Agent class for HTTP-based MCP servers
@@ -33,20 +37,11 @@ export abstract class McpAgent<TEnv = any, TState = any, TProps = any> {
      * Create HTTP server for MCP endpoints
      */
     static serve(path: string = "/mcp") {
-        const app = new Hono();
+        const app = new Hono<{ Variables: AuthVariables }>();
 
-        // Enable CORS for all origins
-        app.use("*", async (c, next) => {
-            c.header("Access-Control-Allow-Origin", "*");
-            c.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-            c.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-            if (c.req.method === "OPTIONS") {
-                return c.text("", 200);
-            }
-
-            await next();
-        });
+        // CORS restricted to MCP_CORS_ORIGINS, bearer auth on the MCP endpoint
+        app.use("*", createCorsMiddleware(process.env));
+        app.use(path, createAuthMiddleware(loadAuthConfig(process.env)));
 
         // MCP endpoint
         app.post(path, async (c) => {
@@ -55,7 +50,7 @@ export abstract class McpAgent<TEnv = any, TState = any, TProps = any> {
                 
                 // Create agent instance
                 const env = c.env || {};
-                const props = {}; // No authentication for now
+                const props = { auth: c.get("auth") }; // Caller identity from the auth middleware
                 const agent = new (this as any)(env, props);
                 
                 // Initialize agent
@@ -86,30 +81,26 @@ export abstract class McpAgent<TEnv = any, TState = any, TProps = any> {
     }
 
     /**
-     * Create Server-Sent Events endpoint (simplified version)
+     * Create Server-Sent Events endpoints (HTTP+SSE transport).
+     * Each stream gets its own agent instance, initialized with the caller's identity.
+     * Requires @hono/node-server since the SSE transport writes to the Node.js response.
      */
-    static serveSSE(path: string = "/sse") {
-        const app = new Hono();
-
-        app.use("*", async (c, next) => {
-            c.header("Access-Control-Allow-Origin", "*");
-            c.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-            c.header("Access-Control-Allow-Headers", "Content-Type, Authorization, Cache-Control");
-
-            if (c.req.method === "OPTIONS") {
-                return c.text("", 200);
-            }
-
-            await next();
-        });
-
-        app.get(path, (c) => {
-            // Basic SSE implementation
-            c.header("Content-Type", "text/event-stream");
-            c.header("Cache-Control", "no-cache");
-            c.header("Connection", "keep-alive");
-            
-            return c.text("data: {\"type\":\"connection\",\"status\":\"connected\"}\n\n");
+    static serveSSE(path: string = "/sse", messagesPath: string = "/messages") {
+        const app = new Hono<{ Bindings: HttpBindings; Variables: AuthVariables }>();
+        const requireAuth = createAuthMiddleware(loadAuthConfig(process.env));
+
+        app.use("*", createCorsMiddleware(process.env));
+        app.use(path, requireAuth);
+        app.use(messagesPath, requireAuth);
+
+        mountSseTransport(app, {
+            ssePath: path,
+            messagesPath,
+            createServer: async (auth) => {
+                const agent = new (this as any)(process.env, { auth }) as McpAgent;
+                await agent.init();
+                return agent.server;
+            },
         });
 
         return app;
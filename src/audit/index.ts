@@ -0,0 +1,160 @@
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import * as path from 'node:path';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import { DatabaseAuditSink, FileAuditSink } from './sinks.js';
+
+/**
+ * Who made a tool call. Only known on the remote server, where callers authenticate.
+ */
+export interface AuditCaller {
+    clientId: string;
+    method?: string; // api_key, jwt or none
+    role?: string;   // JWT role
+}
+
+/**
+ * One audited `tools/call`.
+ */
+export interface AuditRecord {
+    timestamp: string;  // When the call started (ISO 8601)
+    server: string;     // Name of the MCP server that handled the call
+    sessionId?: string;
+    caller?: AuditCaller;
+    tool: string;
+    arguments: unknown; // Redacted before it reaches a sink
+    success: boolean;
+    error?: string;
+    rowCount?: number;  // For tools returning rows
+    durationMs: number;
+}
+
+/**
+ * A destination for audit records.
+ */
+export interface AuditSink {
+    name: string;
+    write(record: AuditRecord): Promise<void>;
+}
+
+export interface AuditOptions {
+    logFile?: string;   // NDJSON file, relative to the workspace; "off" disables it
+    database?: boolean; // Also write to mcp_audit.tool_calls
+    captureParams?: boolean; // Record SQL parameter values instead of redacting them
+    workspacePath: string;
+    client: SelfhostedSupabaseClient;
+}
+
+export const DEFAULT_AUDIT_LOG_FILE = 'mcp-audit.ndjson';
+
+const REDACTED = '[REDACTED]';
+// Argument names whose values are never recorded
+const SENSITIVE_KEY_PATTERN = /password|passphrase|secret|token|jwt|api[_-]?key|service[_-]?key|authorization|credential/i;
+// JWTs embedded in other values, e.g. in SQL
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+
+/**
+ * Copies tool arguments with secrets replaced: values of sensitive-looking keys and embedded JWTs.
+ */
+export function redactArguments(value: unknown, key?: string): unknown {
+    if (key !== undefined && SENSITIVE_KEY_PATTERN.test(key)) {
+        return REDACTED;
+    }
+    if (typeof value === 'string') {
+        return value.replace(JWT_PATTERN, REDACTED);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactArguments(item));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([entryKey, entryValue]) => [entryKey, redactArguments(entryValue, entryKey)]),
+        );
+    }
+    return value;
+}
+
+/**
+ * Copies tool arguments with the values of the `params` argument (execute_sql, explain_query)
+ * replaced, since values bound to SQL are where callers put user data and credentials. The number
+ * of parameters and their type hints are kept.
+ */
+export function redactParams(args: unknown): unknown {
+    if (!args || typeof args !== 'object' || !Array.isArray((args as { params?: unknown }).params)) {
+        return args;
+    }
+    const params = ((args as { params: unknown[] }).params).map((param) =>
+        param && typeof param === 'object' && !Array.isArray(param) && 'type' in param
+            ? { type: param.type, value: REDACTED }
+            : REDACTED);
+    return { ...args, params };
+}
+
+/**
+ * Caller identity from the auth info the remote transports attach to requests. Never includes the token.
+ */
+export function callerFromAuthInfo(authInfo: AuthInfo | undefined): AuditCaller | undefined {
+    if (!authInfo) return undefined;
+    const extra = authInfo.extra ?? {};
+    return {
+        clientId: authInfo.clientId,
+        method: typeof extra.method === 'string' ? extra.method : undefined,
+        role: typeof extra.role === 'string' ? extra.role : undefined,
+    };
+}
+
+/**
+ * Number of rows in a tool result, for tools that return rows (or a page of them, like execute_sql).
+ */
+export function countRows(result: unknown): number | undefined {
+    if (Array.isArray(result)) return result.length;
+    const rows = (result as { rows?: unknown } | null)?.rows;
+    return Array.isArray(rows) ? rows.length : undefined;
+}
+
+/**
+ * Writes audit records to every configured sink.
+ * A failing sink is logged but never fails the tool call it records.
+ */
+export class AuditLog {
+    constructor(private readonly sinks: AuditSink[], private readonly captureParams = false) {}
+
+    async record(record: AuditRecord): Promise<void> {
+        const args = this.captureParams ? record.arguments : redactParams(record.arguments);
+        const redacted: AuditRecord = { ...record, arguments: redactArguments(args) };
+        await Promise.all(this.sinks.map(async (sink) => {
+            try {
+                await sink.write(redacted);
+            } catch (error) {
+                console.error(`Failed to write audit record to ${sink.name}:`, error instanceof Error ? error.message : String(error));
+            }
+        }));
+    }
+}
+
+/**
+ * Sets up the audit sinks. The NDJSON file is on by default; the database table is opt-in.
+ * Throws if a requested sink can't be set up, so the server doesn't run unaudited by accident.
+ */
+export async function createAuditLog(options: AuditOptions): Promise<AuditLog> {
+    const sinks: AuditSink[] = [];
+
+    const logFile = options.logFile ?? DEFAULT_AUDIT_LOG_FILE;
+    if (logFile !== 'off') {
+        const filePath = path.resolve(options.workspacePath, logFile);
+        sinks.push(FileAuditSink.open(filePath));
+        console.error(`Audit log: ${filePath}`);
+    }
+
+    if (options.database) {
+        sinks.push(await DatabaseAuditSink.create(options.client));
+        console.error('Audit log: database table mcp_audit.tool_calls');
+    }
+
+    if (sinks.length === 0) {
+        console.error('Audit log disabled.');
+    } else if (options.captureParams) {
+        console.error('Audit log records SQL parameter values.');
+    }
+
+    return new AuditLog(sinks, options.captureParams);
+}
@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import { createTestClient, startTestDatabase } from '../testing/database.js';
+import type { TestDatabase } from '../testing/database.js';
+import { DatabaseAuditSink } from './sinks.js';
+
+describe('DatabaseAuditSink', () => {
+    let database: TestDatabase;
+    let client: SelfhostedSupabaseClient;
+
+    beforeAll(async () => {
+        database = await startTestDatabase();
+        client = await createTestClient(database);
+    });
+    afterAll(async () => {
+        await client.close();
+        await database.stop();
+    });
+
+    it('appends records to a table that refuses changes', async () => {
+        const sink = await DatabaseAuditSink.create(client);
+        await DatabaseAuditSink.create(client); // Starting again keeps the table
+        await sink.write({
+            timestamp: '2024-05-01T12:00:00.000Z',
+            server: 'test',
+            caller: { clientId: 'api-key:1', method: 'api_key' },
+            tool: 'execute_sql',
+            arguments: { sql: 'SELECT 1' },
+            success: true,
+            rowCount: 1,
+            durationMs: 5,
+        });
+
+        expect(await client.executeSqlWithPg('SELECT tool, client_id, arguments, row_count FROM mcp_audit.tool_calls')).toEqual([
+            { tool: 'execute_sql', client_id: 'api-key:1', arguments: { sql: 'SELECT 1' }, row_count: 1 },
+        ]);
+        for (const change of ['DELETE FROM mcp_audit.tool_calls', "UPDATE mcp_audit.tool_calls SET tool = 'list_tables'", 'TRUNCATE mcp_audit.tool_calls']) {
+            expect(await client.executeSqlWithPg(change)).toMatchObject({ error: { code: '42501', message: expect.stringMatching(/append-only/) } });
+        }
+        expect(await client.executeSqlWithPg('SELECT count(*)::int AS count FROM mcp_audit.tool_calls')).toEqual([{ count: 1 }]);
+    });
+});
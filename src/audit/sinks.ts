@@ -0,0 +1,110 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import type { AuditRecord, AuditSink } from './index.js';
+
+/**
+ * Appends one JSON object per line to a file.
+ */
+export class FileAuditSink implements AuditSink {
+    readonly name: string;
+    private pending: Promise<void> = Promise.resolve(); // Keeps lines in call order
+
+    private constructor(private readonly filePath: string) {
+        this.name = filePath;
+    }
+
+    /**
+     * Creates the file (and its directory) if needed. Throws if it isn't writable.
+     */
+    static open(filePath: string): FileAuditSink {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.appendFileSync(filePath, '');
+        return new FileAuditSink(filePath);
+    }
+
+    write(record: AuditRecord): Promise<void> {
+        const line = `${JSON.stringify(record)}\n`;
+        this.pending = this.pending
+            .catch(() => undefined)
+            .then(() => fs.promises.appendFile(this.filePath, line, 'utf-8'));
+        return this.pending;
+    }
+}
+
+/**
+ * Inserts records into mcp_audit.tool_calls, which it creates on startup, append-only. Requires DATABASE_URL.
+ */
+export class DatabaseAuditSink implements AuditSink {
+    readonly name = 'mcp_audit.tool_calls';
+
+    private static readonly CREATE_AUDIT_TABLE = `
+        CREATE SCHEMA IF NOT EXISTS mcp_audit;
+        CREATE TABLE IF NOT EXISTS mcp_audit.tool_calls (
+            id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+            called_at timestamptz NOT NULL,
+            server text NOT NULL,
+            session_id text,
+            client_id text,
+            auth_method text,
+            auth_role text,
+            tool text NOT NULL,
+            arguments jsonb,
+            success boolean NOT NULL,
+            error text,
+            row_count integer,
+            duration_ms integer NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS tool_calls_called_at_idx ON mcp_audit.tool_calls (called_at);
+
+        -- Append-only, also for the connecting role, which execute_sql runs as. As the owner it can
+        -- still drop or disable the triggers, so this stops mistakes, not a determined caller.
+        CREATE OR REPLACE FUNCTION mcp_audit.reject_change() RETURNS trigger LANGUAGE plpgsql AS $$
+        BEGIN
+          RAISE EXCEPTION 'mcp_audit.tool_calls is append-only: % is not allowed', TG_OP USING ERRCODE = 'insufficient_privilege';
+        END;
+        $$;
+        CREATE OR REPLACE TRIGGER tool_calls_append_only BEFORE UPDATE OR DELETE ON mcp_audit.tool_calls
+            FOR EACH ROW EXECUTE FUNCTION mcp_audit.reject_change();
+        CREATE OR REPLACE TRIGGER tool_calls_no_truncate BEFORE TRUNCATE ON mcp_audit.tool_calls
+            FOR EACH STATEMENT EXECUTE FUNCTION mcp_audit.reject_change();
+
+        -- Only the connecting role (and superusers) may read the audit trail
+        REVOKE ALL ON SCHEMA mcp_audit FROM PUBLIC;
+        REVOKE ALL ON mcp_audit.tool_calls FROM PUBLIC;
+        REVOKE ALL ON FUNCTION mcp_audit.reject_change() FROM PUBLIC;
+    `;
+
+    private static readonly INSERT_AUDIT_RECORD = `
+        INSERT INTO mcp_audit.tool_calls
+            (called_at, server, session_id, client_id, auth_method, auth_role, tool, arguments, success, error, row_count, duration_ms)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `;
+
+    private constructor(private readonly client: SelfhostedSupabaseClient) {}
+
+    static async create(client: SelfhostedSupabaseClient): Promise<DatabaseAuditSink> {
+        if (!client.isPgAvailable()) {
+            throw new Error('Database audit log requires DATABASE_URL.');
+        }
+        await client.executeServerQueryWithPg(DatabaseAuditSink.CREATE_AUDIT_TABLE);
+        return new DatabaseAuditSink(client);
+    }
+
+    async write(record: AuditRecord): Promise<void> {
+        await this.client.executeServerQueryWithPg(DatabaseAuditSink.INSERT_AUDIT_RECORD, [
+            record.timestamp,
+            record.server,
+            record.sessionId ?? null,
+            record.caller?.clientId ?? null,
+            record.caller?.method ?? null,
+            record.caller?.role ?? null,
+            record.tool,
+            JSON.stringify(record.arguments ?? null),
+            record.success,
+            record.error ?? null,
+            record.rowCount ?? null,
+            record.durationMs,
+        ]);
+    }
+}
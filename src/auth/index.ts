@@ -0,0 +1,80 @@
+import type { PoolClient } from 'pg';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import type { AuthUser, SqlIdentity } from '../types/index.js';
+
+/**
+ * Database roles SQL can be run as: the ones PostgREST switches to for Supabase clients.
+ */
+export const SQL_ROLES = ['anon', 'authenticated', 'service_role'] as const;
+export type SqlRole = typeof SQL_ROLES[number];
+
+const AUTH_USER_SQL = `
+    SELECT
+        id,
+        email,
+        role,
+        raw_app_meta_data,
+        raw_user_meta_data,
+        created_at::text,
+        last_sign_in_at::text
+    FROM auth.users
+    WHERE id = $1
+`;
+
+const CLAIMS_LIFETIME_SECONDS = 3600;
+
+/**
+ * Looks up a user in auth.users by id. Throws if there is no such user.
+ */
+export async function fetchAuthUser(pgClient: PoolClient, userId: string): Promise<AuthUser> {
+    const result = await pgClient.query(AUTH_USER_SQL, [userId]);
+    if (result.rows.length === 0) {
+        throw new Error(`User with ID ${userId} not found.`);
+    }
+    return result.rows[0] as AuthUser;
+}
+
+/**
+ * JWT claims shaped like the access tokens GoTrue issues for a user.
+ */
+export function claimsForAuthUser(user: AuthUser, role: SqlRole): Record<string, unknown> {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+        sub: user.id,
+        role,
+        aud: 'authenticated',
+        email: user.email ?? '',
+        app_metadata: user.raw_app_meta_data ?? {},
+        user_metadata: user.raw_user_meta_data ?? {},
+        iat: now,
+        exp: now + CLAIMS_LIFETIME_SECONDS,
+    };
+}
+
+function isSqlRole(role: string): role is SqlRole {
+    return (SQL_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Resolves who SQL should run as: a role, an auth user (with the claims of their access token), or both,
+ * in which case the role overrides the user's own. Returns undefined when neither is given.
+ * Throws if the user doesn't exist or their role isn't one of SQL_ROLES.
+ */
+export async function resolveSqlIdentity(
+    client: SelfhostedSupabaseClient,
+    options: { role?: SqlRole; userId?: string },
+): Promise<SqlIdentity | undefined> {
+    if (!options.userId) {
+        return options.role ? { role: options.role, claims: { role: options.role } } : undefined;
+    }
+
+    const user = await client.executeTransactionWithPg(
+        (pgClient: PoolClient) => fetchAuthUser(pgClient, options.userId as string),
+        true,
+    );
+    const role = options.role ?? (user.role || 'authenticated');
+    if (!isSqlRole(role)) {
+        throw new Error(`User ${user.id} has role "${role}", which SQL can't be run as. Pass one of: ${SQL_ROLES.join(', ')}.`);
+    }
+    return { role, claims: claimsForAuthUser(user, role) };
+}
@@ -0,0 +1,176 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { SelfhostedSupabaseClient } from './index.js';
+import type { SqlScriptStatement } from '../sql/script.js';
+import { createTestClient, startTestDatabase } from '../testing/database.js';
+import type { TestDatabase } from '../testing/database.js';
+import { executeSqlTool } from '../tools/execute_sql.js';
+
+const statement = (sql: string, command: string, returnsRows = false): SqlScriptStatement => ({ sql, command, returnsRows });
+
+describe('executeSqlScriptWithPg', () => {
+    let database: TestDatabase;
+    let client: SelfhostedSupabaseClient;
+
+    beforeAll(async () => {
+        database = await startTestDatabase();
+        client = await createTestClient(database);
+    });
+    afterAll(async () => {
+        await client.close();
+        await database.stop();
+    });
+
+    const tableExists = async (name: string) =>
+        (await database.db.query<{ exists: boolean }>('SELECT to_regclass($1) IS NOT NULL AS exists', [name])).rows[0].exists;
+
+    // The parser rejects these statements; the transaction has to hold even if one gets through
+    it('keeps an atomic read-only script from switching to read-write', async () => {
+        for (const switchToReadWrite of ['SET TRANSACTION READ WRITE', 'SET transaction_read_only = off']) {
+            const result = await client.executeSqlScriptWithPg([
+                statement(switchToReadWrite, 'SET'),
+                statement('CREATE TABLE escaped (id int)', 'CREATE'),
+            ], { atomic: true, readOnly: true, maxRows: 100, maxBytes: 100_000 });
+
+            expect(result).toMatchObject({ rolledBack: true, statements: [{ status: 'error' }, { status: 'skipped' }] });
+            expect(await tableExists('escaped')).toBe(false);
+        }
+    });
+
+    it('rejects writes in independent read-only statements', async () => {
+        const result = await client.executeSqlScriptWithPg([
+            statement('CREATE TABLE escaped (id int)', 'CREATE'),
+            statement('SELECT 1 AS one', 'SELECT', true),
+        ], { atomic: false, readOnly: true, maxRows: 100, maxBytes: 100_000 });
+
+        expect(result).toMatchObject({
+            rolledBack: false,
+            statements: [{ status: 'error', error: { code: '25006' } }, { status: 'ok', rows: [{ one: 1 }] }],
+        });
+        expect(await tableExists('escaped')).toBe(false);
+    });
+
+    it('commits an atomic read-write script', async () => {
+        const result = await client.executeSqlScriptWithPg([
+            statement('CREATE TABLE written (id int)', 'CREATE'),
+            statement('INSERT INTO written VALUES (1), (2) RETURNING id', 'INSERT', true),
+        ], { atomic: true, readOnly: false, maxRows: 100, maxBytes: 100_000 });
+
+        expect(result).toMatchObject({ rolledBack: false, statements: [{ status: 'ok' }, { status: 'ok', rowCount: 2 }] });
+        expect(await tableExists('written')).toBe(true);
+    });
+});
+
+describe('statement timeout', () => {
+    let database: TestDatabase;
+
+    beforeAll(async () => {
+        database = await startTestDatabase();
+    });
+    afterAll(async () => {
+        await database.stop();
+    });
+
+    const showTimeout = async (client: SelfhostedSupabaseClient, timeoutMs?: number) => {
+        const result = await client.runWithCallOptions({ timeoutMs }, () => client.executeSqlWithPg('SHOW statement_timeout'));
+        return 'error' in result ? result : result[0].statement_timeout;
+    };
+
+    it('applies to the call only, whatever the SQL set on the session', async () => {
+        const client = await createTestClient(database, { sqlTimeoutMs: 30_000 });
+        try {
+            expect(await showTimeout(client, 1_500)).toBe('1500ms');
+            expect(await showTimeout(client)).toBe('30s');
+            await client.executeSqlWithPg('SET statement_timeout = 0');
+            expect(await showTimeout(client)).toBe('30s');
+            expect(await showTimeout(client, 2_000)).toBe('2s');
+        } finally {
+            await client.close();
+        }
+    });
+
+    it('leaves the database default without a server timeout', async () => {
+        const client = await createTestClient(database, { sqlTimeoutMs: 0 });
+        try {
+            await client.executeSqlWithPg("SET statement_timeout = '5s'");
+            expect(await showTimeout(client)).toBe('0');
+            expect(await showTimeout(client, 1_500)).toBe('1500ms');
+        } finally {
+            await client.close();
+        }
+    });
+
+    it('runs statements that refuse transaction blocks on their own', async () => {
+        const client = await createTestClient(database);
+        try {
+            expect(await client.executeSqlWithPg('CREATE TABLE vacuumed (id int)')).toEqual([]);
+            expect(await client.executeSqlWithPg('VACUUM vacuumed')).toEqual([]);
+            expect(await client.executeSqlWithPg('CREATE INDEX CONCURRENTLY vacuumed_id ON vacuumed (id)')).toEqual([]);
+        } finally {
+            await client.close();
+        }
+    });
+});
+
+describe('execute_sql cursors', () => {
+    let database: TestDatabase;
+    let client: SelfhostedSupabaseClient;
+
+    beforeAll(async () => {
+        database = await startTestDatabase();
+        await database.db.exec('CREATE TABLE notes (id int PRIMARY KEY, body text)');
+        client = await createTestClient(database);
+    });
+    afterAll(async () => {
+        await client.close();
+        await database.stop();
+    });
+
+    const executeSql = (args: Record<string, unknown>) => executeSqlTool.execute(
+        executeSqlTool.inputSchema.parse(args),
+        { selfhostedClient: client, log: () => {} },
+    );
+    const values = (rows: Record<string, unknown>[]) => rows.map((row) => row.n);
+
+    it('pages through a query, closing the cursor after the last page', async () => {
+        const sql = 'SELECT g AS n FROM generate_series(1, 5) AS g ORDER BY g';
+
+        const first = await executeSql({ sql, max_rows: 2 });
+        expect(first).toMatchObject({ row_count: 2, truncated: true, truncated_by: 'max_rows' });
+        expect(values(first.rows)).toEqual([1, 2]);
+
+        const second = await executeSql({ cursor: first.next_cursor, max_rows: 2 });
+        expect(values(second.rows)).toEqual([3, 4]);
+        expect(second.next_cursor).toEqual(expect.any(String));
+
+        const last = await executeSql({ cursor: second.next_cursor, max_rows: 2 });
+        expect(last).toMatchObject({ row_count: 1, truncated: false });
+        expect(values(last.rows)).toEqual([5]);
+        expect(last.next_cursor).toBeUndefined();
+
+        await expect(executeSql({ cursor: second.next_cursor, max_rows: 2 })).rejects.toThrow(/MCP_CURSOR_EXPIRED/);
+    });
+
+    it('pages by size under the byte limit', async () => {
+        // {"n":1} is 7 bytes, 8 with the comma; the array brackets take 2
+        const first = await executeSql({ sql: 'SELECT g AS n FROM generate_series(1, 3) AS g ORDER BY g', max_bytes: 18 });
+        expect(first).toMatchObject({ row_count: 2, truncated: true, truncated_by: 'max_bytes' });
+
+        const last = await executeSql({ cursor: first.next_cursor, max_bytes: 18 });
+        expect(values(last.rows)).toEqual([3]);
+        expect(last.next_cursor).toBeUndefined();
+    });
+
+    it('rejects a cursor it did not issue', async () => {
+        await expect(executeSql({ cursor: 'not-a-cursor' })).rejects.toThrow(/MCP_CURSOR_INVALID/);
+        const unknown = Buffer.from(`${'0'.repeat(8)}-0000-0000-0000-${'0'.repeat(12)}:2`).toString('base64url');
+        await expect(executeSql({ cursor: unknown })).rejects.toThrow(/MCP_CURSOR_EXPIRED/);
+    });
+
+    it('truncates statements that cannot be paged, with a notice instead of a cursor', async () => {
+        const result = await executeSql({ sql: "INSERT INTO notes SELECT g, 'note' FROM generate_series(1, 3) AS g RETURNING id AS n", max_rows: 2 });
+        expect(result).toMatchObject({ row_count: 2, truncated: true, truncated_by: 'max_rows' });
+        expect(result.notice).toMatch(/Only single SELECT, VALUES or TABLE queries can be paged/);
+        expect(result.next_cursor).toBeUndefined();
+        expect((await database.db.query('SELECT id FROM notes')).rows).toHaveLength(3);
+    });
+});
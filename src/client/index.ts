@@ -1,376 +1,1190 @@
-import { createClient } from '@supabase/supabase-js';
-import type { SupabaseClient } from '@supabase/supabase-js';
-import type { SelfhostedSupabaseClientOptions, SqlExecutionResult, SqlErrorResponse, SqlSuccessResponse } from '../types/index.js';
-import { Pool } from 'pg'; // We'll need this later for direct DB access
-import type { PoolClient } from 'pg'; // Import PoolClient type
-
-/**
- * A client tailored for interacting with self-hosted Supabase instances.
- * Handles both Supabase API interactions and direct database connections.
- */
-export class SelfhostedSupabaseClient {
-    private options: SelfhostedSupabaseClientOptions;
-    public supabase: SupabaseClient;
-    private pgPool: Pool | null = null; // Lazy initialized pool for direct DB access
-    private rpcFunctionExists = false;
-
-    // SQL definition for the helper function
-    private static readonly CREATE_EXECUTE_SQL_FUNCTION = `
-        CREATE OR REPLACE FUNCTION public.execute_sql(query text, read_only boolean DEFAULT false)
-        RETURNS jsonb -- Using jsonb is generally preferred over json
-        LANGUAGE plpgsql
-        AS $$
-        DECLARE
-          result jsonb;
-        BEGIN
-          -- Note: SET TRANSACTION READ ONLY might not behave as expected within a function
-          -- depending on the outer transaction state. Handle read-only logic outside if needed.
-
-          -- Execute the dynamic query and aggregate results into a JSONB array
-          EXECUTE 'SELECT COALESCE(jsonb_agg(t), ''[]''::jsonb) FROM (' || query || ') t' INTO result;
-
-          RETURN result;
-        EXCEPTION
-          WHEN others THEN
-            -- Rethrow the error with context, including the original SQLSTATE
-            RAISE EXCEPTION 'Error executing SQL (SQLSTATE: %): % ', SQLSTATE, SQLERRM;
-        END;
-        $$;
-    `;
-
-    // SQL to grant permissions
-    private static readonly GRANT_EXECUTE_SQL_FUNCTION = `
-        GRANT EXECUTE ON FUNCTION public.execute_sql(text, boolean) TO authenticated;
-        -- Optionally grant to anon if needed (uncomment if required):
-        -- GRANT EXECUTE ON FUNCTION public.execute_sql(text, boolean) TO anon;
-    `;
-
-    /**
-     * Creates an instance of SelfhostedSupabaseClient.
-     * Note: Call initialize() after creating the instance to check for RPC functions.
-     * @param options - Configuration options for the client.
-     */
-    private constructor(options: SelfhostedSupabaseClientOptions) {
-        this.options = options;
-
-        // Initialize the primary Supabase client (anon key)
-        this.supabase = createClient(options.supabaseUrl, options.supabaseAnonKey, options.supabaseClientOptions);
-
-        // Validate required options
-        if (!options.supabaseUrl || !options.supabaseAnonKey) {
-            throw new Error('Supabase URL and Anon Key are required.');
-        }
-    }
-
-    /**
-     * Factory function to create and asynchronously initialize the client.
-     * Checks for the existence of the helper RPC function.
-     */
-    public static async create(options: SelfhostedSupabaseClientOptions): Promise<SelfhostedSupabaseClient> {
-        const client = new SelfhostedSupabaseClient(options);
-        await client.initialize();
-        return client;
-    }
-
-    /**
-     * Initializes the client by checking for the required RPC function.
-     * Attempts to create the function if it doesn't exist and a service role key is provided.
-     */
-    public async initialize(): Promise<void> {
-        console.error('Initializing SelfhostedSupabaseClient...');
-        try {
-            await this.checkAndCreateRpcFunction();
-            console.error(`RPC function 'public.execute_sql' status: ${this.rpcFunctionExists ? 'Available' : 'Unavailable'}`);
-        } catch (error) {
-            console.error('Error during client initialization:', error);
-            // Decide if we should throw or allow continuation without RPC
-            // For now, let's log and continue, executeSqlViaRpc will throw if needed
-        }
-        console.error('Initialization complete.');
-    }
-
-    // --- Public Methods (to be implemented) ---
-
-    /**
-     * Executes SQL using the preferred RPC method.
-     */
-    public async executeSqlViaRpc(query: string, readOnly = false): Promise<SqlExecutionResult> {
-        if (!this.rpcFunctionExists) {
-            // This should ideally not be hit if initialize() succeeded and the function
-            // was expected to be available, but good to have a check.
-            console.error('Attempted to call executeSqlViaRpc, but RPC function is not available.');
-            return {
-                error: {
-                    message: 'execute_sql RPC function not found or client not properly initialized.',
-                    code: 'MCP_CLIENT_ERROR',
-                },
-            } as SqlErrorResponse;
-        }
-
-        console.error(`Executing via RPC (readOnly: ${readOnly}): ${query.substring(0, 100)}...`);
-
-        try {
-            const { data, error } = await this.supabase.rpc('execute_sql', {
-                query: query,
-                read_only: readOnly,
-            });
-
-            if (error) {
-                console.error('Error executing SQL via RPC:', error);
-                // Attempt to conform to SqlErrorResponse structure
-                return {
-                    error: {
-                        message: error.message,
-                        code: error.code, // Propagate Supabase/PostgREST error code
-                        details: error.details,
-                        hint: error.hint,
-                    },
-                };
-            }
-
-            // The RPC function returns JSONB which Supabase client parses.
-            // We expect it to be an array of objects (records).
-            // Add a type check for safety, although the RPC function should guarantee the shape.
-            if (Array.isArray(data)) {
-                 // Explicitly cast to expected success type
-                return data as SqlSuccessResponse;
-            }
-            // If it's not an array, something went wrong with the RPC function's output
-            console.error('Unexpected response format from execute_sql RPC:', data);
-            return {
-                error: {
-                    message: 'Unexpected response format from execute_sql RPC. Expected JSON array.',
-                    code: 'MCP_RPC_FORMAT_ERROR',
-                },
-             } as SqlErrorResponse;
-        } catch (rpcError: unknown) {
-            const errorMessage = rpcError instanceof Error ? rpcError.message : String(rpcError);
-             console.error('Exception during executeSqlViaRpc call:', rpcError);
-            return {
-                error: {
-                    message: `Exception during RPC call: ${errorMessage}`,
-                    code: 'MCP_RPC_EXCEPTION',
-                },
-            } as SqlErrorResponse;
-        }
-    }
-
-    /**
-     * Executes SQL directly against the database using the pg library.
-     * Requires DATABASE_URL to be configured.
-     * Useful for simple queries when RPC is unavailable or direct access is preferred.
-     * NOTE: Does not support transactions or parameterization directly.
-     * Consider executeTransactionWithPg for more complex operations.
-     */
-    public async executeSqlWithPg(query: string): Promise<SqlExecutionResult> {
-        if (!this.options.databaseUrl) {
-            return { error: { message: 'DATABASE_URL is not configured. Cannot execute SQL directly.', code: 'MCP_CONFIG_ERROR' } };
-        }
-        await this.ensurePgPool(); // Ensure pool is initialized
-        if (!this.pgPool) { // Should not happen if ensurePgPool works, but type guard
-             return { error: { message: 'pg Pool not available after initialization attempt.', code: 'MCP_POOL_ERROR' } };
-        }
-
-        let client: PoolClient | undefined;
-        try {
-            client = await this.pgPool.connect();
-            console.error(`Executing via pg: ${query.substring(0, 100)}...`);
-            const result = await client.query(query);
-            // Return result in a format consistent with SqlSuccessResponse
-            // Assuming result.rows is the desired data array
-            return result.rows as SqlSuccessResponse;
-        } catch (dbError: unknown) {
-            const error = dbError instanceof Error ? dbError : new Error(String(dbError));
-            console.error('Error executing SQL with pg:', error);
-            // Try to extract code if possible (pg errors often have a .code property)
-            const code = (dbError as { code?: string })?.code || 'PG_ERROR';
-            return { error: { message: error.message, code: code } };
-        } finally {
-            client?.release();
-        }
-    }
-
-    /**
-     * Ensures the pg connection pool is initialized.
-     * Should be called before accessing this.pgPool.
-     */
-    private async ensurePgPool(): Promise<void> {
-        if (this.pgPool) return;
-        if (!this.options.databaseUrl) {
-            throw new Error('DATABASE_URL is not configured. Cannot initialize pg pool.');
-        }
-
-        console.error('Initializing pg pool...');
-        this.pgPool = new Pool({ connectionString: this.options.databaseUrl });
-
-        this.pgPool.on('error', (err, client) => {
-            console.error('PG Pool Error: Unexpected error on idle client', err);
-            // Optional: Implement logic to handle pool errors, e.g., attempt to reset pool
-        });
-
-        // Test connection?
-        try {
-            const client = await this.pgPool.connect();
-            console.error('pg pool connected successfully.');
-            client.release();
-        } catch (err) {
-            console.error('Failed to connect pg pool:', err);
-            // Clean up pool if connection fails?
-            await this.pgPool.end();
-            this.pgPool = null;
-            throw new Error(`Failed to connect pg pool: ${err instanceof Error ? err.message : String(err)}`);
-        }
-    }
-
-     /**
-     * Executes a series of operations within a single database transaction using the pg library.
-     * Requires DATABASE_URL to be configured.
-     * @param callback A function that receives a connected pg client and performs queries.
-     *                 It should return a promise that resolves on success or rejects on failure.
-     *                 The transaction will be committed if the promise resolves,
-     *                 and rolled back if it rejects.
-     */
-    public async executeTransactionWithPg<T>(
-        callback: (client: PoolClient) => Promise<T>
-    ): Promise<T> {
-        if (!this.options.databaseUrl) {
-            throw new Error('DATABASE_URL is not configured. Cannot execute transaction directly.');
-        }
-        await this.ensurePgPool();
-        if (!this.pgPool) {
-            throw new Error('pg Pool not available for transaction.');
-        }
-
-        const client = await this.pgPool.connect();
-        try {
-            await client.query('BEGIN');
-            console.error('BEGIN transaction');
-            const result = await callback(client);
-            await client.query('COMMIT');
-            console.error('COMMIT transaction');
-            return result;
-        } catch (error) {
-            console.error('Transaction Error - Rolling back:', error);
-            await client.query('ROLLBACK');
-            console.error('ROLLBACK transaction');
-            // Re-throw the error so the caller knows the transaction failed
-            throw error;
-        } finally {
-            client.release();
-        }
-    }
-
-    // --- Helper/Private Methods (to be implemented) ---
-
-    private async checkAndCreateRpcFunction(): Promise<void> {
-        console.error("Checking for public.execute_sql RPC function...");
-        try {
-            // Try calling the function with a simple query
-            const { error } = await this.supabase.rpc('execute_sql', { query: 'SELECT 1' });
-
-            if (!error) {
-                console.error("'public.execute_sql' function found.");
-                this.rpcFunctionExists = true;
-                return;
-            }
-
-            const UNDEFINED_FUNCTION_ERROR_CODE = '42883';
-            // PostgREST error when function definition is not found in its cache
-            const POSTGREST_FUNCTION_NOT_FOUND_CODE = 'PGRST202';
-
-            if (
-                error.code === UNDEFINED_FUNCTION_ERROR_CODE ||
-                error.code === POSTGREST_FUNCTION_NOT_FOUND_CODE
-            ) {
-                console.error(
-                    `'public.execute_sql' function not found (Code: ${error.code}). Attempting creation...`,
-                );
-                if (!this.options.supabaseServiceRoleKey) {
-                    console.error("Cannot create 'public.execute_sql': supabaseServiceRoleKey not provided.");
-                    this.rpcFunctionExists = false;
-                    return;
-                }
-                if (!this.options.databaseUrl) {
-                    // Prefer direct DB connection for DDL if available
-                    console.error("Cannot create 'public.execute_sql' reliably without databaseUrl for direct connection.");
-                    // Could attempt with a service role client, but less ideal for DDL
-                     this.rpcFunctionExists = false;
-                    return;
-                }
-
-                try {
-                    console.error("Creating 'public.execute_sql' function using direct DB connection...");
-                    // Use direct DB connection (pg) as it's generally better for DDL
-                    await this.executeSqlWithPg(SelfhostedSupabaseClient.CREATE_EXECUTE_SQL_FUNCTION);
-                    await this.executeSqlWithPg(SelfhostedSupabaseClient.GRANT_EXECUTE_SQL_FUNCTION);
-                    console.error("'public.execute_sql' function created and permissions granted successfully.");
-                    
-                    // Attempt to notify PostgREST to reload its schema cache
-                    console.error("Notifying PostgREST to reload schema cache...");
-                    await this.executeSqlWithPg("NOTIFY pgrst, 'reload schema'");
-                    console.error("PostgREST schema reload notification sent.");
-
-                    // Assume success for now, but subsequent RPC calls will verify
-                    this.rpcFunctionExists = true; 
-                } catch (creationError: unknown) {
-                    const errorMessage = creationError instanceof Error ? creationError.message : String(creationError);
-                    console.error("Failed to create 'public.execute_sql' function or notify PostgREST:", creationError);
-                    this.rpcFunctionExists = false;
-                    // Rethrow or handle as appropriate
-                    throw new Error(`Failed to create execute_sql function/notify: ${errorMessage}`);
-                }
-            } else {
-                console.error(
-                    "Unexpected error checking for 'public.execute_sql' function:",
-                    error,
-                );
-                this.rpcFunctionExists = false;
-                // Throw the original Supabase/PostgREST error for clarity
-                throw new Error(
-                    `Error checking for execute_sql function: ${error.message}`,
-                );
-            }
-        } catch (err: unknown) {
-            const errorMessage = err instanceof Error ? err.message : String(err);
-            console.error("Exception during RPC function check/creation:", err);
-            this.rpcFunctionExists = false;
-            // Rethrow the error to be caught by initialize()
-            throw new Error(`Exception during RPC function check/creation: ${errorMessage}`); // Rethrow with a typed error
-        }
-    }
-
-    // --- Getters --- 
-    public getSupabaseUrl(): string {
-        return this.options.supabaseUrl;
-    }
-
-    public getAnonKey(): string {
-        return this.options.supabaseAnonKey;
-    }
-
-    public getServiceRoleKey(): string | undefined {
-        return this.options.supabaseServiceRoleKey;
-    }
-
-    /**
-     * Gets the configured JWT secret, if provided.
-     */
-    public getJwtSecret(): string | undefined {
-        return this.options.jwtSecret;
-    }
-
-    /**
-     * Gets the configured direct database connection URL, if provided.
-     */
-    public getDbUrl(): string | undefined {
-        return this.options.databaseUrl;
-    }
-
-    /**
-     * Checks if the direct database connection (pg) is configured.
-     */
-    public isPgAvailable(): boolean {
-        return !!this.options.databaseUrl;
-    }
-
+import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SelfhostedSupabaseClientOptions, SqlCallOptions, SqlColumn, SqlExecutionResult, SqlErrorResponse, SqlPageOptions, SqlPageResult, SqlIdentity, SqlScriptExecutionResult, SqlScriptOptions, SqlStatementResult, SqlSuccessResponse } from '../types/index.js';
+import { Client, Pool } from 'pg'; // We'll need this later for direct DB access
+import type { PoolConfig } from 'pg';
+import { randomUUID } from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { buildPgPoolConfig } from './pg-config.js';
+import {
+    DROP_LEGACY_RPC_HELPER_SQL,
+    installedRpcHelperVersion,
+    legacyRpcHelperFunctions,
+    RPC_HELPER_SCHEMA,
+    RPC_HELPER_VERSION,
+    rpcHelperMigrationSql,
+    UNINSTALL_RPC_HELPER_SQL,
+} from './rpc-helper.js';
+import { isConnectionError, SqlPathHealth } from './sql-paths.js';
+import type { SqlPath, SqlPathHealthStatus } from './sql-paths.js';
+import { splitSqlStatements } from '../sql/lexer.js';
+import { DEFAULT_SQL_MAX_BYTES, DEFAULT_SQL_MAX_ROWS, SqlCursorStore, decodeCursorToken, encodeCursorToken, isCursorable, limitRows } from '../sql/pagination.js';
+import type { SqlPageLimits } from '../sql/pagination.js';
+import { queryReturnsRows, runsOutsideTransaction } from '../sql/script.js';
+import type { SqlScriptStatement } from '../sql/script.js';
+import { bindSqlParams, toFormatTemplate } from '../sql/params.js';
+import type { BoundSqlQuery, SqlParam } from '../sql/params.js';
+import { normalizeSqlRows } from '../sql/values.js';
+import type { CustomTypesConfig, FieldDef, PoolClient, QueryConfig, QueryResult } from 'pg'; // Import PoolClient type
+
+// Leaves every value as the text Postgres sent, for normalizeSqlRows to convert
+const RAW_TEXT_TYPES = { getTypeParser: () => (value: string) => value } as unknown as CustomTypesConfig;
+
+/**
+ * An open cursor: a pg cursor in a transaction on its own connection, or a query re-run per page via RPC.
+ */
+type SqlCursor =
+    | { kind: 'pg'; client: PoolClient; name: string }
+    | { kind: 'rpc'; query: string; readOnly: boolean; params?: SqlParam[]; columns?: SqlColumn[] };
+
+/**
+ * Rows and columns as returned by the RPC helper's execute_sql. Types are null for queries it can't describe.
+ */
+interface RpcQueryResult {
+    rows: SqlSuccessResponse;
+    columns: { name: string; type: string | null }[];
+}
+
+/**
+ * A client tailored for interacting with self-hosted Supabase instances.
+ * Handles both Supabase API interactions and direct database connections.
+ */
+export class SelfhostedSupabaseClient {
+    private options: SelfhostedSupabaseClientOptions;
+    public supabase: SupabaseClient;
+    private pgPool: Pool | null = null; // Lazy initialized pool for direct DB access
+    private pgPoolConfig: PoolConfig | null = null; // Built up front, so bad pool or TLS options fail at startup
+    private rpcClient: SupabaseClient | null = null; // Service role client the RPC helper is called with
+    private rpcHelperVersion: number | null = null;  // Installed RPC helper version, null if unavailable
+    private rpcHelperCheckedAt = 0;                  // When rpcHelperVersion was last asked for
+    private sqlPathHealth = new SqlPathHealth();
+    private cursors = new SqlCursorStore<SqlCursor>((cursor) => this.closeCursor(cursor));
+    private pgTypeNames = new Map<number, string>(); // Type OID -> name, for result columns
+    private calls = new AsyncLocalStorage<SqlCallOptions>(); // The tool call being served, if any
+    private checkedOut = new Map<PoolClient, { unwatch: () => Promise<void> }>(); // See connectPg
+
+    private static readonly DEFAULT_SQL_TIMEOUT_MS = 60_000;
+    private static readonly RPC_HELPER_RECHECK_MS = 30_000; // Between checks while the helper is unavailable
+
+    private static readonly NOT_PAGEABLE_NOTICE =
+        'The result was truncated. Only single SELECT, VALUES or TABLE queries can be paged; add a LIMIT or narrow the query to see the rest.';
+
+    /**
+     * Creates an instance of SelfhostedSupabaseClient.
+     * Note: Call initialize() after creating the instance to check for RPC functions.
+     * @param options - Configuration options for the client.
+     */
+    private constructor(options: SelfhostedSupabaseClientOptions) {
+        this.options = options;
+
+        // Initialize the primary Supabase client (anon key)
+        this.supabase = createClient(options.supabaseUrl, options.supabaseAnonKey, options.supabaseClientOptions);
+        if (options.supabaseServiceRoleKey) {
+            this.rpcClient = createClient(options.supabaseUrl, options.supabaseServiceRoleKey, options.supabaseClientOptions);
+        }
+
+        // Validate required options
+        if (!options.supabaseUrl || !options.supabaseAnonKey) {
+            throw new Error('Supabase URL and Anon Key are required.');
+        }
+        for (const [name, value] of [['sqlMaxRows', options.sqlMaxRows], ['sqlMaxBytes', options.sqlMaxBytes]] as const) {
+            if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+                throw new Error(`${name} must be a positive integer.`);
+            }
+        }
+        const nonNegative = [
+            ['sqlTimeoutMs', options.sqlTimeoutMs],
+            ['pg.idleTimeoutMs', options.pg?.idleTimeoutMs],
+            ['pg.connectionTimeoutMs', options.pg?.connectionTimeoutMs],
+        ] as const;
+        for (const [name, value] of nonNegative) {
+            if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+                throw new Error(`${name} must be a non-negative integer.`);
+            }
+        }
+        if (options.pg?.poolMax !== undefined && (!Number.isInteger(options.pg.poolMax) || options.pg.poolMax < 1)) {
+            throw new Error('pg.poolMax must be a positive integer.');
+        }
+        if (options.rpcHelper !== undefined && options.rpcHelper !== 'auto' && options.rpcHelper !== 'manual') {
+            throw new Error(`rpcHelper must be auto or manual, not "${options.rpcHelper}".`);
+        }
+        if (options.databaseUrl) {
+            this.pgPoolConfig = buildPgPoolConfig(options.databaseUrl, options.pg);
+        }
+    }
+
+    /**
+     * Factory function to create and asynchronously initialize the client.
+     * Checks for the existence of the helper RPC function.
+     */
+    public static async create(options: SelfhostedSupabaseClientOptions): Promise<SelfhostedSupabaseClient> {
+        const client = new SelfhostedSupabaseClient(options);
+        await client.initialize();
+        return client;
+    }
+
+    /**
+     * Initializes the client by checking for the required RPC function.
+     * Attempts to create the function if it doesn't exist and a service role key is provided.
+     */
+    public async initialize(): Promise<void> {
+        console.error('Initializing SelfhostedSupabaseClient...');
+        try {
+            await this.checkAndMigrateRpcHelper();
+            console.error(`RPC helper (schema ${RPC_HELPER_SCHEMA}) status: ${this.rpcHelperVersion === null ? 'Unavailable' : `version ${this.rpcHelperVersion}`}`);
+        } catch (error) {
+            console.error('Error during client initialization:', error);
+            // Decide if we should throw or allow continuation without RPC
+            // For now, let's log and continue, executeSqlViaRpc will throw if needed
+        }
+        console.error('Initialization complete.');
+    }
+
+    // --- Public Methods (to be implemented) ---
+
+    /**
+     * Runs `work` on behalf of a tool call. SQL it runs gets the call's statement timeout (never above
+     * the server's), and its running query is cancelled (pg_cancel_backend) when the call's signal aborts.
+     * Nested calls keep the outer options, and the lower timeout wins.
+     */
+    public runWithCallOptions<T>(options: SqlCallOptions, work: () => Promise<T>): Promise<T> {
+        const outer = this.calls.getStore();
+        const timeouts = [outer?.timeoutMs, options.timeoutMs].filter((timeout): timeout is number => timeout !== undefined);
+        return this.calls.run({
+            timeoutMs: timeouts.length > 0 ? Math.min(...timeouts) : undefined,
+            signal: options.signal ?? outer?.signal,
+            onSqlPath: options.onSqlPath ?? outer?.onSqlPath,
+        }, work);
+    }
+
+    /**
+     * The configured SQL paths, healthy ones first; pg comes before rpc when both are healthy.
+     */
+    public sqlPaths(): SqlPath[] {
+        const configured: SqlPath[] = [];
+        if (this.isPgAvailable()) configured.push('pg');
+        if (this.rpcClient) configured.push('rpc');
+        return this.sqlPathHealth.order(configured);
+    }
+
+    /**
+     * Records how a query sent through a path went, for the path's health and the current tool call.
+     * Only connection-level errors count against the path; an error from the SQL itself means it
+     * reached the database. The server's own errors (MCP_*, such as a missing RPC helper or a
+     * cancelled call) say nothing either way. Returns whether the error was connection-level.
+     */
+    public recordSqlPathOutcome(path: SqlPath, error?: SqlErrorResponse['error']): boolean {
+        const connectionError = !!error && isConnectionError(error);
+        if (connectionError) {
+            this.sqlPathHealth.recordFailure(path, error.message);
+        } else if (!error?.code?.startsWith('MCP_')) {
+            this.sqlPathHealth.recordSuccess(path);
+        }
+        this.calls.getStore()?.onSqlPath?.({ path, error: connectionError ? error.message : undefined });
+        return connectionError;
+    }
+
+    /**
+     * Health of each SQL path, and whether it is configured at all.
+     */
+    public getSqlPathStatus(): (SqlPathHealthStatus & { path: SqlPath; configured: boolean })[] {
+        return [
+            { path: 'pg' as const, configured: this.isPgAvailable(), ...this.sqlPathHealth.status('pg') },
+            { path: 'rpc' as const, configured: !!this.rpcClient, ...this.sqlPathHealth.status('rpc') },
+        ];
+    }
+
+    /**
+     * The schemas PostgREST exposes (its db-schemas setting). PostgREST has no endpoint for them, but
+     * lists them when asked for a schema it doesn't expose (PGRST106). Null if it couldn't be asked.
+     */
+    public async getPostgrestSchemas(): Promise<string[] | null> {
+        try {
+            const { error } = await this.supabase.schema('_mcp_schema_probe').from('_').select('*').limit(0);
+            if (error?.code !== 'PGRST106') return null;
+            // "The schema must be one of the following: ..." before PostgREST 12, then
+            // "Only the following schemas are exposed: ..." in the hint
+            for (const text of [error.hint, error.message]) {
+                const match = /(?:one of the following|schemas are exposed):\s*(.+)$/i.exec(text ?? '');
+                if (match) return match[1].split(',').map((schema) => schema.trim()).filter(Boolean);
+            }
+            return null;
+        } catch (error) {
+            console.error('Failed to ask PostgREST for its schemas:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Executes SQL using the preferred RPC method: the execute_sql function of the RPC helper, called
+     * with the service role key. In read-only mode every call runs with read_only = true.
+     * `params` are bound to $1..$n by the function itself, which quotes each one with format('%L').
+     */
+    public async executeSqlViaRpc(query: string, readOnly = false, params?: SqlParam[]): Promise<SqlExecutionResult> {
+        const result = await this.queryViaRpc(query, readOnly, params);
+        return 'error' in result ? result : result.rows;
+    }
+
+    /**
+     * Runs a query through the RPC helper's execute_sql and returns its rows, normalized, and columns.
+     * Column types are null when the helper can't describe the query (see result_types in rpc-helper.ts);
+     * their values are then left as to_json made them.
+     */
+    private async queryViaRpc(query: string, readOnly: boolean, params?: SqlParam[]): Promise<RpcQueryResult | SqlErrorResponse> {
+        readOnly = readOnly || this.isReadOnly();
+        const unavailable = await this.rpcUnavailableResponse();
+        if (unavailable) return unavailable;
+
+        // Queries returning rows get wrapped in a CTE, which their trailing semicolon would break
+        const returnsRows = queryReturnsRows(query);
+        const statement = returnsRows ? splitSqlStatements(query)[0].text : query;
+        let rpcArgs: { query: string; read_only: boolean; returns_rows: boolean; params?: (string | null)[] } = { query: statement, read_only: readOnly, returns_rows: returnsRows };
+        if (params) {
+            const bound = SelfhostedSupabaseClient.bindParams(statement, params);
+            if ('error' in bound) return bound;
+            rpcArgs = { ...rpcArgs, query: toFormatTemplate(bound.text), params: bound.values };
+        }
+
+        console.error(`Executing via RPC (readOnly: ${readOnly}, params: ${params?.length ?? 0}): ${query.substring(0, 100)}...`);
+
+        try {
+            const signal = this.rpcSignal();
+            const { data, error } = await this.rpcHelper().rpc('execute_sql', rpcArgs).abortSignal(signal);
+
+            if (error) {
+                console.error('Error executing SQL via RPC:', error);
+                if (signal.aborted) return this.rpcAbortedResponse();
+                // Attempt to conform to SqlErrorResponse structure
+                return {
+                    error: {
+                        message: error.message,
+                        code: error.code, // Propagate Supabase/PostgREST error code
+                        details: error.details,
+                        hint: error.hint,
+                    },
+                };
+            }
+
+            // The function returns { rows, columns, row_count }; check the shape for safety
+            const response = data as Partial<RpcQueryResult> | null;
+            if (response && Array.isArray(response.rows) && Array.isArray(response.columns)) {
+                return { rows: normalizeSqlRows(response.rows, response.columns, 'json'), columns: response.columns };
+            }
+            // If it's not that shape, something went wrong with the RPC function's output
+            console.error('Unexpected response format from execute_sql RPC:', data);
+            return {
+                error: {
+                    message: 'Unexpected response format from execute_sql RPC. Expected rows and columns.',
+                    code: 'MCP_RPC_FORMAT_ERROR',
+                },
+             } as SqlErrorResponse;
+        } catch (rpcError: unknown) {
+            const errorMessage = rpcError instanceof Error ? rpcError.message : String(rpcError);
+             console.error('Exception during executeSqlViaRpc call:', rpcError);
+            return {
+                error: {
+                    message: `Exception during RPC call: ${errorMessage}`,
+                    code: 'MCP_RPC_EXCEPTION',
+                },
+            } as SqlErrorResponse;
+        }
+    }
+
+    /**
+     * Executes SQL directly against the database using the pg library.
+     * Requires DATABASE_URL to be configured.
+     * Useful for simple queries when RPC is unavailable or direct access is preferred.
+     * NOTE: Does not support transactions directly.
+     * Consider executeTransactionWithPg for more complex operations.
+     * Read-only queries (always, in read-only mode) run as a single statement inside BEGIN READ ONLY.
+     * `params` are bound to $1..$n through pg's parameter binding (which also limits the query to one statement).
+     */
+    public async executeSqlWithPg(query: string, readOnly = false, params?: SqlParam[]): Promise<SqlExecutionResult> {
+        readOnly = readOnly || this.isReadOnly();
+        let bound: BoundSqlQuery | undefined;
+        if (params) {
+            const result = SelfhostedSupabaseClient.bindParams(query, params);
+            if ('error' in result) return result;
+            bound = result;
+        }
+        if (!this.options.databaseUrl) {
+            return { error: { message: 'DATABASE_URL is not configured. Cannot execute SQL directly.', code: 'MCP_CONFIG_ERROR' } };
+        }
+        try {
+            await this.ensurePgPool(); // Ensure pool is initialized
+        } catch (poolError: unknown) {
+            return SelfhostedSupabaseClient.toPgErrorResponse(poolError);
+        }
+        if (!this.pgPool) { // Should not happen if ensurePgPool works, but type guard
+             return { error: { message: 'pg Pool not available after initialization attempt.', code: 'MCP_POOL_ERROR' } };
+        }
+
+        try {
+            console.error(`Executing via pg (readOnly: ${readOnly}, params: ${params?.length ?? 0}): ${query.substring(0, 100)}...`);
+            const result = await this.queryWithPg(query, readOnly, bound);
+            // Return result in a format consistent with SqlSuccessResponse
+            // Assuming result.rows is the desired data array
+            return normalizeSqlRows(result.rows, await this.resolvePgColumns(result.fields ?? [], this.pgPool), 'text');
+        } catch (dbError: unknown) {
+            return SelfhostedSupabaseClient.toPgErrorResponse(dbError);
+        }
+    }
+
+    /**
+     * Executes a script's statements one at a time using the pg library, on a single connection.
+     * Atomic scripts run in one transaction that is rolled back at the first error; the remaining
+     * statements are skipped. Otherwise every statement commits on its own and errors don't stop the script.
+     * Each statement is sent as a single statement. Independent statements run in a transaction of their
+     * own (read-only when the script is), except those Postgres won't run in one (see queryWithPg).
+     */
+    public async executeSqlScriptWithPg(statements: SqlScriptStatement[], options: SqlScriptOptions): Promise<SqlScriptExecutionResult> {
+        const readOnly = !!options.readOnly || this.isReadOnly();
+        if (!this.options.databaseUrl) {
+            return { error: { message: 'DATABASE_URL is not configured. Cannot execute SQL directly.', code: 'MCP_CONFIG_ERROR' } };
+        }
+        try {
+            await this.ensurePgPool();
+        } catch (poolError: unknown) {
+            return SelfhostedSupabaseClient.toPgErrorResponse(poolError);
+        }
+        if (!this.pgPool) {
+            return { error: { message: 'pg Pool not available after initialization attempt.', code: 'MCP_POOL_ERROR' } };
+        }
+
+        console.error(`Executing script via pg (${statements.length} statements, atomic: ${options.atomic}, readOnly: ${readOnly})`);
+        const client = await this.connectPg();
+        const results: SqlStatementResult[] = [];
+        let failed = false;
+        try {
+            if (options.atomic) {
+                await this.beginPg(client, readOnly);
+                // Until a query takes a snapshot, the script could still SET TRANSACTION READ WRITE
+                if (readOnly) await client.query('SELECT 1');
+            }
+            for (const statement of statements) {
+                if (failed && options.atomic) {
+                    results.push({ command: statement.command, status: 'skipped', rowCount: null });
+                    continue;
+                }
+                const ownTransaction = !options.atomic && (readOnly || !runsOutsideTransaction(statement.sql));
+                try {
+                    if (ownTransaction) await this.beginPg(client, readOnly);
+                    const result: QueryResult = await client.query({ text: statement.sql, queryMode: 'extended', types: RAW_TEXT_TYPES } as QueryConfig);
+                    if (ownTransaction) await client.query('COMMIT');
+
+                    const statementResult: SqlStatementResult = {
+                        command: result.command ?? statement.command,
+                        status: 'ok',
+                        rowCount: result.rowCount,
+                    };
+                    if (result.fields?.length > 0) {
+                        const columns = await this.resolvePgColumns(result.fields, client);
+                        const { rows, truncatedBy } = limitRows(normalizeSqlRows(result.rows, columns, 'text'), options);
+                        statementResult.rows = rows;
+                        statementResult.truncatedBy = truncatedBy;
+                    }
+                    results.push(statementResult);
+                } catch (dbError: unknown) {
+                    if (ownTransaction) await client.query('ROLLBACK');
+                    results.push({
+                        command: statement.command,
+                        status: 'error',
+                        rowCount: null,
+                        error: SelfhostedSupabaseClient.toPgErrorResponse(dbError).error,
+                    });
+                    failed = true;
+                }
+                options.onStatement?.(results.length);
+            }
+            if (options.atomic) {
+                await client.query(failed ? 'ROLLBACK' : 'COMMIT');
+            }
+            return { rolledBack: failed && options.atomic, statements: results };
+        } catch (dbError: unknown) {
+            // BEGIN, COMMIT or ROLLBACK failed; nothing of an atomic script took effect
+            if (options.atomic) await client.query('ROLLBACK').catch(() => undefined);
+            return SelfhostedSupabaseClient.toPgErrorResponse(dbError);
+        } finally {
+            await this.releasePg(client);
+        }
+    }
+
+    /**
+     * Executes a script via the execute_sql_script RPC function, with the same semantics as
+     * executeSqlScriptWithPg. Rows come back for statements that can be wrapped in a CTE:
+     * SELECT, VALUES, TABLE, and data-modifying statements with RETURNING.
+     */
+    public async executeSqlScriptViaRpc(statements: SqlScriptStatement[], options: SqlScriptOptions): Promise<SqlScriptExecutionResult> {
+        const readOnly = !!options.readOnly || this.isReadOnly();
+        const unavailable = await this.rpcUnavailableResponse();
+        if (unavailable) return unavailable;
+
+        console.error(`Executing script via RPC (${statements.length} statements, atomic: ${options.atomic}, readOnly: ${readOnly})`);
+        const signal = this.rpcSignal();
+        const { data, error } = await this.rpcHelper().rpc('execute_sql_script', {
+            statements: statements.map((statement) => ({ sql: statement.sql, returns_rows: statement.returnsRows })),
+            atomic: options.atomic,
+            read_only: readOnly,
+        }).abortSignal(signal);
+        if (error) {
+            console.error('Error executing SQL script via RPC:', error);
+            if (signal.aborted) return this.rpcAbortedResponse();
+            return { error: { message: error.message, code: error.code, details: error.details, hint: error.hint } };
+        }
+
+        const response = data as {
+            rolled_back?: boolean;
+            statements?: {
+                status: SqlStatementResult['status'];
+                row_count?: number;
+                rows?: SqlSuccessResponse | null;
+                columns?: RpcQueryResult['columns'] | null; // Helper version 2 and later
+                code?: string;
+                message?: string;
+            }[];
+        } | null;
+        if (!response || !Array.isArray(response.statements) || response.statements.length !== statements.length) {
+            console.error('Unexpected response format from execute_sql_script RPC:', data);
+            return { error: { message: 'Unexpected response format from execute_sql_script RPC.', code: 'MCP_RPC_FORMAT_ERROR' } };
+        }
+
+        return {
+            rolledBack: !!response.rolled_back,
+            statements: response.statements.map((result, index): SqlStatementResult => {
+                const statementResult: SqlStatementResult = {
+                    command: statements[index].command,
+                    status: result.status,
+                    rowCount: result.row_count ?? null,
+                };
+                if (result.status === 'error') {
+                    statementResult.error = { message: result.message ?? 'Unknown error', code: result.code };
+                }
+                if (Array.isArray(result.rows)) {
+                    const { rows, truncatedBy } = limitRows(normalizeSqlRows(result.rows, result.columns ?? [], 'json'), options);
+                    statementResult.rows = rows;
+                    statementResult.truncatedBy = truncatedBy;
+                }
+                return statementResult;
+            }),
+        };
+    }
+
+    /**
+     * Executes SQL a page at a time using the pg library. Single SELECT, VALUES and TABLE queries run
+     * behind a server-side cursor held open in its own transaction; the returned `nextCursor` fetches
+     * the next page from it (see fetchSqlPage). Other statements run as in executeSqlWithPg and are
+     * only truncated to the limits.
+     */
+    public async executeSqlPageWithPg(query: string, options: SqlPageOptions): Promise<SqlPageResult> {
+        const readOnly = !!options.readOnly || this.isReadOnly();
+        let bound: BoundSqlQuery | undefined;
+        if (options.params) {
+            const result = SelfhostedSupabaseClient.bindParams(query, options.params);
+            if ('error' in result) return result;
+            bound = result;
+        }
+        if (!this.options.databaseUrl) {
+            return { error: { message: 'DATABASE_URL is not configured. Cannot execute SQL directly.', code: 'MCP_CONFIG_ERROR' } };
+        }
+        try {
+            await this.ensurePgPool();
+        } catch (poolError: unknown) {
+            return SelfhostedSupabaseClient.toPgErrorResponse(poolError);
+        }
+        if (!this.pgPool) {
+            return { error: { message: 'pg Pool not available after initialization attempt.', code: 'MCP_POOL_ERROR' } };
+        }
+
+        console.error(`Executing page via pg (readOnly: ${readOnly}, params: ${options.params?.length ?? 0}): ${query.substring(0, 100)}...`);
+        if (!isCursorable(query)) {
+            try {
+                const result = await this.queryWithPg(query, readOnly, bound, options.identity);
+                const columns = await this.resolvePgColumns(result.fields ?? [], this.pgPool);
+                const { rows, truncatedBy } = limitRows(normalizeSqlRows(result.rows, columns, 'text'), options);
+                return {
+                    rows,
+                    columns,
+                    truncatedBy,
+                    notice: truncatedBy ? SelfhostedSupabaseClient.NOT_PAGEABLE_NOTICE : undefined,
+                };
+            } catch (dbError: unknown) {
+                return SelfhostedSupabaseClient.toPgErrorResponse(dbError);
+            }
+        }
+
+        const client = await this.connectPg();
+        const name = `mcp_cursor_${randomUUID().replace(/-/g, '')}`;
+        try {
+            await this.beginPg(client, readOnly);
+            if (options.identity) await SelfhostedSupabaseClient.applyIdentity(client, options.identity);
+            // Extended protocol: a single statement, with the parameters bound as usual
+            await client.query({
+                text: `DECLARE ${name} SCROLL CURSOR FOR ${bound?.text ?? query}`,
+                values: bound?.values,
+                queryMode: 'extended',
+            } as QueryConfig);
+        } catch (dbError: unknown) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            await this.releasePg(client);
+            return SelfhostedSupabaseClient.toPgErrorResponse(dbError);
+        }
+
+        // The connection outlives this call; each fetch watches for its own call's cancellation
+        await this.checkedOut.get(client)?.unwatch();
+        const id = await this.cursors.open({ kind: 'pg', client, name });
+        return this.fetchCursorPage(id, 0, options);
+    }
+
+    /**
+     * Executes SQL a page at a time via the RPC function. Single SELECT, VALUES and TABLE queries are
+     * paged by re-running them with LIMIT/OFFSET, so pages are only consistent if the query has a
+     * stable ORDER BY. Other statements run as in executeSqlViaRpc and are only truncated to the limits.
+     * Column types the helper can't describe take an extra call on the first page; their order follows the JSON objects returned.
+     */
+    public async executeSqlPageViaRpc(query: string, options: SqlPageOptions): Promise<SqlPageResult> {
+        const readOnly = !!options.readOnly || this.isReadOnly();
+        if (options.identity) {
+            return {
+                error: {
+                    message: 'Running SQL as another role or user requires the direct database connection (DATABASE_URL).',
+                    code: 'MCP_CONFIG_ERROR',
+                },
+            };
+        }
+        if (!isCursorable(query)) {
+            const result = await this.queryViaRpc(query, readOnly, options.params);
+            if ('error' in result) return result;
+            const { rows, truncatedBy } = limitRows(result.rows, options);
+            return {
+                rows,
+                columns: await this.resolveRpcColumns(query, readOnly, options.params, result.columns),
+                truncatedBy,
+                notice: truncatedBy ? SelfhostedSupabaseClient.NOT_PAGEABLE_NOTICE : undefined,
+            };
+        }
+
+        // Without its trailing semicolon, so it can be wrapped in a subquery
+        const statement = splitSqlStatements(query)[0].text;
+        const id = await this.cursors.open({ kind: 'rpc', query: statement, readOnly, params: options.params });
+        return this.fetchCursorPage(id, 0, options);
+    }
+
+    /**
+     * Fetches the next page for a cursor returned with an earlier page.
+     * Cursors expire after a few minutes without use, and only a few stay open at a time.
+     */
+    public async fetchSqlPage(cursor: string, limits: SqlPageLimits): Promise<SqlPageResult> {
+        const token = decodeCursorToken(cursor);
+        if (!token) {
+            return { error: { message: 'Invalid cursor.', code: 'MCP_CURSOR_INVALID' } };
+        }
+        return this.fetchCursorPage(token.id, token.offset, limits);
+    }
+
+    private async fetchCursorPage(id: string, offset: number, limits: SqlPageLimits): Promise<SqlPageResult> {
+        const cursor = await this.cursors.get(id);
+        if (!cursor) {
+            return {
+                error: {
+                    message: 'The cursor has expired or was closed. Run the query again to start over.',
+                    code: 'MCP_CURSOR_EXPIRED',
+                },
+            };
+        }
+
+        let rows: SqlSuccessResponse;
+        let columns: SqlColumn[];
+        if (cursor.kind === 'pg') {
+            const unwatch = this.watchCancellation(cursor.client);
+            try {
+                // The cursor's transaction outlives the call that opened it; each fetch has its own timeout
+                await cursor.client.query(this.localTimeoutSql());
+                // MOVE ABSOLUTE 0 rewinds to before the first row; fetching one extra row tells if there are more
+                await cursor.client.query(`MOVE ABSOLUTE ${offset} IN ${cursor.name}`);
+                const result = await cursor.client.query({ text: `FETCH FORWARD ${limits.maxRows + 1} FROM ${cursor.name}`, types: RAW_TEXT_TYPES });
+                columns = await this.resolvePgColumns(result.fields, cursor.client);
+                rows = normalizeSqlRows(result.rows, columns, 'text');
+            } catch (dbError: unknown) {
+                await this.cursors.release(id);
+                return SelfhostedSupabaseClient.toPgErrorResponse(dbError);
+            } finally {
+                await unwatch();
+            }
+        } else {
+            const pageQuery = `SELECT * FROM (\n${cursor.query}\n) AS page LIMIT ${limits.maxRows + 1} OFFSET ${offset}`;
+            const result = await this.queryViaRpc(pageQuery, cursor.readOnly, cursor.params);
+            if ('error' in result) {
+                await this.cursors.release(id);
+                return result;
+            }
+            rows = result.rows;
+            cursor.columns ??= await this.resolveRpcColumns(cursor.query, cursor.readOnly, cursor.params, result.columns);
+            columns = cursor.columns;
+        }
+
+        const page = limitRows(rows, limits);
+        if (!page.truncatedBy) {
+            await this.cursors.release(id);
+            return { rows: page.rows, columns };
+        }
+        return {
+            rows: page.rows,
+            columns,
+            truncatedBy: page.truncatedBy,
+            nextCursor: encodeCursorToken(id, offset + page.rows.length),
+        };
+    }
+
+    private async closeCursor(cursor: SqlCursor): Promise<void> {
+        if (cursor.kind !== 'pg') return;
+        try {
+            // A cursor over a plain query has nothing to commit, but its functions may have had side effects
+            await cursor.client.query('COMMIT');
+        } finally {
+            await this.releasePg(cursor.client);
+        }
+    }
+
+    /**
+     * Runs a query on a pooled connection and returns the result of its last statement, its values
+     * left as text for normalizeSqlRows. The query runs inside a transaction (BEGIN READ ONLY when
+     * read-only), which carries the call's statement timeout; read-only queries, and queries run as
+     * another identity, must be a single statement. A single statement Postgres won't run in a
+     * transaction (VACUUM, CREATE INDEX CONCURRENTLY, ...) runs on its own, on the database's timeout.
+     * Throws on errors.
+     */
+    private async queryWithPg(query: string, readOnly: boolean, bound?: BoundSqlQuery, identity?: SqlIdentity): Promise<QueryResult> {
+        const client = await this.connectPg();
+        try {
+            // The extended protocol rejects multiple statements, so the query can't COMMIT
+            // its way out of the read-only transaction (or RESET ROLE before running the rest)
+            const singleStatement = readOnly || !!identity;
+            const config: QueryConfig & { queryMode?: 'extended' } = bound
+                ? { text: bound.text, values: bound.values, types: RAW_TEXT_TYPES }
+                : { text: query, types: RAW_TEXT_TYPES };
+            if (singleStatement) config.queryMode = 'extended';
+
+            if (!singleStatement && runsOutsideTransaction(query)) {
+                return await client.query(config);
+            }
+            await this.beginPg(client, readOnly);
+            try {
+                if (identity) await SelfhostedSupabaseClient.applyIdentity(client, identity);
+                const result: QueryResult | QueryResult[] = await client.query(config);
+                await client.query('COMMIT');
+                // Multiple statements come back as one result per statement
+                return Array.isArray(result) ? result[result.length - 1] : result;
+            } catch (queryError) {
+                await client.query('ROLLBACK');
+                throw queryError;
+            }
+        } finally {
+            await this.releasePg(client);
+        }
+    }
+
+    /**
+     * Column names and type names for a pg result. Type names are looked up once per type OID,
+     * on the given connection (a cursor's own, so the lookup doesn't need another one).
+     */
+    private async resolvePgColumns(fields: FieldDef[], db: Pool | PoolClient): Promise<SqlColumn[]> {
+        const unknownOids = [...new Set(fields.map((field) => field.dataTypeID))]
+            .filter((oid) => !this.pgTypeNames.has(oid));
+        if (unknownOids.length > 0) {
+            const result = await db.query(
+                'SELECT oid::int AS oid, format_type(oid, NULL) AS type FROM pg_catalog.pg_type WHERE oid = ANY($1::oid[])',
+                [unknownOids],
+            );
+            for (const row of result.rows as { oid: number; type: string }[]) {
+                this.pgTypeNames.set(row.oid, row.type);
+            }
+        }
+        return fields.map((field) => ({ name: field.name, type: this.pgTypeNames.get(field.dataTypeID) ?? String(field.dataTypeID) }));
+    }
+
+    /**
+     * Column names and type names for an RPC result. The helper reports the types of the queries it can
+     * describe; otherwise they come from running pg_typeof() over the same query. The names come from the
+     * first row, so without rows there are no columns to report.
+     */
+    private async resolveRpcColumns(query: string, readOnly: boolean, params: SqlParam[] | undefined, columns: RpcQueryResult['columns']): Promise<SqlColumn[]> {
+        if (columns.every((column) => column.type !== null)) {
+            return columns as SqlColumn[];
+        }
+        const names = columns.map((column) => column.name);
+        if (names.length === 0 || !isCursorable(query)) {
+            return names.map((name) => ({ name, type: 'unknown' }));
+        }
+        const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+        const typeQuery = `SELECT ${names.map((name) => `pg_typeof(page.${quote(name)})::text AS ${quote(name)}`).join(', ')}`
+            + ` FROM (\n${splitSqlStatements(query)[0].text}\n) AS page LIMIT 1`;
+        const result = await this.executeSqlViaRpc(typeQuery, readOnly, params);
+        const types = 'error' in result ? {} : result[0] ?? {};
+        return names.map((name) => ({ name, type: typeof types[name] === 'string' ? types[name] as string : 'unknown' }));
+    }
+
+    /**
+     * Switches the current transaction to an identity the way PostgREST does for each request:
+     * the JWT claims go into request.jwt.claims (plus the older per-claim settings), then SET LOCAL ROLE.
+     * Both last until the end of the transaction.
+     */
+    private static async applyIdentity(client: PoolClient, identity: SqlIdentity): Promise<void> {
+        await client.query(
+            `SELECT set_config('request.jwt.claims', $1, true),
+                    set_config('request.jwt.claim.sub', $2, true),
+                    set_config('request.jwt.claim.role', $3, true)`,
+            [JSON.stringify(identity.claims), String(identity.claims.sub ?? ''), identity.role],
+        );
+        await client.query(`SET LOCAL ROLE "${identity.role.replace(/"/g, '""')}"`);
+    }
+
+    /**
+     * Checks out a pooled connection for the current tool call (see runWithCallOptions), with its
+     * running query cancelled when the call is. Start transactions on it with beginPg, which applies
+     * the call's statement timeout, and give it back with releasePg.
+     */
+    private async connectPg(): Promise<PoolClient> {
+        if (!this.pgPool) {
+            throw new Error('pg Pool not available.');
+        }
+        if (this.calls.getStore()?.signal?.aborted) {
+            throw new Error('The tool call was cancelled.');
+        }
+        const client = await this.pgPool.connect();
+        this.checkedOut.set(client, { unwatch: this.watchCancellation(client) });
+        return client;
+    }
+
+    /**
+     * Returns a connection from connectPg to the pool, once a cancel sent for its call has been handled,
+     * so the cancel can't reach whatever runs on the connection next.
+     */
+    private async releasePg(client: PoolClient): Promise<void> {
+        const checkedOut = this.checkedOut.get(client);
+        this.checkedOut.delete(client);
+        await checkedOut?.unwatch();
+        client.release();
+    }
+
+    /**
+     * Starts a transaction on a connection from connectPg, on the current call's statement timeout.
+     * SET LOCAL ends with the transaction, so the timeout neither stays on the pooled connection nor,
+     * behind a transaction-mode pooler (Supavisor, PgBouncer), lands on another client's session.
+     */
+    private async beginPg(client: PoolClient, readOnly: boolean): Promise<void> {
+        await client.query(`${readOnly ? 'BEGIN READ ONLY' : 'BEGIN'}; ${this.localTimeoutSql()}`);
+    }
+
+    /**
+     * Cancels the query running on a connection (pg_cancel_backend, from a connection of its own, so
+     * it doesn't wait for a free pooled one) when the current tool call is cancelled. Returns a function
+     * that stops watching, and resolves once a cancel already sent has been handled.
+     */
+    private watchCancellation(client: PoolClient): () => Promise<void> {
+        const signal = this.calls.getStore()?.signal;
+        if (!signal) return async () => undefined;
+        // Set by pg once connected, but not part of its typings
+        const pid = (client as PoolClient & { processID: number }).processID;
+        let cancelling: Promise<void> | undefined;
+        const cancel = () => {
+            console.error(`Tool call cancelled, cancelling the query of backend ${pid}`);
+            cancelling = this.cancelBackend(pid)
+                .catch((error: unknown) => console.error(`Failed to cancel backend ${pid}:`, error));
+        };
+        signal.addEventListener('abort', cancel, { once: true });
+        return async () => {
+            signal.removeEventListener('abort', cancel);
+            await cancelling;
+        };
+    }
+
+    private async cancelBackend(pid: number): Promise<void> {
+        const client = new Client(this.pgPoolConfig ?? undefined);
+        await client.connect();
+        try {
+            await client.query('SELECT pg_cancel_backend($1)', [pid]);
+        } finally {
+            await client.end();
+        }
+    }
+
+    /**
+     * A signal that aborts an RPC request when the current tool call is cancelled or the statement
+     * timeout passes. PostgREST doesn't cancel the query when the request goes away; the statement_timeout
+     * of its database roles still bounds it.
+     */
+    private rpcSignal(): AbortSignal {
+        const signals: AbortSignal[] = [];
+        const timeoutMs = this.callTimeoutMs();
+        if (timeoutMs > 0) signals.push(AbortSignal.timeout(timeoutMs));
+        const callSignal = this.calls.getStore()?.signal;
+        if (callSignal) signals.push(callSignal);
+        return AbortSignal.any(signals);
+    }
+
+    private rpcAbortedResponse(): SqlErrorResponse {
+        if (this.calls.getStore()?.signal?.aborted) {
+            return { error: { message: 'The tool call was cancelled.', code: 'MCP_CANCELLED' } };
+        }
+        return {
+            error: {
+                message: `The RPC call did not finish within the statement timeout (${this.callTimeoutMs()}ms).`,
+                code: 'MCP_STATEMENT_TIMEOUT',
+            },
+        };
+    }
+
+    private static toPgErrorResponse(dbError: unknown): SqlErrorResponse {
+        const error = dbError instanceof Error ? dbError : new Error(String(dbError));
+        console.error('Error executing SQL with pg:', error);
+        // Try to extract code if possible (pg errors often have a .code property)
+        const code = (dbError as { code?: string })?.code || 'PG_ERROR';
+        return { error: { message: error.message, code: code } };
+    }
+
+    /**
+     * Ensures the pg connection pool is initialized.
+     * Should be called before accessing this.pgPool.
+     */
+    private async ensurePgPool(): Promise<void> {
+        if (this.pgPool) return;
+        if (!this.pgPoolConfig) {
+            throw new Error('DATABASE_URL is not configured. Cannot initialize pg pool.');
+        }
+
+        console.error(`Initializing pg pool (max ${this.pgPoolConfig.max ?? 10} connections, application_name ${this.pgPoolConfig.application_name})...`);
+        this.pgPool = new Pool(this.pgPoolConfig);
+
+        this.pgPool.on('error', (err, client) => {
+            console.error('PG Pool Error: Unexpected error on idle client', err);
+            // Optional: Implement logic to handle pool errors, e.g., attempt to reset pool
+        });
+
+        // Test connection?
+        try {
+            const client = await this.pgPool.connect();
+            console.error('pg pool connected successfully.');
+            client.release();
+        } catch (err) {
+            console.error('Failed to connect pg pool:', err);
+            // Clean up pool if connection fails?
+            await this.pgPool.end();
+            this.pgPool = null;
+            // Keeps pg's code (ECONNREFUSED, 08006, ...) so callers can tell connection failures apart
+            throw Object.assign(new Error(`Failed to connect pg pool: ${err instanceof Error ? err.message : String(err)}`), { code: (err as { code?: string })?.code });
+        }
+    }
+
+     /**
+     * Executes a series of operations within a single database transaction using the pg library.
+     * Requires DATABASE_URL to be configured.
+     * @param callback A function that receives a connected pg client and performs queries.
+     *                 It should return a promise that resolves on success or rejects on failure.
+     *                 The transaction will be committed if the promise resolves,
+     *                 and rolled back if it rejects.
+     * @param readOnly Start the transaction with BEGIN READ ONLY (always the case in read-only mode).
+     * @param rollback Roll back even when the callback succeeds, e.g. to run EXPLAIN ANALYZE on DML safely.
+     */
+    public async executeTransactionWithPg<T>(
+        callback: (client: PoolClient) => Promise<T>,
+        readOnly = false,
+        rollback = false
+    ): Promise<T> {
+        readOnly = readOnly || this.isReadOnly();
+        if (!this.options.databaseUrl) {
+            throw new Error('DATABASE_URL is not configured. Cannot execute transaction directly.');
+        }
+        await this.ensurePgPool();
+        if (!this.pgPool) {
+            throw new Error('pg Pool not available for transaction.');
+        }
+
+        const client = await this.connectPg();
+        try {
+            await this.beginPg(client, readOnly);
+            console.error(`BEGIN${readOnly ? ' READ ONLY' : ''} transaction`);
+            const result = await callback(client);
+            if (rollback) {
+                await client.query('ROLLBACK');
+                console.error('ROLLBACK transaction (requested)');
+                return result;
+            }
+            await client.query('COMMIT');
+            console.error('COMMIT transaction');
+            return result;
+        } catch (error) {
+            console.error('Transaction Error - Rolling back:', error);
+            await client.query('ROLLBACK');
+            console.error('ROLLBACK transaction');
+            // Re-throw the error so the caller knows the transaction failed
+            throw error;
+        } finally {
+            await this.releasePg(client);
+        }
+    }
+
+    /**
+     * Runs a parameterized query issued by the server itself (e.g. audit records), outside any tool call.
+     * Unlike the tool-facing methods this is not restricted by read-only mode, so tools must not use it.
+     * Throws on errors.
+     */
+    public async executeServerQueryWithPg(query: string, values: unknown[] = []): Promise<SqlSuccessResponse> {
+        if (!this.options.databaseUrl) {
+            throw new Error('DATABASE_URL is not configured. Cannot execute server queries.');
+        }
+        await this.ensurePgPool();
+        if (!this.pgPool) {
+            throw new Error('pg Pool not available for server query.');
+        }
+        const result = await this.pgPool.query(query, values);
+        return result.rows as SqlSuccessResponse;
+    }
+
+    /**
+     * Drops the RPC helper schema, and the unversioned helper functions of earlier releases, over the
+     * direct connection. The RPC path is unavailable afterwards.
+     */
+    public async uninstallRpcHelper(): Promise<void> {
+        await this.executeTransactionWithPg((client: PoolClient) => client.query(UNINSTALL_RPC_HELPER_SQL));
+        await this.executeSqlWithPg("NOTIFY pgrst, 'reload schema'");
+        this.rpcHelperVersion = null;
+        console.error(`RPC helper (schema ${RPC_HELPER_SCHEMA}) uninstalled.`);
+    }
+
+    // --- Helper/Private Methods (to be implemented) ---
+
+    /**
+     * Installs or migrates the RPC helper over the direct connection when the server manages it
+     * (rpcHelper 'auto', with the service role key and DATABASE_URL, not read-only), then asks PostgREST
+     * for the installed version. Migrations take an advisory lock, so servers starting together
+     * don't run them twice.
+     */
+    private async checkAndMigrateRpcHelper(): Promise<void> {
+        let migrated = false;
+        const manage = (this.options.rpcHelper ?? 'auto') === 'auto';
+        if (manage && this.options.supabaseServiceRoleKey && this.options.databaseUrl && !this.isReadOnly()) {
+            try {
+                migrated = await this.migrateRpcHelper();
+            } catch (error) {
+                // The database may only be unreachable directly (a pooler down, say); RPC may still work
+                console.error('Failed to install or migrate the RPC helper:', error);
+            }
+        } else if (this.options.databaseUrl) {
+            await this.warnAboutLegacyRpcHelper();
+        }
+
+        if (!this.rpcClient) {
+            console.error('No service role key: SQL via RPC is unavailable.');
+            return;
+        }
+        await this.detectRpcHelperVersion(migrated);
+    }
+
+    // Brings the helper to RPC_HELPER_VERSION over the direct connection; returns whether it changed anything
+    private async migrateRpcHelper(): Promise<boolean> {
+        const migrated = await this.executeTransactionWithPg(async (client: PoolClient) => {
+            await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [RPC_HELPER_SCHEMA]);
+            const legacy = await legacyRpcHelperFunctions(client);
+            if (legacy.length > 0) {
+                console.error(`Dropping RPC helper functions of an earlier release, which anon and authenticated could call: ${legacy.join(', ')}`);
+                await client.query(DROP_LEGACY_RPC_HELPER_SQL);
+            }
+            const installed = await installedRpcHelperVersion(client);
+            if (installed >= RPC_HELPER_VERSION) return legacy.length > 0;
+            console.error(installed === 0
+                ? `Installing the RPC helper (schema ${RPC_HELPER_SCHEMA}, version ${RPC_HELPER_VERSION})...`
+                : `Migrating the RPC helper from version ${installed} to ${RPC_HELPER_VERSION}...`);
+            await client.query(rpcHelperMigrationSql(installed));
+            return true;
+        });
+        if (migrated) {
+            console.error('Notifying PostgREST to reload schema cache...');
+            await this.executeSqlWithPg("NOTIFY pgrst, 'reload schema'");
+        }
+        return migrated;
+    }
+
+    // Without managing the helper the server can't drop the legacy functions, but it can point them out
+    private async warnAboutLegacyRpcHelper(): Promise<void> {
+        try {
+            await this.ensurePgPool();
+            const legacy = this.pgPool ? await legacyRpcHelperFunctions(this.pgPool) : [];
+            if (legacy.length > 0) {
+                console.error(`Warning: RPC helper functions of an earlier release let anon and authenticated run any SQL: ${legacy.join(', ')}. Drop them, or run the server once with --rpc-helper uninstall or auto.`);
+            }
+        } catch (error) {
+            console.error('Failed to check for RPC helper functions of earlier releases:', error);
+        }
+    }
+
+    /**
+     * Asks PostgREST for the installed helper version. Right after a migration, the helper is assumed
+     * current even if PostgREST doesn't serve it yet. Returns the error if PostgREST didn't answer.
+     */
+    private async detectRpcHelperVersion(migrated: boolean): Promise<SqlErrorResponse['error'] | undefined> {
+        this.rpcHelperCheckedAt = Date.now();
+        const { data, error } = await this.rpcHelper().rpc('helper_version').abortSignal(this.rpcSignal());
+        if (error && isConnectionError(error)) {
+            this.sqlPathHealth.recordFailure('rpc', error.message);
+        } else {
+            this.sqlPathHealth.recordSuccess('rpc');
+        }
+        if (!error && typeof data === 'number') {
+            this.rpcHelperVersion = data;
+            if (data > RPC_HELPER_VERSION) {
+                console.error(`Warning: the installed RPC helper (version ${data}) is newer than this server's (version ${RPC_HELPER_VERSION}).`);
+            }
+            return;
+        }
+
+        // PGRST106: the schema isn't in PostgREST's db-schemas
+        const hint = error?.code === 'PGRST106' ? ` Add ${RPC_HELPER_SCHEMA} to the schemas PostgREST exposes (PGRST_DB_SCHEMAS).` : '';
+        if (migrated) {
+            // Most likely PostgREST is still reloading its schema cache; calls will tell
+            this.rpcHelperVersion = RPC_HELPER_VERSION;
+            console.error(`PostgREST doesn't serve the RPC helper yet: ${error?.message}.${hint}`);
+        } else {
+            console.error(`RPC helper not available: ${error?.message ?? 'unexpected response'}.${hint}`);
+        }
+        return error ?? undefined;
+    }
+
+    // The helper's schema, called with the service role key
+    private rpcHelper() {
+        if (!this.rpcClient) {
+            throw new Error('The RPC helper requires the service role key.');
+        }
+        return this.rpcClient.schema(RPC_HELPER_SCHEMA);
+    }
+
+    /**
+     * Why SQL can't go through the RPC helper, if it can't: no helper, or one older than this server needs.
+     * A helper missing at the last check is looked for again now and then, in case PostgREST was down.
+     */
+    private async rpcUnavailableResponse(): Promise<SqlErrorResponse | undefined> {
+        const recheck = this.rpcHelperVersion === null && this.rpcClient
+            && Date.now() - this.rpcHelperCheckedAt >= SelfhostedSupabaseClient.RPC_HELPER_RECHECK_MS;
+        if (recheck) {
+            const error = await this.detectRpcHelperVersion(false);
+            if (error && isConnectionError(error)) return { error };
+        }
+        if (this.rpcHelperVersion === null) {
+            return {
+                error: {
+                    message: `The RPC helper (schema ${RPC_HELPER_SCHEMA}) is not available. Configure DATABASE_URL, or start the server once with the service role key and DATABASE_URL to install the helper, and expose the ${RPC_HELPER_SCHEMA} schema in PostgREST.`,
+                    code: 'MCP_CLIENT_ERROR',
+                },
+            };
+        }
+        if (this.rpcHelperVersion < RPC_HELPER_VERSION) {
+            return {
+                error: {
+                    message: `The installed RPC helper is version ${this.rpcHelperVersion}, but this server needs version ${RPC_HELPER_VERSION}. Start the server once with the service role key and DATABASE_URL to migrate it.`,
+                    code: 'MCP_RPC_HELPER_OUTDATED',
+                },
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * Binds query parameters, turning binding problems into an error response.
+     */
+    private static bindParams(query: string, params: SqlParam[]): BoundSqlQuery | SqlErrorResponse {
+        try {
+            return bindSqlParams(query, params);
+        } catch (error) {
+            return { error: { message: error instanceof Error ? error.message : String(error), code: 'MCP_PARAMS_ERROR' } };
+        }
+    }
+
+    // --- Getters --- 
+    public getSupabaseUrl(): string {
+        return this.options.supabaseUrl;
+    }
+
+    public getAnonKey(): string {
+        return this.options.supabaseAnonKey;
+    }
+
+    public getServiceRoleKey(): string | undefined {
+        return this.options.supabaseServiceRoleKey;
+    }
+
+    /**
+     * Gets the configured JWT secret, if provided.
+     */
+    public getJwtSecret(): string | undefined {
+        return this.options.jwtSecret;
+    }
+
+    /**
+     * The RPC helper version installed in the database, null if it is missing or PostgREST couldn't be asked.
+     */
+    public getRpcHelperVersion(): number | null {
+        return this.rpcHelperVersion;
+    }
+
+    /**
+     * Gets the configured direct database connection URL, if provided.
+     */
+    public getDbUrl(): string | undefined {
+        return this.options.databaseUrl;
+    }
+
+    /**
+     * Per-page limits for execute_sql results; callers may ask for less, never more.
+     */
+    public getSqlLimits(): SqlPageLimits {
+        return {
+            maxRows: this.options.sqlMaxRows ?? DEFAULT_SQL_MAX_ROWS,
+            maxBytes: this.options.sqlMaxBytes ?? DEFAULT_SQL_MAX_BYTES,
+        };
+    }
+
+    private serverTimeoutMs(): number {
+        return this.options.sqlTimeoutMs ?? SelfhostedSupabaseClient.DEFAULT_SQL_TIMEOUT_MS;
+    }
+
+    // Puts the current transaction on the call's statement timeout, or the database's own without one
+    // (TO DEFAULT ignores whatever SQL of earlier calls SET on the session). A SET rather than the
+    // statement_timeout startup parameter, which poolers like PgBouncer reject.
+    private localTimeoutSql(): string {
+        const timeoutMs = this.callTimeoutMs();
+        return timeoutMs > 0 ? `SET LOCAL statement_timeout = ${timeoutMs}` : 'SET LOCAL statement_timeout TO DEFAULT';
+    }
+
+    /**
+     * The statement timeout for SQL run now, in ms (0 for none): the current call's own, capped by the server's.
+     */
+    private callTimeoutMs(): number {
+        const server = this.serverTimeoutMs();
+        const call = this.calls.getStore()?.timeoutMs;
+        if (call === undefined) return server;
+        return server > 0 ? Math.min(call, server) : call;
+    }
+
+    /**
+     * Whether the server runs in read-only mode, where all SQL runs in read-only transactions.
+     */
+    public isReadOnly(): boolean {
+        return !!this.options.readOnly;
+    }
+
+    /**
+     * Closes the pool of the direct connection. Call it once no SQL is running and no cursor is open.
+     */
+    public async close(): Promise<void> {
+        const pool = this.pgPool;
+        this.pgPool = null;
+        await pool?.end();
+    }
+
+    /**
+     * Checks if the direct database connection (pg) is configured.
+     */
+    public isPgAvailable(): boolean {
+        return !!this.options.databaseUrl;
+    }
+
 } 
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { readFileSync } from 'node:fs';
+import type { PoolConfig } from 'pg';
+import type { ConnectionOptions } from 'node:tls';
+import type { PgConnectionOptions } from '../types/index.js';
+
+/**
+ * The libpq sslmodes pg can honor; it has no fallback to plain connections for prefer and allow.
+ */
+export const PG_SSL_MODES = ['disable', 'require', 'verify-ca', 'verify-full'] as const;
+export type PgSslMode = typeof PG_SSL_MODES[number];
+
+export const DEFAULT_PG_APPLICATION_NAME = 'self-hosted-supabase-mcp';
+
+function readPem(path: string, what: string): string {
+    try {
+        return readFileSync(path, 'utf8');
+    } catch (error) {
+        throw new Error(`Failed to read the ${what} from ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+function isSslMode(mode: string): mode is PgSslMode {
+    return (PG_SSL_MODES as readonly string[]).includes(mode);
+}
+
+// TLS settings for an sslmode, as libpq interprets it: require encrypts without checking the
+// certificate, verify-ca checks it against the CA, verify-full also checks the host name
+function sslConfig(options: PgConnectionOptions): false | ConnectionOptions | undefined {
+    const hasFiles = options.sslRootCert || options.sslCert || options.sslKey;
+    if (!options.sslMode && !hasFiles) return undefined;
+
+    const mode = options.sslMode ?? (options.sslRootCert ? 'verify-full' : 'require');
+    if (!isSslMode(mode)) {
+        throw new Error(`Unsupported SSL mode "${mode}". Use one of: ${PG_SSL_MODES.join(', ')}.`);
+    }
+    if (mode === 'disable') {
+        if (hasFiles) throw new Error('SSL certificates were given, but the SSL mode is disable.');
+        return false;
+    }
+    if (mode === 'verify-ca' && !options.sslRootCert) {
+        throw new Error('SSL mode verify-ca requires a CA certificate.');
+    }
+    if (!options.sslCert !== !options.sslKey) {
+        throw new Error('A client certificate needs both the certificate and its key.');
+    }
+
+    const ssl: ConnectionOptions = { rejectUnauthorized: mode !== 'require' };
+    if (options.sslRootCert) ssl.ca = readPem(options.sslRootCert, 'CA certificate');
+    if (options.sslCert) ssl.cert = readPem(options.sslCert, 'client certificate');
+    if (options.sslKey) ssl.key = readPem(options.sslKey, 'client certificate key');
+    if (mode === 'verify-ca') ssl.checkServerIdentity = () => undefined;
+    return ssl;
+}
+
+/**
+ * Builds the pg Pool configuration for a database URL and the pool and TLS options.
+ * pg lets SSL parameters in the URL (sslmode, sslrootcert, ...) override the ssl setting,
+ * so combining them with the TLS options is refused rather than silently ignoring the options.
+ * Throws on invalid options and unreadable certificate files.
+ */
+export function buildPgPoolConfig(databaseUrl: string, options: PgConnectionOptions = {}): PoolConfig {
+    const ssl = sslConfig(options);
+    if (ssl !== undefined) {
+        // Socket paths aren't URLs, and have no query string to conflict with
+        const urlParams = URL.canParse(databaseUrl) ? new URL(databaseUrl).searchParams : new URLSearchParams();
+        const conflicting = ['ssl', 'sslmode', 'sslrootcert', 'sslcert', 'sslkey'].filter((param) => urlParams.has(param));
+        if (conflicting.length > 0) {
+            throw new Error(`The database URL already sets ${conflicting.join(', ')}. Configure TLS either in the URL or with the SSL options, not both.`);
+        }
+    }
+
+    return {
+        connectionString: databaseUrl,
+        application_name: options.applicationName ?? DEFAULT_PG_APPLICATION_NAME,
+        max: options.poolMax,
+        idleTimeoutMillis: options.idleTimeoutMs,
+        connectionTimeoutMillis: options.connectionTimeoutMs,
+        ssl,
+    };
+}
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Client } from 'pg';
+import type { PoolClient } from 'pg';
+import {
+    DROP_LEGACY_RPC_HELPER_SQL,
+    installedRpcHelperVersion,
+    legacyRpcHelperFunctions,
+    rpcHelperMigrationSql,
+    RPC_HELPER_SCHEMA,
+    RPC_HELPER_VERSION,
+} from './rpc-helper.js';
+import { startTestDatabase } from '../testing/database.js';
+import type { TestDatabase } from '../testing/database.js';
+
+let database: TestDatabase;
+let client: Client;
+
+beforeAll(async () => {
+    database = await startTestDatabase();
+    client = new Client({ connectionString: database.url });
+    await client.connect();
+    await client.query('CREATE ROLE anon; CREATE ROLE authenticated; CREATE ROLE service_role');
+});
+afterAll(async () => {
+    await client.end();
+    await database.stop();
+});
+
+// installedRpcHelperVersion only needs query()
+const installedVersion = () => installedRpcHelperVersion(client as unknown as PoolClient);
+
+describe('rpcHelperMigrationSql', () => {
+    it('installs the current version for service_role alone', async () => {
+        expect(await installedVersion()).toBe(0);
+        await client.query(rpcHelperMigrationSql(0));
+        expect(await installedVersion()).toBe(RPC_HELPER_VERSION);
+
+        const privileges = await client.query(`
+            SELECT role, has_schema_privilege(role, '${RPC_HELPER_SCHEMA}', 'USAGE') AS usage,
+                   bool_or(has_function_privilege(role, p.oid, 'EXECUTE')) AS execute
+            FROM unnest(ARRAY['anon', 'authenticated', 'service_role']) AS role,
+                 pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+            WHERE n.nspname = '${RPC_HELPER_SCHEMA}'
+            GROUP BY role ORDER BY role`);
+        expect(privileges.rows).toEqual([
+            { role: 'anon', usage: false, execute: false },
+            { role: 'authenticated', usage: false, execute: false },
+            { role: 'service_role', usage: true, execute: true },
+        ]);
+    });
+
+    it('runs queries, with exact bigint and numeric values', async () => {
+        const result = await client.query(`SELECT ${RPC_HELPER_SCHEMA}.execute_sql($1, true) AS result`, ['SELECT 9007199254740993::bigint AS big, 1.50::numeric AS price']);
+        expect(result.rows[0].result).toEqual({
+            rows: [{ big: '9007199254740993', price: '1.50' }],
+            columns: [{ name: 'big', type: 'bigint' }, { name: 'price', type: 'numeric' }],
+            row_count: 1,
+        });
+    });
+
+    it('describes a data-modifying query without running it', async () => {
+        await client.query('CREATE TABLE inserted (id bigint)');
+        const result = await client.query(`SELECT ${RPC_HELPER_SCHEMA}.execute_sql($1, false) AS result`, ['INSERT INTO inserted VALUES (1) RETURNING id']);
+
+        expect(result.rows[0].result).toEqual({ rows: [{ id: '1' }], columns: [{ name: 'id', type: 'bigint' }], row_count: 1 });
+        expect((await client.query('SELECT count(*)::int AS count FROM inserted')).rows).toEqual([{ count: 1 }]);
+    });
+
+    // A sequence keeps its value when the call fails and rolls back, so it shows what ran
+    it('runs nothing of a read-only query before switching to read-only', async () => {
+        await client.query('CREATE SEQUENCE smuggled');
+        const query = "SELECT 1 AS one; SELECT nextval('smuggled')";
+
+        const sequenceUsed = async () => (await client.query('SELECT is_called FROM smuggled')).rows[0].is_called;
+
+        await expect(client.query(`SELECT ${RPC_HELPER_SCHEMA}.execute_sql($1, true)`, [query])).rejects.toThrow(/syntax error/);
+        expect(await sequenceUsed()).toBe(false);
+        const result = await client.query(`SELECT ${RPC_HELPER_SCHEMA}.result_types($1) AS types`, [query]);
+        expect(result.rows[0].types).toBeNull();
+        expect(await sequenceUsed()).toBe(false);
+    });
+
+    it('keeps the exact text of numbers in results it cannot describe', async () => {
+        const result = await client.query(`SELECT ${RPC_HELPER_SCHEMA}.exact_numbers($1::json, NULL) AS rows`,
+            ['[{"id": 1, "price": 1.50, "big": 9007199254740993, "tiny": 1e-7, "nested": [1.50]}]']);
+        expect(result.rows[0].rows).toEqual([{ id: 1, price: '1.50', big: '9007199254740993', tiny: '1e-7', nested: [1.5] }]);
+    });
+
+    it('can run again on the installed version', async () => {
+        await client.query(rpcHelperMigrationSql(RPC_HELPER_VERSION));
+        expect(await installedVersion()).toBe(RPC_HELPER_VERSION);
+    });
+});
+
+describe('legacy RPC helper functions', () => {
+    it('are found and dropped', async () => {
+        await client.query(`
+            CREATE FUNCTION public.execute_sql_script(statements jsonb, atomic boolean DEFAULT true, read_only boolean DEFAULT false)
+            RETURNS jsonb LANGUAGE sql AS 'SELECT NULL::jsonb';
+            CREATE FUNCTION public.execute_sql(query text, read_only boolean) RETURNS json LANGUAGE sql AS 'SELECT NULL::json';
+        `);
+        expect(await legacyRpcHelperFunctions(client)).toEqual([
+            'public.execute_sql(text, boolean)',
+            'public.execute_sql_script(jsonb, boolean, boolean)',
+        ]);
+
+        await client.query(DROP_LEGACY_RPC_HELPER_SQL);
+        expect(await legacyRpcHelperFunctions(client)).toEqual([]);
+    });
+
+    it('are dropped by the migration', () => {
+        expect(rpcHelperMigrationSql(0)).toContain(DROP_LEGACY_RPC_HELPER_SQL);
+    });
+});
@@ -0,0 +1,610 @@
+import type { PoolClient } from 'pg';
+
+/**
+ * The SQL functions the RPC path calls through PostgREST, when there is no direct database connection.
+ * They live in their own schema, executable by service_role only, and carry a version so that the
+ * server can tell an outdated install from a current one and migrate it.
+ */
+export const RPC_HELPER_SCHEMA = 'supabase_mcp';
+
+// The functions run with the search_path PostgREST would give a public function, so unqualified
+// names don't resolve to (or get created in) the helper schema
+const FUNCTION_SEARCH_PATH = 'public, extensions';
+
+// The unversioned helper functions of earlier releases. They were created in public, where
+// PostgREST lets anon and authenticated call them, so whoever holds a Supabase key could run any SQL.
+const LEGACY_FUNCTIONS = [
+    'public.execute_sql(text, boolean)',
+    'public.execute_sql(text, boolean, text[])',
+    'public.execute_sql_script(jsonb, boolean, boolean)',
+];
+
+/**
+ * Drops the unversioned helper functions of earlier releases.
+ */
+export const DROP_LEGACY_RPC_HELPER_SQL = LEGACY_FUNCTIONS.map((fn) => `DROP FUNCTION IF EXISTS ${fn};`).join('\n');
+
+const V1 = `
+    ${DROP_LEGACY_RPC_HELPER_SQL}
+
+    CREATE SCHEMA IF NOT EXISTS ${RPC_HELPER_SCHEMA};
+
+    -- Runs one query and returns its rows in column order, their column types, and the row count.
+    -- Queries returning rows (as the caller classifies them) are wrapped in a CTE, anything else is
+    -- run as is: DDL, DML without RETURNING, or several statements.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.execute_sql(query text, read_only boolean DEFAULT false, params text[] DEFAULT NULL, returns_rows boolean DEFAULT true)
+    RETURNS json
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      result_rows json;
+      result_count bigint;
+      result_types regtype[];
+      statement_name text;
+    BEGIN
+      -- Switching the surrounding transaction to read-only is always allowed (switching back is not)
+      IF read_only THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      -- With params, the query is a format() template: %1$L, %2$L, ... become quoted literals
+      IF params IS NOT NULL THEN
+        query := format(query, VARIADIC params);
+      END IF;
+
+      IF NOT returns_rows THEN
+        EXECUTE query;
+        GET DIAGNOSTICS result_count = ROW_COUNT;
+        RETURN json_build_object('rows', '[]'::json, 'columns', '[]'::json, 'row_count', result_count);
+      END IF;
+
+      EXECUTE 'WITH t AS (' || query || E'\\n) SELECT COALESCE(json_agg(t), ''[]''::json), count(*) FROM t'
+        INTO result_rows, result_count;
+
+      -- A prepared statement describes its result types without running it (Postgres 16 and later)
+      IF current_setting('server_version_num')::int >= 160000 THEN
+        statement_name := 'mcp_describe_' || md5(random()::text);
+        EXECUTE format('PREPARE %I AS %s', statement_name, query);
+        EXECUTE 'SELECT result_types FROM pg_prepared_statements WHERE name = $1' INTO result_types USING statement_name;
+        EXECUTE format('DEALLOCATE %I', statement_name);
+      END IF;
+
+      -- Column names come from the first row, so a result without rows has no columns
+      RETURN json_build_object(
+        'rows', result_rows,
+        'columns', (
+          SELECT COALESCE(json_agg(json_build_object('name', key, 'type', format_type(result_types[position]::oid, NULL)) ORDER BY position), '[]'::json)
+          FROM json_object_keys(result_rows->0) WITH ORDINALITY AS k(key, position)
+        ),
+        'row_count', result_count
+      );
+    END;
+    $$;
+
+    -- Runs a script's statements one by one, each in a subtransaction so its error can be reported.
+    -- Statements returning rows arrive wrapped by the caller's classification (returns_rows).
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.execute_sql_script(statements jsonb, atomic boolean DEFAULT true, read_only boolean DEFAULT false)
+    RETURNS jsonb
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      results jsonb := '[]'::jsonb;
+      statement jsonb;
+      statement_rows jsonb;
+      statement_row_count bigint;
+      failed boolean := false;
+    BEGIN
+      IF read_only THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      BEGIN
+        FOR statement IN SELECT value FROM jsonb_array_elements(statements) LOOP
+          IF failed AND atomic THEN
+            results := results || jsonb_build_object('status', 'skipped');
+            CONTINUE;
+          END IF;
+          BEGIN
+            IF (statement->>'returns_rows')::boolean THEN
+              EXECUTE 'WITH t AS (' || (statement->>'sql') || E'\\n) SELECT COALESCE(jsonb_agg(t), ''[]''::jsonb), count(*) FROM t'
+                INTO statement_rows, statement_row_count;
+            ELSE
+              statement_rows := NULL;
+              EXECUTE statement->>'sql';
+              GET DIAGNOSTICS statement_row_count = ROW_COUNT;
+            END IF;
+            results := results || jsonb_build_object('status', 'ok', 'row_count', statement_row_count, 'rows', statement_rows);
+          EXCEPTION
+            WHEN others THEN
+              results := results || jsonb_build_object('status', 'error', 'code', SQLSTATE, 'message', SQLERRM);
+              failed := true;
+          END;
+        END LOOP;
+
+        -- Undo the statements that succeeded; local variables keep their values
+        IF failed AND atomic THEN
+          RAISE EXCEPTION 'script rolled back' USING ERRCODE = 'MCP01';
+        END IF;
+      EXCEPTION
+        WHEN SQLSTATE 'MCP01' THEN
+          NULL;
+      END;
+
+      RETURN jsonb_build_object('rolled_back', failed AND atomic, 'statements', results);
+    END;
+    $$;
+`;
+
+const V2 = `
+    -- Result column types without running the query: from a prepared statement on Postgres 16 and later,
+    -- from a temporary view before that (undone right away, and impossible in a read-only transaction).
+    -- Null when the query can't be described.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.result_types(query text)
+    RETURNS regtype[]
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      statement_name text := 'mcp_describe_' || md5(random()::text);
+      types regtype[];
+    BEGIN
+      IF current_setting('server_version_num')::int >= 160000 THEN
+        BEGIN
+          EXECUTE format('PREPARE %I AS %s', statement_name, query);
+          EXECUTE 'SELECT result_types FROM pg_prepared_statements WHERE name = $1' INTO types USING statement_name;
+          EXECUTE format('DEALLOCATE %I', statement_name);
+        EXCEPTION
+          WHEN others THEN
+            NULL;
+        END;
+        RETURN types;
+      END IF;
+
+      BEGIN
+        EXECUTE format('CREATE TEMPORARY VIEW %I AS %s', statement_name, query);
+        SELECT array_agg(atttypid::regtype ORDER BY attnum) INTO types
+        FROM pg_attribute
+        WHERE attrelid = format('pg_temp.%I', statement_name)::regclass AND attnum > 0;
+        RAISE EXCEPTION 'undo the view' USING ERRCODE = 'MCP02';
+      EXCEPTION
+        WHEN others THEN
+          NULL;
+      END;
+      RETURN types;
+    END;
+    $$;
+
+    -- Turns bigint and numeric values (also inside one-dimensional arrays) into JSON strings, so no digits
+    -- are lost to the client's JSON parser. Rows are objects in column order; types go by position.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.exact_numbers(result_rows json, types regtype[])
+    RETURNS json
+    LANGUAGE sql
+    IMMUTABLE
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+      SELECT COALESCE(json_agg((
+        SELECT COALESCE(json_object_agg(c.key, CASE
+          WHEN types[c.position] IN ('bigint', 'numeric') AND json_typeof(c.value) = 'number'
+            THEN to_json(c.value #>> '{}')
+          WHEN types[c.position] IN ('bigint[]', 'numeric[]') AND json_typeof(c.value) = 'array'
+            THEN (
+              SELECT json_agg(CASE WHEN json_typeof(e.value) = 'number' THEN to_json(e.value #>> '{}') ELSE e.value END ORDER BY e.position)
+              FROM json_array_elements(c.value) WITH ORDINALITY AS e(value, position)
+            )
+          ELSE c.value
+        END ORDER BY c.position), '{}'::json)
+        FROM json_each(r.value) WITH ORDINALITY AS c(key, value, position)
+      ) ORDER BY r.position), '[]'::json)
+      FROM json_array_elements(result_rows) WITH ORDINALITY AS r(value, position)
+    $$;
+
+    -- As in version 1, but the result is described before it runs (so a read-only query can still be
+    -- described with a temporary view), and bigint and numeric values come back as strings. Rows are
+    -- aggregated as t.*, which a result column named t can't shadow.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.execute_sql(query text, read_only boolean DEFAULT false, params text[] DEFAULT NULL, returns_rows boolean DEFAULT true)
+    RETURNS json
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      result_rows json;
+      result_count bigint;
+      result_types regtype[];
+    BEGIN
+      -- With params, the query is a format() template: %1$L, %2$L, ... become quoted literals
+      IF params IS NOT NULL THEN
+        query := format(query, VARIADIC params);
+      END IF;
+
+      IF returns_rows THEN
+        result_types := ${RPC_HELPER_SCHEMA}.result_types(query);
+      END IF;
+
+      -- Switching the surrounding transaction to read-only is always allowed (switching back is not)
+      IF read_only THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      IF NOT returns_rows THEN
+        EXECUTE query;
+        GET DIAGNOSTICS result_count = ROW_COUNT;
+        RETURN json_build_object('rows', '[]'::json, 'columns', '[]'::json, 'row_count', result_count);
+      END IF;
+
+      EXECUTE 'WITH t AS (' || query || E'\\n) SELECT COALESCE(json_agg(t.*), ''[]''::json), count(*) FROM t'
+        INTO result_rows, result_count;
+      IF result_types IS NOT NULL THEN
+        result_rows := ${RPC_HELPER_SCHEMA}.exact_numbers(result_rows, result_types);
+      END IF;
+
+      -- Column names come from the first row, so a result without rows has no columns
+      RETURN json_build_object(
+        'rows', result_rows,
+        'columns', (
+          SELECT COALESCE(json_agg(json_build_object('name', key, 'type', format_type(result_types[position]::oid, NULL)) ORDER BY position), '[]'::json)
+          FROM json_object_keys(result_rows->0) WITH ORDINALITY AS k(key, position)
+        ),
+        'row_count', result_count
+      );
+    END;
+    $$;
+
+    -- As in version 1, but statements returning rows also report their columns (as execute_sql does,
+    -- types being null when they can't be described), and bigint and numeric values come back as strings.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.execute_sql_script(statements jsonb, atomic boolean DEFAULT true, read_only boolean DEFAULT false)
+    RETURNS jsonb
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      results jsonb := '[]'::jsonb;
+      statement jsonb;
+      statement_rows json;
+      statement_row_count bigint;
+      statement_types regtype[];
+      statement_columns json;
+      failed boolean := false;
+    BEGIN
+      IF read_only THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      BEGIN
+        FOR statement IN SELECT value FROM jsonb_array_elements(statements) LOOP
+          IF failed AND atomic THEN
+            results := results || jsonb_build_object('status', 'skipped');
+            CONTINUE;
+          END IF;
+          BEGIN
+            statement_rows := NULL;
+            statement_columns := NULL;
+            IF (statement->>'returns_rows')::boolean THEN
+              statement_types := ${RPC_HELPER_SCHEMA}.result_types(statement->>'sql');
+              EXECUTE 'WITH t AS (' || (statement->>'sql') || E'\\n) SELECT COALESCE(json_agg(t.*), ''[]''::json), count(*) FROM t'
+                INTO statement_rows, statement_row_count;
+              IF statement_types IS NOT NULL THEN
+                statement_rows := ${RPC_HELPER_SCHEMA}.exact_numbers(statement_rows, statement_types);
+              END IF;
+              SELECT COALESCE(json_agg(json_build_object('name', key, 'type', format_type(statement_types[position]::oid, NULL)) ORDER BY position), '[]'::json)
+                INTO statement_columns
+                FROM json_object_keys(statement_rows->0) WITH ORDINALITY AS k(key, position);
+            ELSE
+              EXECUTE statement->>'sql';
+              GET DIAGNOSTICS statement_row_count = ROW_COUNT;
+            END IF;
+            results := results || jsonb_build_object('status', 'ok', 'row_count', statement_row_count, 'rows', statement_rows, 'columns', statement_columns);
+          EXCEPTION
+            WHEN others THEN
+              results := results || jsonb_build_object('status', 'error', 'code', SQLSTATE, 'message', SQLERRM);
+              failed := true;
+          END;
+        END LOOP;
+
+        -- Undo the statements that succeeded; local variables keep their values
+        IF failed AND atomic THEN
+          RAISE EXCEPTION 'script rolled back' USING ERRCODE = 'MCP01';
+        END IF;
+      EXCEPTION
+        WHEN SQLSTATE 'MCP01' THEN
+          NULL;
+      END;
+
+      RETURN jsonb_build_object('rolled_back', failed AND atomic, 'statements', results);
+    END;
+    $$;
+`;
+
+const V3 = `
+    -- As in version 2, and without types (a result that can't be described) top-level numbers that a
+    -- JSON parser would round (with a fraction, an exponent or more than 15 digits) become strings too.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.exact_numbers(result_rows json, types regtype[])
+    RETURNS json
+    LANGUAGE sql
+    IMMUTABLE
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+      SELECT COALESCE(json_agg((
+        SELECT COALESCE(json_object_agg(c.key, CASE
+          WHEN types IS NULL AND json_typeof(c.value) = 'number' AND (c.value #>> '{}') ~ '[.eE]|[0-9]{16}'
+            THEN to_json(c.value #>> '{}')
+          WHEN types[c.position] IN ('bigint', 'numeric') AND json_typeof(c.value) = 'number'
+            THEN to_json(c.value #>> '{}')
+          WHEN types[c.position] IN ('bigint[]', 'numeric[]') AND json_typeof(c.value) = 'array'
+            THEN (
+              SELECT json_agg(CASE WHEN json_typeof(e.value) = 'number' THEN to_json(e.value #>> '{}') ELSE e.value END ORDER BY e.position)
+              FROM json_array_elements(c.value) WITH ORDINALITY AS e(value, position)
+            )
+          ELSE c.value
+        END ORDER BY c.position), '{}'::json)
+        FROM json_each(r.value) WITH ORDINALITY AS c(key, value, position)
+      ) ORDER BY r.position), '[]'::json)
+      FROM json_array_elements(result_rows) WITH ORDINALITY AS r(value, position)
+    $$;
+
+    -- As in version 2, but numbers keep their exact text even when the result can't be described.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.execute_sql(query text, read_only boolean DEFAULT false, params text[] DEFAULT NULL, returns_rows boolean DEFAULT true)
+    RETURNS json
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      result_rows json;
+      result_count bigint;
+      result_types regtype[];
+    BEGIN
+      -- With params, the query is a format() template: %1$L, %2$L, ... become quoted literals
+      IF params IS NOT NULL THEN
+        query := format(query, VARIADIC params);
+      END IF;
+
+      IF returns_rows THEN
+        result_types := ${RPC_HELPER_SCHEMA}.result_types(query);
+      END IF;
+
+      -- Switching the surrounding transaction to read-only is always allowed (switching back is not)
+      IF read_only THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      IF NOT returns_rows THEN
+        EXECUTE query;
+        GET DIAGNOSTICS result_count = ROW_COUNT;
+        RETURN json_build_object('rows', '[]'::json, 'columns', '[]'::json, 'row_count', result_count);
+      END IF;
+
+      EXECUTE 'WITH t AS (' || query || E'\\n) SELECT COALESCE(json_agg(t.*), ''[]''::json), count(*) FROM t'
+        INTO result_rows, result_count;
+      result_rows := ${RPC_HELPER_SCHEMA}.exact_numbers(result_rows, result_types);
+
+      -- Column names come from the first row, so a result without rows has no columns
+      RETURN json_build_object(
+        'rows', result_rows,
+        'columns', (
+          SELECT COALESCE(json_agg(json_build_object('name', key, 'type', format_type(result_types[position]::oid, NULL)) ORDER BY position), '[]'::json)
+          FROM json_object_keys(result_rows->0) WITH ORDINALITY AS k(key, position)
+        ),
+        'row_count', result_count
+      );
+    END;
+    $$;
+
+    -- As in version 2, but numbers keep their exact text even when the statement can't be described.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.execute_sql_script(statements jsonb, atomic boolean DEFAULT true, read_only boolean DEFAULT false)
+    RETURNS jsonb
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      results jsonb := '[]'::jsonb;
+      statement jsonb;
+      statement_rows json;
+      statement_row_count bigint;
+      statement_types regtype[];
+      statement_columns json;
+      failed boolean := false;
+    BEGIN
+      IF read_only THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      BEGIN
+        FOR statement IN SELECT value FROM jsonb_array_elements(statements) LOOP
+          IF failed AND atomic THEN
+            results := results || jsonb_build_object('status', 'skipped');
+            CONTINUE;
+          END IF;
+          BEGIN
+            statement_rows := NULL;
+            statement_columns := NULL;
+            IF (statement->>'returns_rows')::boolean THEN
+              statement_types := ${RPC_HELPER_SCHEMA}.result_types(statement->>'sql');
+              EXECUTE 'WITH t AS (' || (statement->>'sql') || E'\\n) SELECT COALESCE(json_agg(t.*), ''[]''::json), count(*) FROM t'
+                INTO statement_rows, statement_row_count;
+              statement_rows := ${RPC_HELPER_SCHEMA}.exact_numbers(statement_rows, statement_types);
+              SELECT COALESCE(json_agg(json_build_object('name', key, 'type', format_type(statement_types[position]::oid, NULL)) ORDER BY position), '[]'::json)
+                INTO statement_columns
+                FROM json_object_keys(statement_rows->0) WITH ORDINALITY AS k(key, position);
+            ELSE
+              EXECUTE statement->>'sql';
+              GET DIAGNOSTICS statement_row_count = ROW_COUNT;
+            END IF;
+            results := results || jsonb_build_object('status', 'ok', 'row_count', statement_row_count, 'rows', statement_rows, 'columns', statement_columns);
+          EXCEPTION
+            WHEN others THEN
+              results := results || jsonb_build_object('status', 'error', 'code', SQLSTATE, 'message', SQLERRM);
+              failed := true;
+          END;
+        END LOOP;
+
+        -- Undo the statements that succeeded; local variables keep their values
+        IF failed AND atomic THEN
+          RAISE EXCEPTION 'script rolled back' USING ERRCODE = 'MCP01';
+        END IF;
+      EXCEPTION
+        WHEN SQLSTATE 'MCP01' THEN
+          NULL;
+      END;
+
+      RETURN jsonb_build_object('rolled_back', failed AND atomic, 'statements', results);
+    END;
+    $$;
+`;
+
+const V4 = `
+    -- As in version 2, but only a single statement is described. Opening a cursor parses and plans the
+    -- query without running it, and refuses several statements; otherwise PREPARE or CREATE VIEW would
+    -- run whatever follows a semicolon, before execute_sql switches to read-only.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.result_types(query text)
+    RETURNS regtype[]
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      statement_name text := 'mcp_describe_' || md5(random()::text);
+      types regtype[];
+      single_statement refcursor;
+    BEGIN
+      BEGIN
+        OPEN single_statement FOR EXECUTE query;
+        CLOSE single_statement;
+      EXCEPTION
+        WHEN others THEN
+          RETURN NULL;
+      END;
+
+      IF current_setting('server_version_num')::int >= 160000 THEN
+        BEGIN
+          EXECUTE format('PREPARE %I AS %s', statement_name, query);
+          EXECUTE 'SELECT result_types FROM pg_prepared_statements WHERE name = $1' INTO types USING statement_name;
+          EXECUTE format('DEALLOCATE %I', statement_name);
+        EXCEPTION
+          WHEN others THEN
+            NULL;
+        END;
+        RETURN types;
+      END IF;
+
+      BEGIN
+        EXECUTE format('CREATE TEMPORARY VIEW %I AS %s', statement_name, query);
+        SELECT array_agg(atttypid::regtype ORDER BY attnum) INTO types
+        FROM pg_attribute
+        WHERE attrelid = format('pg_temp.%I', statement_name)::regclass AND attnum > 0;
+        RAISE EXCEPTION 'undo the view' USING ERRCODE = 'MCP02';
+      EXCEPTION
+        WHEN others THEN
+          NULL;
+      END;
+      RETURN types;
+    END;
+    $$;
+
+    -- As in version 3, but on Postgres 16 and later, where a prepared statement describes the query in a
+    -- read-only transaction, read-only is switched on before describing. The temporary view of earlier
+    -- versions can't be created in one, so there the (single) statement is described first.
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.execute_sql(query text, read_only boolean DEFAULT false, params text[] DEFAULT NULL, returns_rows boolean DEFAULT true)
+    RETURNS json
+    LANGUAGE plpgsql
+    SET search_path = ${FUNCTION_SEARCH_PATH}
+    AS $$
+    DECLARE
+      result_rows json;
+      result_count bigint;
+      result_types regtype[];
+    BEGIN
+      -- With params, the query is a format() template: %1$L, %2$L, ... become quoted literals
+      IF params IS NOT NULL THEN
+        query := format(query, VARIADIC params);
+      END IF;
+
+      -- Switching the surrounding transaction to read-only is always allowed (switching back is not)
+      IF read_only AND current_setting('server_version_num')::int >= 160000 THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      IF returns_rows THEN
+        result_types := ${RPC_HELPER_SCHEMA}.result_types(query);
+      END IF;
+
+      IF read_only THEN
+        SET LOCAL transaction_read_only = on;
+      END IF;
+
+      IF NOT returns_rows THEN
+        EXECUTE query;
+        GET DIAGNOSTICS result_count = ROW_COUNT;
+        RETURN json_build_object('rows', '[]'::json, 'columns', '[]'::json, 'row_count', result_count);
+      END IF;
+
+      EXECUTE 'WITH t AS (' || query || E'\\n) SELECT COALESCE(json_agg(t.*), ''[]''::json), count(*) FROM t'
+        INTO result_rows, result_count;
+      result_rows := ${RPC_HELPER_SCHEMA}.exact_numbers(result_rows, result_types);
+
+      -- Column names come from the first row, so a result without rows has no columns
+      RETURN json_build_object(
+        'rows', result_rows,
+        'columns', (
+          SELECT COALESCE(json_agg(json_build_object('name', key, 'type', format_type(result_types[position]::oid, NULL)) ORDER BY position), '[]'::json)
+          FROM json_object_keys(result_rows->0) WITH ORDINALITY AS k(key, position)
+        ),
+        'row_count', result_count
+      );
+    END;
+    $$;
+`;
+
+// Migration i takes the helper from version i to i + 1. Version 0 is no helper at all, or the
+// unversioned public.execute_sql and public.execute_sql_script of earlier releases.
+const MIGRATIONS = [V1, V2, V3, V4];
+
+/**
+ * The helper version this server creates and expects.
+ */
+export const RPC_HELPER_VERSION = MIGRATIONS.length;
+
+/**
+ * SQL that migrates the helper from an installed version (0 for none) to RPC_HELPER_VERSION.
+ * Whatever the starting point, it ends with the version marker and the grants: PUBLIC (which
+ * includes anon and authenticated) gets nothing, service_role can execute every function.
+ */
+export function rpcHelperMigrationSql(installedVersion: number): string {
+    return [
+        ...MIGRATIONS.slice(installedVersion),
+        `
+    CREATE OR REPLACE FUNCTION ${RPC_HELPER_SCHEMA}.helper_version() RETURNS integer LANGUAGE sql IMMUTABLE AS 'SELECT ${RPC_HELPER_VERSION}';
+
+    REVOKE ALL ON SCHEMA ${RPC_HELPER_SCHEMA} FROM PUBLIC;
+    GRANT USAGE ON SCHEMA ${RPC_HELPER_SCHEMA} TO service_role;
+    REVOKE ALL ON ALL FUNCTIONS IN SCHEMA ${RPC_HELPER_SCHEMA} FROM PUBLIC, anon, authenticated;
+    GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA ${RPC_HELPER_SCHEMA} TO service_role;
+`,
+    ].join('\n');
+}
+
+/**
+ * Drops the helper schema and the unversioned helper functions of earlier releases.
+ */
+export const UNINSTALL_RPC_HELPER_SQL = `
+    DROP SCHEMA IF EXISTS ${RPC_HELPER_SCHEMA} CASCADE;
+    ${DROP_LEGACY_RPC_HELPER_SQL}
+`;
+
+/**
+ * The unversioned helper functions of earlier releases still in the database. An older server
+ * can create them again after the helper was migrated, so they are looked for on every start.
+ */
+export async function legacyRpcHelperFunctions(db: Pick<PoolClient, 'query'>): Promise<string[]> {
+    const result = await db.query('SELECT fn FROM unnest($1::text[]) AS fn WHERE to_regprocedure(fn) IS NOT NULL', [LEGACY_FUNCTIONS]);
+    return result.rows.map((row: { fn: string }) => row.fn);
+}
+
+/**
+ * The helper version installed in the database, 0 if there is none.
+ */
+export async function installedRpcHelperVersion(client: PoolClient): Promise<number> {
+    const exists = await client.query(`SELECT to_regprocedure('${RPC_HELPER_SCHEMA}.helper_version()') IS NOT NULL AS installed`);
+    if (!exists.rows[0].installed) return 0;
+    const result = await client.query(`SELECT ${RPC_HELPER_SCHEMA}.helper_version() AS version`);
+    return result.rows[0].version as number;
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isConnectionError, SqlPathHealth } from './sql-paths.js';
+
+describe('isConnectionError', () => {
+    it.each([
+        { code: 'ECONNREFUSED', message: 'connect ECONNREFUSED 127.0.0.1:5432' },
+        { code: '08006', message: 'connection failure' },
+        { code: '57P01', message: 'terminating connection due to administrator command' },
+        { code: 'PGRST001', message: 'Database client error' },
+        { code: 'PG_ERROR', message: 'Connection terminated unexpectedly' },
+        { code: 'PG_ERROR', message: 'timeout exceeded when trying to connect' },
+        { code: 'RPC_ERROR', message: 'TypeError: fetch failed' },
+        { message: '502 Bad Gateway' },
+        { message: 'An invalid response was received from the upstream server' },
+    ])('is true for $code $message', (error) => {
+        expect(isConnectionError(error)).toBe(true);
+    });
+
+    it.each([
+        { code: '42P01', message: 'relation "missing" does not exist' },
+        { code: '57014', message: 'canceling statement due to statement timeout' },
+        { code: '25006', message: 'cannot execute INSERT in a read-only transaction' },
+        { code: 'PGRST202', message: 'Could not find the function' },
+        { code: 'MCP_CONFIG_ERROR', message: 'DATABASE_URL is not configured.' },
+    ])('is false for $code $message', (error) => {
+        expect(isConnectionError(error)).toBe(false);
+    });
+});
+
+describe('SqlPathHealth', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps the given order while both paths are healthy', () => {
+        const health = new SqlPathHealth();
+        expect(health.order(['pg', 'rpc'])).toEqual(['pg', 'rpc']);
+        expect(health.status('pg')).toEqual({ healthy: true, consecutiveFailures: 0 });
+    });
+
+    it('moves a failing path last until it succeeds again', () => {
+        const health = new SqlPathHealth();
+        health.recordFailure('pg', 'connect ECONNREFUSED');
+        health.recordFailure('pg', 'connect ECONNREFUSED');
+        expect(health.order(['pg', 'rpc'])).toEqual(['rpc', 'pg']);
+        expect(health.status('pg')).toEqual({
+            healthy: false,
+            consecutiveFailures: 2,
+            lastFailureAt: '2026-01-01T00:00:00.000Z',
+            lastError: 'connect ECONNREFUSED',
+        });
+
+        health.recordSuccess('pg');
+        expect(health.order(['pg', 'rpc'])).toEqual(['pg', 'rpc']);
+        expect(health.status('pg')).toMatchObject({ healthy: true, consecutiveFailures: 0, lastSuccessAt: '2026-01-01T00:00:00.000Z' });
+    });
+
+    it('tries an unhealthy path first again 30 seconds after its last failure', () => {
+        const health = new SqlPathHealth();
+        health.recordFailure('pg', 'connect ECONNREFUSED');
+        vi.advanceTimersByTime(29_999);
+        expect(health.order(['pg', 'rpc'])).toEqual(['rpc', 'pg']);
+        vi.advanceTimersByTime(1);
+        expect(health.order(['pg', 'rpc'])).toEqual(['pg', 'rpc']);
+        expect(health.status('pg').healthy).toBe(false);
+    });
+});
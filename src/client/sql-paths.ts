@@ -0,0 +1,102 @@
+import type { SqlErrorResponse } from '../types/index.js';
+
+/**
+ * The ways SQL reaches the database: the direct connection (pg) and the RPC helper through PostgREST.
+ */
+export const SQL_PATHS = ['pg', 'rpc'] as const;
+export type SqlPath = typeof SQL_PATHS[number];
+
+/**
+ * What is known about a path's reachability, from the queries sent through it.
+ */
+export interface SqlPathHealthStatus {
+    healthy: boolean;            // False after a connection-level failure, until the path works again
+    consecutiveFailures: number;
+    lastSuccessAt?: string;      // ISO 8601
+    lastFailureAt?: string;
+    lastError?: string;          // The last connection-level error
+}
+
+// An unhealthy path is tried first again this long after its last failure, in case it came back
+const UNHEALTHY_RETRY_MS = 30_000;
+
+// Socket errors pg reports as the error code
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN', 'EPIPE']);
+// admin_shutdown, crash_shutdown, cannot_connect_now, too_many_connections
+const SERVER_UNAVAILABLE_CODES = new Set(['57P01', '57P02', '57P03', '53300']);
+// PostgREST can't reach the database: connection failure, internal connection error, no schema cache, pool timeout
+const POSTGREST_UNAVAILABLE_CODES = new Set(['PGRST000', 'PGRST001', 'PGRST002', 'PGRST003']);
+// Errors without a useful code: pg's pool timeout and dropped connections, failed fetches, gateway errors (Kong's included)
+const CONNECTION_MESSAGE_PATTERN = /connection terminated|timeout exceeded when trying to connect|fetch failed|FetchError|ECONNREFUSED|ECONNRESET|ENOTFOUND|EHOSTUNREACH|socket hang up|\b50[234] (bad gateway|service unavailable|gateway time-?out)|invalid response was received from the upstream|failure to get a peer|name resolution failed/i;
+
+/**
+ * Whether an error means the path couldn't reach the database, as opposed to the SQL failing there.
+ * Only these errors make a path unhealthy, and make a read-only query worth retrying on the other path.
+ */
+export function isConnectionError(error: SqlErrorResponse['error']): boolean {
+    const code = error.code ?? '';
+    if (code.startsWith('08')) return true; // SQLSTATE class 08: connection exception
+    if (NETWORK_ERROR_CODES.has(code) || SERVER_UNAVAILABLE_CODES.has(code) || POSTGREST_UNAVAILABLE_CODES.has(code)) return true;
+    return CONNECTION_MESSAGE_PATTERN.test(error.message ?? '');
+}
+
+interface PathState {
+    consecutiveFailures: number;
+    lastSuccessAt?: number;
+    lastFailureAt?: number;
+    lastError?: string;
+}
+
+/**
+ * Tracks the health of each SQL path. A path turns unhealthy at a connection-level failure and
+ * healthy again at its next success; while unhealthy it goes last, except that it is tried first
+ * again once UNHEALTHY_RETRY_MS have passed since its last failure.
+ */
+export class SqlPathHealth {
+    private states = new Map<SqlPath, PathState>(SQL_PATHS.map((path) => [path, { consecutiveFailures: 0 }]));
+
+    public recordSuccess(path: SqlPath): void {
+        const state = this.state(path);
+        state.consecutiveFailures = 0;
+        state.lastSuccessAt = Date.now();
+    }
+
+    public recordFailure(path: SqlPath, message: string): void {
+        const state = this.state(path);
+        if (state.consecutiveFailures === 0) {
+            console.error(`SQL path ${path} is unhealthy: ${message}`);
+        }
+        state.consecutiveFailures += 1;
+        state.lastFailureAt = Date.now();
+        state.lastError = message;
+    }
+
+    /**
+     * Orders paths healthy first, keeping the given order otherwise.
+     */
+    public order(paths: SqlPath[]): SqlPath[] {
+        const usable = paths.filter((path) => this.shouldTry(path));
+        return [...usable, ...paths.filter((path) => !usable.includes(path))];
+    }
+
+    public status(path: SqlPath): SqlPathHealthStatus {
+        const state = this.state(path);
+        const iso = (time?: number) => time === undefined ? undefined : new Date(time).toISOString();
+        return {
+            healthy: state.consecutiveFailures === 0,
+            consecutiveFailures: state.consecutiveFailures,
+            lastSuccessAt: iso(state.lastSuccessAt),
+            lastFailureAt: iso(state.lastFailureAt),
+            lastError: state.lastError,
+        };
+    }
+
+    private shouldTry(path: SqlPath): boolean {
+        const state = this.state(path);
+        return state.consecutiveFailures === 0 || Date.now() - (state.lastFailureAt ?? 0) >= UNHEALTHY_RETRY_MS;
+    }
+
+    private state(path: SqlPath): PathState {
+        return this.states.get(path) as PathState;
+    }
+}
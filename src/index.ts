@@ -1,59 +1,10 @@
 import { Command } from 'commander';
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-    CallToolRequestSchema,
-    ErrorCode,
-    ListToolsRequestSchema,
-    McpError,
-} from '@modelcontextprotocol/sdk/types.js';
+import { createAuditLog } from './audit/index.js';
 import { SelfhostedSupabaseClient } from './client/index.js';
-import { listTablesTool } from './tools/list_tables.js';
-import { listExtensionsTool } from './tools/list_extensions.js';
-import { listMigrationsTool } from './tools/list_migrations.js';
-import { applyMigrationTool } from './tools/apply_migration.js';
-import { executeSqlTool } from './tools/execute_sql.js';
-import { getDatabaseConnectionsTool } from './tools/get_database_connections.js';
-import { getDatabaseStatsTool } from './tools/get_database_stats.js';
-import { getProjectUrlTool } from './tools/get_project_url.js';
-import { getAnonKeyTool } from './tools/get_anon_key.js';
-import { getServiceKeyTool } from './tools/get_service_key.js';
-import { generateTypesTool } from './tools/generate_typescript_types.js';
-import { rebuildHooksTool } from './tools/rebuild_hooks.js';
-import { verifyJwtSecretTool } from './tools/verify_jwt_secret.js';
-import { listAuthUsersTool } from './tools/list_auth_users.js';
-import { getAuthUserTool } from './tools/get_auth_user.js';
-import { deleteAuthUserTool } from './tools/delete_auth_user.js';
-import { createAuthUserTool } from './tools/create_auth_user.js';
-import { updateAuthUserTool } from './tools/update_auth_user.js';
-import { z } from 'zod';
-import { zodToJsonSchema } from 'zod-to-json-schema';
-import type { ToolContext } from './tools/types.js';
-import listStorageBucketsTool from './tools/list_storage_buckets.js';
-import listStorageObjectsTool from './tools/list_storage_objects.js';
-import listRealtimePublicationsTool from './tools/list_realtime_publications.js';
-
-// Node.js built-in modules
-import * as fs from 'node:fs';
-import * as path from 'node:path';
-
-// Define the structure expected by MCP for tool definitions
-interface McpToolSchema {
-    name: string;
-    description?: string;
-    // inputSchema is the JSON Schema object for MCP capabilities
-    inputSchema: object; 
-}
-
-// Base structure for our tool objects - For Reference
-interface AppTool {
-    name: string;
-    description: string;
-    inputSchema: z.ZodTypeAny; // Zod schema for parsing
-    mcpInputSchema: object;    // Static JSON schema for MCP (Required)
-    outputSchema: z.ZodTypeAny; // Zod schema for output (optional)
-    execute: (input: unknown, context: ToolContext) => Promise<unknown>;
-}
+import { createMcpServer } from './server.js';
+import { createToolRegistry } from './tools/registry.js';
+import type { PgSslMode } from './client/pg-config.js';
 
 // Main function
 async function main() {
@@ -66,9 +17,27 @@ async function main() {
         .option('--anon-key <key>', 'Supabase anonymous key', process.env.SUPABASE_ANON_KEY)
         .option('--service-key <key>', 'Supabase service role key (optional)', process.env.SUPABASE_SERVICE_ROLE_KEY)
         .option('--db-url <url>', 'Direct database connection string (optional, for pg fallback)', process.env.DATABASE_URL)
+        .option('--db-pool-max <n>', 'Most open database connections (default 10)', process.env.MCP_DB_POOL_MAX)
+        .option('--db-idle-timeout <ms>', 'Close database connections idle for this long, in milliseconds (default 10000, 0 keeps them)', process.env.MCP_DB_IDLE_TIMEOUT_MS)
+        .option('--db-connect-timeout <ms>', 'Give up connecting to the database after this long, in milliseconds (default: no limit)', process.env.MCP_DB_CONNECT_TIMEOUT_MS)
+        .option('--db-application-name <name>', 'application_name of the database connections (default self-hosted-supabase-mcp)', process.env.MCP_DB_APPLICATION_NAME)
+        .option('--db-ssl-mode <mode>', 'TLS for the database connection: disable, require, verify-ca or verify-full', process.env.MCP_DB_SSL_MODE)
+        .option('--db-ssl-root-cert <path>', 'CA certificate to verify the database server with', process.env.MCP_DB_SSL_ROOT_CERT)
+        .option('--db-ssl-cert <path>', 'Client certificate for the database connection', process.env.MCP_DB_SSL_CERT)
+        .option('--db-ssl-key <path>', 'Private key of the client certificate', process.env.MCP_DB_SSL_KEY)
         .option('--jwt-secret <secret>', 'Supabase JWT secret (optional, needed for some tools)', process.env.SUPABASE_AUTH_JWT_SECRET)
         .option('--workspace-path <path>', 'Workspace root path (for file operations)', process.cwd())
-        .option('--tools-config <path>', 'Path to a JSON file specifying which tools to enable (e.g., { "enabledTools": ["tool1", "tool2"] }). If omitted, all tools are enabled.')
+        .option('--tools-config <path>', 'Path to a JSON tool policy file (per-tool allow/deny, confirmation and argument constraints; the legacy { "enabledTools": [...] } format is also accepted). If omitted, all tools are enabled.', process.env.MCP_TOOLS_CONFIG)
+        .option('--policy-profile <name>', 'Built-in tool policy profile: readonly, dba or auth-admin', process.env.MCP_POLICY_PROFILE)
+        .option('--tools-dir <path>', 'Directory of additional tool modules (.js/.mjs) to load as plugins', process.env.MCP_TOOLS_DIR)
+        .option('--audit-log <path>', 'NDJSON file recording every tool call, relative to the workspace path ("off" disables it)', process.env.MCP_AUDIT_LOG)
+        .option('--audit-db', 'Also record tool calls in the mcp_audit.tool_calls table (requires --db-url)', process.env.MCP_AUDIT_DB === 'true')
+        .option('--audit-params', 'Record the values of SQL parameters in audit records (redacted by default)', process.env.MCP_AUDIT_PARAMS === 'true')
+        .option('--sql-max-rows <n>', 'Most rows execute_sql returns per page (default 1000)', process.env.MCP_SQL_MAX_ROWS)
+        .option('--sql-max-bytes <n>', 'Most bytes of JSON rows execute_sql returns per page (default 100000)', process.env.MCP_SQL_MAX_BYTES)
+        .option('--sql-timeout <ms>', 'statement_timeout for SQL run by tools, in milliseconds (default 60000, 0 for the database default)', process.env.MCP_SQL_TIMEOUT_MS)
+        .option('--rpc-helper <mode>', 'RPC helper (schema supabase_mcp) handling: auto installs and migrates it on startup, manual only uses an installed one, uninstall drops it and exits (default auto)', process.env.MCP_RPC_HELPER)
+        .option('--read-only', 'Run all SQL in read-only transactions and disable tools that modify the database', process.env.MCP_READ_ONLY === 'true')
         .parse(process.argv);
 
     const options = program.opts();
@@ -82,7 +51,18 @@ async function main() {
         throw new Error('Supabase Anon Key is required.');
     }
 
+    const rpcHelperMode = (options.rpcHelper as string | undefined) ?? 'auto';
+    if (!['auto', 'manual', 'uninstall'].includes(rpcHelperMode)) {
+        throw new Error(`Invalid --rpc-helper mode "${rpcHelperMode}". Use auto, manual or uninstall.`);
+    }
+    if (rpcHelperMode === 'uninstall' && !options.dbUrl) {
+        throw new Error('Uninstalling the RPC helper requires --db-url.');
+    }
+
     console.error('Initializing Self-Hosted Supabase MCP Server...');
+    if (options.readOnly) {
+        console.error('Read-only mode enabled: SQL runs in read-only transactions and mutating tools are disabled.');
+    }
 
     try {
         const selfhostedClient = await SelfhostedSupabaseClient.create({
@@ -91,191 +71,59 @@ async function main() {
             supabaseServiceRoleKey: options.serviceKey,
             databaseUrl: options.dbUrl,
             jwtSecret: options.jwtSecret,
+            readOnly: options.readOnly as boolean,
+            rpcHelper: rpcHelperMode === 'auto' ? 'auto' : 'manual',
+            sqlMaxRows: options.sqlMaxRows ? parseInt(options.sqlMaxRows as string, 10) : undefined,
+            sqlMaxBytes: options.sqlMaxBytes ? parseInt(options.sqlMaxBytes as string, 10) : undefined,
+            sqlTimeoutMs: options.sqlTimeout ? parseInt(options.sqlTimeout as string, 10) : undefined,
+            pg: {
+                poolMax: options.dbPoolMax ? parseInt(options.dbPoolMax as string, 10) : undefined,
+                idleTimeoutMs: options.dbIdleTimeout ? parseInt(options.dbIdleTimeout as string, 10) : undefined,
+                connectionTimeoutMs: options.dbConnectTimeout ? parseInt(options.dbConnectTimeout as string, 10) : undefined,
+                applicationName: options.dbApplicationName as string | undefined,
+                sslMode: options.dbSslMode as PgSslMode | undefined,
+                sslRootCert: options.dbSslRootCert as string | undefined,
+                sslCert: options.dbSslCert as string | undefined,
+                sslKey: options.dbSslKey as string | undefined,
+            },
         });
 
         console.error('Supabase client initialized successfully.');
 
-        const availableTools = {
-            // Cast here assumes tools will implement AppTool structure
-            [listTablesTool.name]: listTablesTool as AppTool,
-            [listExtensionsTool.name]: listExtensionsTool as AppTool,
-            [listMigrationsTool.name]: listMigrationsTool as AppTool,
-            [applyMigrationTool.name]: applyMigrationTool as AppTool,
-            [executeSqlTool.name]: executeSqlTool as AppTool,
-            [getDatabaseConnectionsTool.name]: getDatabaseConnectionsTool as AppTool,
-            [getDatabaseStatsTool.name]: getDatabaseStatsTool as AppTool,
-            [getProjectUrlTool.name]: getProjectUrlTool as AppTool,
-            [getAnonKeyTool.name]: getAnonKeyTool as AppTool,
-            [getServiceKeyTool.name]: getServiceKeyTool as AppTool,
-            [generateTypesTool.name]: generateTypesTool as AppTool,
-            [rebuildHooksTool.name]: rebuildHooksTool as AppTool,
-            [verifyJwtSecretTool.name]: verifyJwtSecretTool as AppTool,
-            [listAuthUsersTool.name]: listAuthUsersTool as AppTool,
-            [getAuthUserTool.name]: getAuthUserTool as AppTool,
-            [deleteAuthUserTool.name]: deleteAuthUserTool as AppTool,
-            [createAuthUserTool.name]: createAuthUserTool as AppTool,
-            [updateAuthUserTool.name]: updateAuthUserTool as AppTool,
-            [listStorageBucketsTool.name]: listStorageBucketsTool as AppTool,
-            [listStorageObjectsTool.name]: listStorageObjectsTool as AppTool,
-            [listRealtimePublicationsTool.name]: listRealtimePublicationsTool as AppTool,
-        };
-
-        // --- Tool Filtering Logic ---
-        let registeredTools: Record<string, AppTool> = { ...availableTools }; // Start with all tools
-        const toolsConfigPath = options.toolsConfig as string | undefined;
-        let enabledToolNames: Set<string> | null = null; // Use Set for efficient lookup
-
-        if (toolsConfigPath) {
-            try {
-                const resolvedPath = path.resolve(toolsConfigPath);
-                console.error(`Attempting to load tool configuration from: ${resolvedPath}`);
-                if (!fs.existsSync(resolvedPath)) {
-                    throw new Error(`Tool configuration file not found at ${resolvedPath}`);
-                }
-                const configFileContent = fs.readFileSync(resolvedPath, 'utf-8');
-                const configJson = JSON.parse(configFileContent);
-
-                if (!configJson || typeof configJson !== 'object' || !Array.isArray(configJson.enabledTools)) {
-                     throw new Error('Invalid config file format. Expected { "enabledTools": ["tool1", ...] }.');
-                }
-
-                // Validate that enabledTools contains only strings
-                const toolNames = configJson.enabledTools as unknown[];
-                if (!toolNames.every((name): name is string => typeof name === 'string')) {
-                    throw new Error('Invalid config file content. "enabledTools" must be an array of strings.');
-                }
-
-                enabledToolNames = new Set(toolNames.map(name => name.trim()).filter(name => name.length > 0));
-
-            } catch (error: unknown) {
-                console.error(`Error loading or parsing tool config file '${toolsConfigPath}':`, error instanceof Error ? error.message : String(error));
-                console.error('Falling back to enabling all tools due to config error.');
-                enabledToolNames = null; // Reset to null to signify fallback
-            }
+        if (rpcHelperMode === 'uninstall') {
+            await selfhostedClient.uninstallRpcHelper();
+            process.exit(0);
         }
 
-        if (enabledToolNames !== null) { // Check if we successfully got names from config
-            console.error(`Whitelisting tools based on config: ${Array.from(enabledToolNames).join(', ')}`);
-
-            registeredTools = {}; // Reset and add only whitelisted tools
-            for (const toolName in availableTools) {
-                if (enabledToolNames.has(toolName)) {
-                    registeredTools[toolName] = availableTools[toolName];
-                } else {
-                    console.error(`Tool ${toolName} disabled (not in config whitelist).`);
-                }
-            }
-
-            // Check if any tools specified in the config were not found in availableTools
-            for (const requestedName of enabledToolNames) {
-                if (!availableTools[requestedName]) {
-                    console.warn(`Warning: Tool "${requestedName}" specified in config file not found.`);
-                }
-            }
-        } else {
-            console.error("No valid --tools-config specified or error loading config, enabling all available tools.");
-            // registeredTools already defaults to all tools, so no action needed here
-        }
-        // --- End Tool Filtering Logic ---
-
-        // Prepare capabilities for the Server constructor
-        const capabilitiesTools: Record<string, McpToolSchema> = {};
-        // Use the potentially filtered 'registeredTools' map
-        for (const tool of Object.values(registeredTools)) {
-            // Directly use mcpInputSchema - assumes it exists and is correct
-            const staticInputSchema = tool.mcpInputSchema || { type: 'object', properties: {} };
-
-            if (!tool.mcpInputSchema) { // Simple check if it was actually provided
-                 console.error(`Tool ${tool.name} is missing mcpInputSchema. Using default empty schema.`);
-            }
-
-            capabilitiesTools[tool.name] = {
-                name: tool.name,
-                description: tool.description || 'Tool description missing',
-                inputSchema: staticInputSchema,
-            };
-        }
+        const registry = await createToolRegistry({
+            toolsConfigPath: options.toolsConfig as string | undefined,
+            policyProfile: options.policyProfile as string | undefined,
+            pluginsDir: options.toolsDir as string | undefined,
+            readOnly: options.readOnly as boolean,
+        });
 
-        const capabilities = { tools: capabilitiesTools };
+        const audit = await createAuditLog({
+            logFile: options.auditLog as string | undefined,
+            database: options.auditDb as boolean,
+            captureParams: options.auditParams as boolean,
+            workspacePath: options.workspacePath as string,
+            client: selfhostedClient,
+        });
 
         console.error('Initializing MCP Server...');
-        const server = new Server(
-            {
-                name: 'self-hosted-supabase-mcp',
-                version: '1.0.0',
-            },
-            {
-                capabilities,
-            },
-        );
-
-        // The ListTools handler should return the array matching McpToolSchema structure
-        server.setRequestHandler(ListToolsRequestSchema, async () => ({
-            tools: Object.values(capabilities.tools),
-        }));
-
-        server.setRequestHandler(CallToolRequestSchema, async (request) => {
-            const toolName = request.params.name;
-            // Look up the tool in the filtered 'registeredTools' map
-            const tool = registeredTools[toolName as keyof typeof registeredTools];
-
-            if (!tool) {
-                // Check if it existed originally but was filtered out
-                if (availableTools[toolName as keyof typeof availableTools]) {
-                     throw new McpError(ErrorCode.MethodNotFound, `Tool "${toolName}" is available but not enabled by the current server configuration.`);
-                }
-                // If the tool wasn't in the original list either, it's unknown
-                throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
-            }
-
-            try {
-                if (typeof tool.execute !== 'function') {
-                    throw new Error(`Tool ${toolName} does not have an execute method.`);
-                }
-
-                let parsedArgs = request.params.arguments;
-                // Still use Zod schema for internal validation before execution
-                if (tool.inputSchema && typeof tool.inputSchema.parse === 'function') {
-                    parsedArgs = (tool.inputSchema as z.ZodTypeAny).parse(request.params.arguments);
+        const server = createMcpServer({
+            name: 'self-hosted-supabase-mcp',
+            version: '1.0.0',
+            registry,
+            audit,
+            context: {
+                selfhostedClient,
+                workspacePath: options.workspacePath as string,
+                log: (message, level = 'info') => {
+                    // Simple logger using console.error (consistent with existing logs)
+                    console.error(`[${level.toUpperCase()}] ${message}`);
                 }
-
-                // Create the context object using the imported type
-                const context: ToolContext = {
-                    selfhostedClient,
-                    workspacePath: options.workspacePath as string,
-                    log: (message, level = 'info') => {
-                        // Simple logger using console.error (consistent with existing logs)
-                        console.error(`[${level.toUpperCase()}] ${message}`);
-                    }
-                };
-
-                // Call the tool's execute method
-                // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-                const result = await tool.execute(parsedArgs as any, context);
-
-                return {
-                    content: [
-                        {
-                            type: 'text',
-                            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-                        },
-                    ],
-                };
-            } catch (error: unknown) {
-                 console.error(`Error executing tool ${toolName}:`, error);
-                 let errorMessage = `Error executing tool ${toolName}: `;
-                 if (error instanceof z.ZodError) {
-                     errorMessage += `Input validation failed: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`;
-                 } else if (error instanceof Error) {
-                     errorMessage += error.message;
-                 } else {
-                     errorMessage += String(error);
-                 }
-                 return {
-                    content: [{ type: 'text', text: errorMessage }],
-                    isError: true,
-                 };
-            }
+            },
         });
 
         console.error('Starting MCP Server in stdio mode...');
@@ -0,0 +1,168 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { applyPolicyToInputSchema, checkToolArguments, compileToolPolicy, CONFIRM_ARGUMENT, loadPolicy } from './index.js';
+import type { ArgumentConstraint, Policy } from './index.js';
+import { builtinTools, createToolRegistry } from '../tools/registry.js';
+import type { AppTool } from '../tools/types.js';
+
+const tool = (name: string): AppTool => builtinTools.find((candidate) => candidate.name === name)!;
+
+describe('loadPolicy', () => {
+    let dir: string;
+    let count = 0;
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'policy-'));
+    });
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const policyFile = (content: unknown) => {
+        const file = join(dir, `policy-${count++}.json`);
+        writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+        return file;
+    };
+
+    it('allows every tool without a file or profile', () => {
+        expect(loadPolicy()).toEqual({ profile: undefined, defaultAction: 'allow', tools: {} });
+    });
+
+    it('fails closed on a missing, malformed or unknown configuration', () => {
+        expect(() => loadPolicy({ path: join(dir, 'missing.json') })).toThrow(/not found/);
+        expect(() => loadPolicy({ path: policyFile('{ "defaultAction": "deny", ') })).toThrow(/not valid JSON/);
+        expect(() => loadPolicy({ path: policyFile({ defaultAction: 'deny', tool: {} }) })).toThrow(/Unrecognized key/);
+        expect(() => loadPolicy({ path: policyFile({ tools: { execute_sql: { allowed: true } } }) })).toThrow(/Unrecognized key/);
+        expect(() => loadPolicy({ path: policyFile({ defaultAction: 'block' }) })).toThrow(/defaultAction/);
+        expect(() => loadPolicy({ path: policyFile({ tools: { execute_sql: { constraints: { sql: {} } } } }) })).toThrow(/at least one of/);
+        expect(() => loadPolicy({ path: policyFile({ enabledTools: ['list_tables'], defaultAction: 'allow' }) })).toThrow(/Invalid tool config/);
+    });
+
+    it('rejects an unknown profile, or one conflicting with the file', () => {
+        expect(() => loadPolicy({ profile: 'superuser' })).toThrow(/Unknown policy profile "superuser"/);
+        expect(() => loadPolicy({ path: policyFile({ profile: 'unknown' }) })).toThrow(/Unknown policy profile/);
+        expect(() => loadPolicy({ path: policyFile({ profile: 'dba' }), profile: 'readonly' })).toThrow(/conflicts/);
+    });
+
+    it('applies the file on top of the profile, tool by tool', () => {
+        const policy = loadPolicy({
+            profile: 'readonly',
+            path: policyFile({
+                tools: {
+                    execute_sql: { requireConfirmation: true, constraints: { sql: { schemas: ['public'] } } },
+                    apply_migration: { allow: true },
+                },
+            }),
+        });
+
+        expect(policy.defaultAction).toBe('deny');
+        expect(policy.tools.execute_sql).toEqual({
+            allow: true,
+            requireConfirmation: true,
+            constraints: { read_only: { enum: [true] }, sql: { schemas: ['public'] } },
+        });
+        expect(policy.tools.apply_migration.allow).toBe(true);
+        expect(policy.tools.list_tables).toEqual({ allow: true });
+    });
+
+    it('treats a legacy enabledTools file as deny by default', () => {
+        const policy = loadPolicy({ path: policyFile({ enabledTools: [' list_tables ', '', 'execute_sql'] }) });
+
+        expect(policy).toEqual({
+            profile: undefined,
+            defaultAction: 'deny',
+            tools: { list_tables: { allow: true, constraints: {} }, execute_sql: { allow: true, constraints: {} } },
+        });
+        expect(compileToolPolicy(policy, tool('delete_auth_user')).allow).toBe(false);
+        expect(compileToolPolicy(policy, tool('list_tables')).allow).toBe(true);
+    });
+});
+
+describe('compileToolPolicy', () => {
+    it('rejects constraints the tool arguments cannot satisfy', () => {
+        const policy = (constraints: Record<string, ArgumentConstraint>): Policy => ({ defaultAction: 'allow', tools: { execute_sql: { constraints } } });
+
+        expect(() => compileToolPolicy(policy({ statement: { enum: ['x'] } }), tool('execute_sql'))).toThrow(/unknown argument "statement"/);
+        expect(() => compileToolPolicy(policy({ sql: { pattern: '(' } }), tool('execute_sql'))).toThrow(/invalid pattern/);
+        expect(() => compileToolPolicy(policy({ read_only: { schemas: ['public'] } }), tool('execute_sql'))).toThrow(/not a SQL string argument/);
+    });
+});
+
+describe('checkToolArguments', () => {
+    it('holds the readonly profile to read-only SQL and plans', async () => {
+        const { registeredTools, toolPolicies } = await createToolRegistry({ policyProfile: 'readonly' });
+        const check = (name: string, args: unknown) => checkToolArguments(toolPolicies[name], registeredTools[name].inputSchema.parse(args));
+
+        expect(check('execute_sql', { sql: 'SELECT 1', read_only: true })).toBeNull();
+        expect(check('execute_sql', { sql: 'DELETE FROM todos', read_only: false })).toMatch(/"read_only" must be one of: true/);
+        expect(check('execute_sql', { sql: 'DELETE FROM todos' })).toMatch(/"read_only"/);
+        expect(check('execute_sql', { cursor: 'token' })).toBeNull();
+        expect(check('execute_sql_script', { sql: 'SELECT 1; SELECT 2', read_only: false })).toMatch(/"read_only"/);
+        expect(check('explain_query', { sql: 'DELETE FROM todos' })).toBeNull();
+        expect(check('explain_query', { sql: 'DELETE FROM todos', analyze: true })).toMatch(/"analyze" must be one of: false/);
+        expect(registeredTools.apply_migration).toBeUndefined();
+        expect(registeredTools.get_service_key).toBeUndefined();
+    });
+
+    it('keeps SQL to the allowed schemas', () => {
+        const toolPolicy = compileToolPolicy(
+            { defaultAction: 'allow', tools: { execute_sql: { constraints: { sql: { schemas: ['public', 'app'] } } } } },
+            tool('execute_sql'),
+        );
+        const check = (sql: string) => checkToolArguments(toolPolicy, { sql });
+
+        expect(check('SELECT * FROM todos JOIN app.lists ON lists.id = todos.list_id')).toBeNull();
+        expect(check('SELECT * FROM auth.users')).toMatch(/references schema "auth", which is not allowed/);
+        expect(check('SELECT 1; DELETE FROM "auth"."users"')).toMatch(/schema "auth"/);
+        expect(check("DO $$ BEGIN DELETE FROM auth.users; END $$")).toMatch(/can't be checked/);
+        expect(check('SET search_path = auth; SELECT * FROM users')).toMatch(/can't be checked/);
+    });
+
+    it('requires unqualified relations to be qualified when public is not allowed', () => {
+        const toolPolicy = compileToolPolicy(
+            { defaultAction: 'allow', tools: { execute_sql: { constraints: { sql: { schemas: ['app'] } } } } },
+            tool('execute_sql'),
+        );
+
+        expect(checkToolArguments(toolPolicy, { sql: 'SELECT * FROM app.todos' })).toBeNull();
+        expect(checkToolArguments(toolPolicy, { sql: 'SELECT * FROM todos' })).toMatch(/"todos" without a schema/);
+    });
+
+    it('matches patterns against the whole value, element by element for arrays', () => {
+        const toolPolicy = compileToolPolicy(
+            { defaultAction: 'allow', tools: { list_tables: { constraints: { schemas: { pattern: 'app_[a-z]+' } } } } },
+            tool('list_tables'),
+        );
+
+        expect(checkToolArguments(toolPolicy, { schemas: ['app_one', 'app_two'] })).toBeNull();
+        expect(checkToolArguments(toolPolicy, { schemas: ['app_one', 'public'] })).toMatch(/must match/);
+        expect(checkToolArguments(toolPolicy, { schemas: ['xapp_one'] })).toMatch(/must match/);
+        expect(checkToolArguments(toolPolicy, {})).toBeNull();
+    });
+});
+
+describe('applyPolicyToInputSchema', () => {
+    it('advertises allowed values and the confirm argument', () => {
+        const toolPolicy = compileToolPolicy(
+            { defaultAction: 'allow', tools: { execute_sql: { requireConfirmation: true, constraints: { read_only: { enum: [true] } } } } },
+            tool('execute_sql'),
+        );
+        const schema = applyPolicyToInputSchema({
+            type: 'object',
+            properties: { sql: { type: 'string' }, read_only: { type: 'boolean', default: false } },
+            required: ['sql'],
+        }, toolPolicy);
+
+        expect(schema).toEqual({
+            type: 'object',
+            properties: {
+                sql: { type: 'string' },
+                read_only: { type: 'boolean', enum: [true] },
+                [CONFIRM_ARGUMENT]: expect.objectContaining({ type: 'boolean', const: true }),
+            },
+            required: ['sql', CONFIRM_ARGUMENT],
+        });
+    });
+});
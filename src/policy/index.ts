@@ -0,0 +1,284 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { analyzeSchemaUsage } from '../sql/schema-usage.js';
+import { toMcpToolSchemas } from '../tools/schemas.js';
+import type { AppTool } from '../tools/types.js';
+import { POLICY_PROFILES } from './profiles.js';
+
+type JsonSchema = Record<string, unknown>;
+
+const ArgumentConstraintSchema = z.object({
+    enum: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1).optional(), // Allowed values
+    pattern: z.string().optional(),                                                  // Regex the whole value must match
+    schemas: z.array(z.string().min(1)).min(1).optional(),                           // For SQL arguments: schemas it may reference
+}).strict().refine(
+    (constraint) => constraint.enum !== undefined || constraint.pattern !== undefined || constraint.schemas !== undefined,
+    { message: 'A constraint needs at least one of "enum", "pattern" or "schemas"' },
+);
+
+const ToolRuleSchema = z.object({
+    allow: z.boolean().optional(),
+    requireConfirmation: z.boolean().optional(),
+    constraints: z.record(ArgumentConstraintSchema).optional(), // Keyed by argument name
+}).strict();
+
+const PolicyConfigSchema = z.object({
+    profile: z.string().optional(),
+    defaultAction: z.enum(['allow', 'deny']).optional(),
+    tools: z.record(ToolRuleSchema).optional(),
+}).strict();
+
+// The original tools config format, a plain whitelist
+const LegacyToolsConfigSchema = z.object({
+    enabledTools: z.array(z.string()),
+}).strict();
+
+export type ArgumentConstraint = z.infer<typeof ArgumentConstraintSchema>;
+export type ToolRule = z.infer<typeof ToolRuleSchema>;
+export type PolicyConfig = z.infer<typeof PolicyConfigSchema>;
+
+/**
+ * The effective policy: a profile (if any) with the policy file applied on top.
+ */
+export interface Policy {
+    profile?: string;
+    defaultAction: 'allow' | 'deny';
+    tools: Record<string, ToolRule>;
+}
+
+/**
+ * The policy for one tool, with constraints checked against the tool's arguments.
+ */
+export interface ToolPolicy {
+    allow: boolean;
+    requireConfirmation: boolean;
+    constraints: CompiledConstraint[];
+}
+
+interface CompiledConstraint {
+    argument: string;
+    enum?: (string | number | boolean)[];
+    pattern?: RegExp;
+    schemas?: string[];
+}
+
+export interface PolicyOptions {
+    path?: string;    // Policy file (or a legacy { "enabledTools": [...] } file)
+    profile?: string; // Built-in profile, e.g. from --policy-profile
+}
+
+/**
+ * Argument callers pass to confirm a call to a tool that requires confirmation.
+ */
+export const CONFIRM_ARGUMENT = 'confirm';
+
+function formatZodError(error: z.ZodError): string {
+    return error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`).join(', ');
+}
+
+function readPolicyFile(policyPath: string): PolicyConfig {
+    const resolvedPath = path.resolve(policyPath);
+    console.error(`Loading tool policy from: ${resolvedPath}`);
+    if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`Tool policy file not found at ${resolvedPath}`);
+    }
+
+    let configJson: unknown;
+    try {
+        configJson = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Tool policy file ${resolvedPath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (configJson && typeof configJson === 'object' && 'enabledTools' in configJson) {
+        const legacy = LegacyToolsConfigSchema.safeParse(configJson);
+        if (!legacy.success) {
+            throw new Error(`Invalid tool config ${resolvedPath}: ${formatZodError(legacy.error)}`);
+        }
+        console.error('Tool config uses the legacy "enabledTools" format; treating it as a deny-by-default policy.');
+        const tools: Record<string, ToolRule> = {};
+        for (const name of legacy.data.enabledTools.map(name => name.trim()).filter(name => name.length > 0)) {
+            tools[name] = { allow: true };
+        }
+        return { defaultAction: 'deny', tools };
+    }
+
+    const parsed = PolicyConfigSchema.safeParse(configJson);
+    if (!parsed.success) {
+        throw new Error(`Invalid tool policy ${resolvedPath}: ${formatZodError(parsed.error)}`);
+    }
+    return parsed.data;
+}
+
+/**
+ * Loads the tool policy from a policy file and/or a built-in profile.
+ * Without either, every tool is allowed. Any problem with the configuration throws, so that a
+ * broken policy stops the server instead of silently enabling everything.
+ */
+export function loadPolicy(options: PolicyOptions = {}): Policy {
+    const config: PolicyConfig = options.path ? readPolicyFile(options.path) : {};
+
+    if (options.profile && config.profile && options.profile !== config.profile) {
+        throw new Error(`Policy profile "${options.profile}" conflicts with profile "${config.profile}" set in the policy file.`);
+    }
+    const profileName = options.profile ?? config.profile;
+
+    let base: PolicyConfig = {};
+    if (profileName) {
+        base = POLICY_PROFILES[profileName];
+        if (!base) {
+            throw new Error(`Unknown policy profile "${profileName}". Available profiles: ${Object.keys(POLICY_PROFILES).join(', ')}`);
+        }
+    }
+
+    // The file's rules refine the profile's rules tool by tool
+    const tools: Record<string, ToolRule> = { ...base.tools };
+    for (const [name, rule] of Object.entries(config.tools ?? {})) {
+        const baseRule = tools[name] ?? {};
+        tools[name] = {
+            ...baseRule,
+            ...rule,
+            constraints: { ...baseRule.constraints, ...rule.constraints },
+        };
+    }
+
+    return {
+        profile: profileName,
+        defaultAction: config.defaultAction ?? base.defaultAction ?? 'allow',
+        tools,
+    };
+}
+
+/**
+ * Resolves the policy for a tool and checks its constraints against the tool's input schema.
+ * Throws if a constraint names an unknown argument or is invalid for the argument's type.
+ */
+export function compileToolPolicy(policy: Policy, tool: AppTool): ToolPolicy {
+    const rule = policy.tools[tool.name] ?? {};
+    const properties = (toMcpToolSchemas(tool).inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+    const requireConfirmation = !!rule.requireConfirmation;
+
+    if (requireConfirmation && properties[CONFIRM_ARGUMENT]) {
+        throw new Error(`Tool "${tool.name}" has its own "${CONFIRM_ARGUMENT}" argument and can't require confirmation.`);
+    }
+
+    const constraints: CompiledConstraint[] = [];
+    for (const [argument, constraint] of Object.entries(rule.constraints ?? {})) {
+        const property = properties[argument];
+        if (!property) {
+            throw new Error(`Policy for tool "${tool.name}" constrains unknown argument "${argument}".`);
+        }
+
+        const compiled: CompiledConstraint = { argument, enum: constraint.enum, schemas: constraint.schemas };
+        if (constraint.pattern !== undefined) {
+            try {
+                compiled.pattern = new RegExp(`^(?:${constraint.pattern})$`);
+            } catch (error) {
+                throw new Error(`Policy for tool "${tool.name}" has an invalid pattern for "${argument}": ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        if (constraint.schemas && property.type !== 'string') {
+            throw new Error(`Policy for tool "${tool.name}" sets "schemas" on "${argument}", which is not a SQL string argument.`);
+        }
+        constraints.push(compiled);
+    }
+
+    return {
+        allow: rule.allow ?? policy.defaultAction === 'allow',
+        requireConfirmation,
+        constraints,
+    };
+}
+
+function checkSchemas(argument: string, sql: string, allowed: string[]): string | null {
+    let usage;
+    try {
+        usage = analyzeSchemaUsage(sql);
+    } catch (error) {
+        return `Argument "${argument}" can't be checked against the allowed schemas: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    if (usage.opaque.length > 0) {
+        return `Argument "${argument}" can't be checked against the allowed schemas: ${usage.opaque.join('; ')}.`;
+    }
+    for (const schema of usage.schemas) {
+        if (!allowed.includes(schema)) {
+            return `Argument "${argument}" references schema "${schema}", which is not allowed (allowed: ${allowed.join(', ')}).`;
+        }
+    }
+    if (usage.unqualifiedRelations.length > 0 && !allowed.includes('public')) {
+        return `Argument "${argument}" references "${usage.unqualifiedRelations[0]}" without a schema; qualify it with one of: ${allowed.join(', ')}.`;
+    }
+    return null;
+}
+
+/**
+ * Checks parsed tool arguments against the tool's constraints.
+ * Array arguments are checked element by element. Returns a description of the first violation, or null.
+ */
+export function checkToolArguments(toolPolicy: ToolPolicy, args: unknown): string | null {
+    const values = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+
+    for (const constraint of toolPolicy.constraints) {
+        const value = values[constraint.argument];
+        if (value === undefined) continue;
+
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (constraint.enum && !constraint.enum.includes(item as string | number | boolean)) {
+                return `Argument "${constraint.argument}" must be one of: ${constraint.enum.map(v => JSON.stringify(v)).join(', ')}.`;
+            }
+            if (constraint.pattern && !constraint.pattern.test(String(item))) {
+                return `Argument "${constraint.argument}" must match ${constraint.pattern}.`;
+            }
+            if (constraint.schemas) {
+                const violation = checkSchemas(constraint.argument, String(item), constraint.schemas);
+                if (violation) return violation;
+            }
+        }
+    }
+    return null;
+}
+
+function appendDescription(schema: JsonSchema, note: string): void {
+    schema.description = schema.description ? `${schema.description} ${note}` : note;
+}
+
+/**
+ * Reflects a tool policy in the advertised input schema: allowed values and patterns are added to
+ * the constrained arguments, and a required `confirm` argument is added when confirmation is needed.
+ */
+export function applyPolicyToInputSchema(inputSchema: JsonSchema, toolPolicy: ToolPolicy): JsonSchema {
+    const schema = structuredClone(inputSchema);
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+    for (const constraint of toolPolicy.constraints) {
+        const property = properties[constraint.argument];
+        // Constraints on arrays apply to the elements
+        const target = property.type === 'array' && property.items ? property.items as JsonSchema : property;
+
+        if (constraint.enum) {
+            target.enum = constraint.enum;
+            if (property.default !== undefined && !Array.isArray(property.default) && !constraint.enum.includes(property.default as string)) {
+                delete property.default;
+            }
+        }
+        if (constraint.pattern) {
+            target.pattern = constraint.pattern.source;
+        }
+        if (constraint.schemas) {
+            appendDescription(property, `Restricted by policy to schemas: ${constraint.schemas.join(', ')}.`);
+        }
+    }
+
+    if (toolPolicy.requireConfirmation) {
+        properties[CONFIRM_ARGUMENT] = {
+            type: 'boolean',
+            const: true,
+            description: 'Required by policy: set to true to confirm this call after reviewing its arguments.',
+        };
+        schema.properties = properties;
+        schema.required = [...((schema.required as string[] | undefined) ?? []), CONFIRM_ARGUMENT];
+    }
+
+    return schema;
+}
@@ -0,0 +1,74 @@
+import type { PolicyConfig } from './index.js';
+
+/**
+ * Built-in policy profiles. A policy file can start from one of these with `"profile": "<name>"`
+ * and override individual tools.
+ */
+export const POLICY_PROFILES: Record<string, PolicyConfig> = {
+    // Inspect the database without changing it or seeing secrets
+    readonly: {
+        defaultAction: 'deny',
+        tools: {
+            list_tables: { allow: true },
+            describe_table: { allow: true },
+            list_extensions: { allow: true },
+            list_functions: { allow: true },
+            get_function_definition: { allow: true },
+            list_triggers: { allow: true },
+            list_rls_policies: { allow: true },
+            list_roles: { allow: true },
+            get_role_privileges: { allow: true },
+            list_migrations: { allow: true },
+            get_database_connections: { allow: true },
+            get_database_stats: { allow: true },
+            get_sql_path_status: { allow: true },
+            get_project_url: { allow: true },
+            get_anon_key: { allow: true },
+            list_storage_buckets: { allow: true },
+            list_storage_objects: { allow: true },
+            list_realtime_publications: { allow: true },
+            execute_sql: {
+                allow: true,
+                constraints: { read_only: { enum: [true] } },
+            },
+            execute_sql_script: {
+                allow: true,
+                constraints: { read_only: { enum: [true] } },
+            },
+            // ANALYZE runs the statement, in a read-write transaction
+            explain_query: {
+                allow: true,
+                constraints: { analyze: { enum: [false] } },
+            },
+        },
+    },
+
+    // Database administration; SQL and migrations need confirmation, user management and secrets are off
+    dba: {
+        defaultAction: 'allow',
+        tools: {
+            execute_sql: { requireConfirmation: true },
+            execute_sql_script: { requireConfirmation: true },
+            apply_migration: { requireConfirmation: true },
+            get_service_key: { allow: false },
+            create_auth_user: { allow: false },
+            update_auth_user: { allow: false },
+            delete_auth_user: { allow: false },
+        },
+    },
+
+    // Manage auth users without general database access
+    'auth-admin': {
+        defaultAction: 'deny',
+        tools: {
+            list_auth_users: { allow: true },
+            get_auth_user: { allow: true },
+            create_auth_user: { allow: true },
+            update_auth_user: { allow: true },
+            delete_auth_user: { allow: true, requireConfirmation: true },
+            get_project_url: { allow: true },
+            get_anon_key: { allow: true },
+            verify_jwt_secret: { allow: true },
+        },
+    },
+};
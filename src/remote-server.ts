@@ -1,38 +1,24 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
-    CallToolRequestSchema,
     ErrorCode,
-    ListToolsRequestSchema,
-    McpError,
+    isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
 import { Hono } from "hono";
+import type { Context } from "hono";
+import { randomUUID } from "node:crypto";
 import { serve } from "@hono/node-server";
+import type { HttpBindings } from "@hono/node-server";
+import { createAuditLog } from "./audit/index.js";
 import { SelfhostedSupabaseClient } from "./client/index.js";
+import { createAuthMiddleware, createCorsMiddleware, loadAuthConfig } from "./remote/auth.js";
+import type { AuthVariables } from "./remote/auth.js";
+import { InMemoryEventStore } from "./remote/event-store.js";
+import { mountSseTransport } from "./remote/sse.js";
+import { createMcpServer } from "./server.js";
+import { createToolRegistry } from "./tools/registry.js";
 import type { ToolContext } from "./tools/types.js";
-import { z } from "zod";
-
-// Import all tools
-import { listTablesTool } from "./tools/list_tables.js";
-import { listExtensionsTool } from "./tools/list_extensions.js";
-import { listMigrationsTool } from "./tools/list_migrations.js";
-import { applyMigrationTool } from "./tools/apply_migration.js";
-import { executeSqlTool } from "./tools/execute_sql.js";
-import { getDatabaseConnectionsTool } from "./tools/get_database_connections.js";
-import { getDatabaseStatsTool } from "./tools/get_database_stats.js";
-import { getProjectUrlTool } from "./tools/get_project_url.js";
-import { getAnonKeyTool } from "./tools/get_anon_key.js";
-import { getServiceKeyTool } from "./tools/get_service_key.js";
-import { verifyJwtSecretTool } from "./tools/verify_jwt_secret.js";
-import { generateTypesTool } from "./tools/generate_typescript_types.js";
-import { createAuthUserTool } from "./tools/create_auth_user.js";
-import { getAuthUserTool } from "./tools/get_auth_user.js";
-import { listAuthUsersTool } from "./tools/list_auth_users.js";
-import { updateAuthUserTool } from "./tools/update_auth_user.js";
-import { deleteAuthUserTool } from "./tools/delete_auth_user.js";
-import listStorageBucketsTool from "./tools/list_storage_buckets.js";
-import listStorageObjectsTool from "./tools/list_storage_objects.js";
-import listRealtimePublicationsTool from "./tools/list_realtime_publications.js";
-import { rebuildHooksTool } from "./tools/rebuild_hooks.js";
+import type { PgSslMode } from "./client/pg-config.js";
 
 // Environment interface
 interface RemoteEnv {
@@ -43,6 +29,27 @@ interface RemoteEnv {
     SUPABASE_AUTH_JWT_SECRET?: string;
     PORT?: string;
     WORKSPACE_PATH?: string;
+    MCP_SESSION_IDLE_TIMEOUT_MS?: string;
+    MCP_SSE_KEEPALIVE_MS?: string;
+    MCP_TOOLS_CONFIG?: string;
+    MCP_POLICY_PROFILE?: string;
+    MCP_TOOLS_DIR?: string;
+    MCP_READ_ONLY?: string;
+    MCP_AUDIT_LOG?: string;
+    MCP_AUDIT_DB?: string;
+    MCP_AUDIT_PARAMS?: string;
+    MCP_SQL_MAX_ROWS?: string;
+    MCP_SQL_MAX_BYTES?: string;
+    MCP_SQL_TIMEOUT_MS?: string;
+    MCP_RPC_HELPER?: string;
+    MCP_DB_POOL_MAX?: string;
+    MCP_DB_IDLE_TIMEOUT_MS?: string;
+    MCP_DB_CONNECT_TIMEOUT_MS?: string;
+    MCP_DB_APPLICATION_NAME?: string;
+    MCP_DB_SSL_MODE?: string;
+    MCP_DB_SSL_ROOT_CERT?: string;
+    MCP_DB_SSL_CERT?: string;
+    MCP_DB_SSL_KEY?: string;
 }
 
 /**
@@ -58,6 +65,27 @@ async function main() {
         SUPABASE_AUTH_JWT_SECRET: process.env.SUPABASE_AUTH_JWT_SECRET,
         PORT: process.env.PORT || "3000",
         WORKSPACE_PATH: process.env.WORKSPACE_PATH || process.cwd(),
+        MCP_SESSION_IDLE_TIMEOUT_MS: process.env.MCP_SESSION_IDLE_TIMEOUT_MS,
+        MCP_SSE_KEEPALIVE_MS: process.env.MCP_SSE_KEEPALIVE_MS,
+        MCP_TOOLS_CONFIG: process.env.MCP_TOOLS_CONFIG,
+        MCP_POLICY_PROFILE: process.env.MCP_POLICY_PROFILE,
+        MCP_TOOLS_DIR: process.env.MCP_TOOLS_DIR,
+        MCP_READ_ONLY: process.env.MCP_READ_ONLY,
+        MCP_AUDIT_LOG: process.env.MCP_AUDIT_LOG,
+        MCP_AUDIT_DB: process.env.MCP_AUDIT_DB,
+        MCP_AUDIT_PARAMS: process.env.MCP_AUDIT_PARAMS,
+        MCP_SQL_MAX_ROWS: process.env.MCP_SQL_MAX_ROWS,
+        MCP_SQL_MAX_BYTES: process.env.MCP_SQL_MAX_BYTES,
+        MCP_SQL_TIMEOUT_MS: process.env.MCP_SQL_TIMEOUT_MS,
+        MCP_RPC_HELPER: process.env.MCP_RPC_HELPER,
+        MCP_DB_POOL_MAX: process.env.MCP_DB_POOL_MAX,
+        MCP_DB_IDLE_TIMEOUT_MS: process.env.MCP_DB_IDLE_TIMEOUT_MS,
+        MCP_DB_CONNECT_TIMEOUT_MS: process.env.MCP_DB_CONNECT_TIMEOUT_MS,
+        MCP_DB_APPLICATION_NAME: process.env.MCP_DB_APPLICATION_NAME,
+        MCP_DB_SSL_MODE: process.env.MCP_DB_SSL_MODE,
+        MCP_DB_SSL_ROOT_CERT: process.env.MCP_DB_SSL_ROOT_CERT,
+        MCP_DB_SSL_CERT: process.env.MCP_DB_SSL_CERT,
+        MCP_DB_SSL_KEY: process.env.MCP_DB_SSL_KEY,
     };
 
     // Validate required environment variables
@@ -70,9 +98,21 @@ async function main() {
         process.exit(1);
     }
 
+    // Load authentication settings for the /mcp and /sse endpoints
+    const authConfig = loadAuthConfig(process.env);
+    if (authConfig.disabled) {
+        console.warn("WARNING: MCP_AUTH_DISABLED=true - the /mcp and /sse endpoints are unauthenticated!");
+    } else if (authConfig.apiKeys.length === 0 && !authConfig.jwtSecret) {
+        console.error("Error: No authentication configured. Set MCP_API_KEYS, MCP_API_KEYS_FILE or SUPABASE_AUTH_JWT_SECRET (or MCP_AUTH_DISABLED=true to opt out).");
+        process.exit(1);
+    }
+
     console.log("Starting Self-hosted Supabase Remote MCP Server...");
     console.log(`Supabase URL: ${env.SUPABASE_URL}`);
     console.log(`Workspace Path: ${env.WORKSPACE_PATH}`);
+    const readOnly = env.MCP_READ_ONLY === "true";
+    console.log(`Read-only mode: ${readOnly ? "enabled" : "disabled"}`);
+    console.log(`Auth: ${authConfig.disabled ? "disabled" : `${authConfig.apiKeys.length} API key(s), JWT ${authConfig.jwtSecret ? `enabled (roles: ${authConfig.allowedJwtRoles.join(", ")})` : "disabled"}`}`);
 
     // Initialize Supabase client
     const supabaseClient = await SelfhostedSupabaseClient.create({
@@ -81,35 +121,33 @@ async function main() {
         supabaseServiceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
         databaseUrl: env.DATABASE_URL,
         jwtSecret: env.SUPABASE_AUTH_JWT_SECRET,
+        readOnly,
+        rpcHelper: env.MCP_RPC_HELPER as 'auto' | 'manual' | undefined,
+        sqlMaxRows: env.MCP_SQL_MAX_ROWS ? parseInt(env.MCP_SQL_MAX_ROWS) : undefined,
+        sqlMaxBytes: env.MCP_SQL_MAX_BYTES ? parseInt(env.MCP_SQL_MAX_BYTES) : undefined,
+        sqlTimeoutMs: env.MCP_SQL_TIMEOUT_MS ? parseInt(env.MCP_SQL_TIMEOUT_MS) : undefined,
+        pg: {
+            poolMax: env.MCP_DB_POOL_MAX ? parseInt(env.MCP_DB_POOL_MAX) : undefined,
+            idleTimeoutMs: env.MCP_DB_IDLE_TIMEOUT_MS ? parseInt(env.MCP_DB_IDLE_TIMEOUT_MS) : undefined,
+            connectionTimeoutMs: env.MCP_DB_CONNECT_TIMEOUT_MS ? parseInt(env.MCP_DB_CONNECT_TIMEOUT_MS) : undefined,
+            applicationName: env.MCP_DB_APPLICATION_NAME,
+            sslMode: env.MCP_DB_SSL_MODE as PgSslMode | undefined,
+            sslRootCert: env.MCP_DB_SSL_ROOT_CERT,
+            sslCert: env.MCP_DB_SSL_CERT,
+            sslKey: env.MCP_DB_SSL_KEY,
+        },
     });
 
     await supabaseClient.initialize();
     console.log("Supabase client initialized successfully");
 
-    // Register all available tools
-    const availableTools = {
-        list_tables: listTablesTool,
-        list_extensions: listExtensionsTool,
-        list_migrations: listMigrationsTool,
-        apply_migration: applyMigrationTool,
-        execute_sql: executeSqlTool,
-        get_database_connections: getDatabaseConnectionsTool,
-        get_database_stats: getDatabaseStatsTool,
-        get_project_url: getProjectUrlTool,
-        get_anon_key: getAnonKeyTool,
-        get_service_key: getServiceKeyTool,
-        verify_jwt_secret: verifyJwtSecretTool,
-        generate_typescript_types: generateTypesTool,
-        create_auth_user: createAuthUserTool,
-        get_auth_user: getAuthUserTool,
-        list_auth_users: listAuthUsersTool,
-        update_auth_user: updateAuthUserTool,
-        delete_auth_user: deleteAuthUserTool,
-        list_storage_buckets: listStorageBucketsTool,
-        list_storage_objects: listStorageObjectsTool,
-        list_realtime_publications: listRealtimePublicationsTool,
-        rebuild_hooks: rebuildHooksTool,
-    };
+    // Built-in tools plus plugins, filtered by the tool policy
+    const registry = await createToolRegistry({
+        toolsConfigPath: env.MCP_TOOLS_CONFIG,
+        policyProfile: env.MCP_POLICY_PROFILE,
+        pluginsDir: env.MCP_TOOLS_DIR,
+        readOnly,
+    });
 
     // Create tool context
     const toolContext: ToolContext = {
@@ -121,201 +159,133 @@ async function main() {
         workspacePath: env.WORKSPACE_PATH || process.cwd(),
     };
 
-    // Prepare capabilities for the Server constructor
-    const capabilitiesTools: Record<string, any> = {};
-    for (const [toolName, tool] of Object.entries(availableTools)) {
-        const staticInputSchema = tool.mcpInputSchema || { type: 'object', properties: {} };
-
-        capabilitiesTools[toolName] = {
-            name: toolName,
-            description: tool.description || 'Tool description missing',
-            inputSchema: staticInputSchema,
-        };
-    }
-
-    const capabilities = { tools: capabilitiesTools };
-
-    // Create MCP Server
-    const server = new Server(
-        {
-            name: 'self-hosted-supabase-remote-mcp',
-            version: '1.0.0',
-        },
-        {
-            capabilities,
-        },
-    );
-
-    // Set up request handlers
-    server.setRequestHandler(ListToolsRequestSchema, async () => ({
-        tools: Object.values(capabilities.tools),
-    }));
+    // Every tool call is recorded with the caller's identity
+    const audit = await createAuditLog({
+        logFile: env.MCP_AUDIT_LOG,
+        database: env.MCP_AUDIT_DB === "true",
+        captureParams: env.MCP_AUDIT_PARAMS === "true",
+        workspacePath: env.WORKSPACE_PATH || process.cwd(),
+        client: supabaseClient,
+    });
 
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-        const toolName = request.params.name;
-        const tool = availableTools[toolName as keyof typeof availableTools];
+    /**
+     * Creates an MCP Server with the tool handlers attached.
+     * Each session gets its own Server instance since a Server connects to exactly one transport.
+     */
+    const createServer = (): Server => createMcpServer({
+        name: 'self-hosted-supabase-remote-mcp',
+        version: '1.0.0',
+        registry,
+        audit,
+        context: toolContext,
+    });
 
-        if (!tool) {
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
-        }
+    console.log(`Registered ${Object.keys(registry.registeredTools).length} tools`);
 
-        try {
-            let parsedArgs = request.params.arguments;
-
-            // Use Zod schema for validation if available
-            if (tool.inputSchema && typeof tool.inputSchema.parse === 'function') {
-                parsedArgs = (tool.inputSchema as z.ZodTypeAny).parse(request.params.arguments);
+    // --- Streamable HTTP sessions ---
+    interface McpSession {
+        transport: WebStandardStreamableHTTPServerTransport;
+        server: Server;
+        clientId: string;   // Identity that initialized the session; other callers may not use it
+        lastSeen: number;
+    }
+    const sessions = new Map<string, McpSession>();
+    const sessionIdleTimeoutMs = parseInt(env.MCP_SESSION_IDLE_TIMEOUT_MS || "1800000");
+
+    // Close sessions that have been idle for too long
+    const sweepInterval = setInterval(() => {
+        const cutoff = Date.now() - sessionIdleTimeoutMs;
+        for (const [sessionId, session] of sessions) {
+            if (session.lastSeen < cutoff) {
+                console.log(`Closing idle MCP session ${sessionId}`);
+                sessions.delete(sessionId);
+                session.transport.close().catch((error) => console.error(`Error closing session ${sessionId}:`, error));
             }
-
-            // Execute the tool
-            const result = await tool.execute(parsedArgs, toolContext);
-            return result;
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            toolContext.log(`Tool ${toolName} failed: ${errorMessage}`, 'error');
-            throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${errorMessage}`);
         }
-    });
+    }, 60_000);
+    sweepInterval.unref();
 
-    console.log(`Registered ${Object.keys(availableTools).length} tools`);
+    const jsonRpcError = (c: Context, status: 400 | 403 | 404 | 500, code: number, message: string) =>
+        c.json({ jsonrpc: "2.0", id: null, error: { code, message } }, status);
 
     // Create main Hono app
-    const app = new Hono();
+    const app = new Hono<{ Bindings: HttpBindings; Variables: AuthVariables }>();
 
-    // Enable CORS
-    app.use("*", async (c, next) => {
-        c.header("Access-Control-Allow-Origin", "*");
-        c.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-        c.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    // CORS restricted to MCP_CORS_ORIGINS
+    app.use("*", createCorsMiddleware(process.env));
 
-        if (c.req.method === "OPTIONS") {
-            return c.text("", 200);
-        }
+    // Require a bearer token on the MCP endpoints
+    const requireAuth = createAuthMiddleware(authConfig);
+    app.use("/mcp", requireAuth);
+    app.use("/sse", requireAuth);
+    app.use("/messages", requireAuth);
 
-        await next();
-    });
+    // MCP endpoint - Streamable HTTP transport (POST messages, GET stream, DELETE session)
+    app.all("/mcp", async (c) => {
+        const authInfo = c.get("auth");
+        const sessionId = c.req.header("mcp-session-id");
 
-    // MCP endpoint - handle JSON-RPC requests
-    app.post("/mcp", async (c) => {
         try {
-            const body = await c.req.json();
-
-            // Handle JSON-RPC request
-            if (!body.jsonrpc || body.jsonrpc !== "2.0") {
-                return c.json({
-                    jsonrpc: "2.0",
-                    id: body.id || null,
-                    error: {
-                        code: -32600,
-                        message: "Invalid Request"
-                    }
-                }, 400);
+            if (sessionId) {
+                const session = sessions.get(sessionId);
+                if (!session) {
+                    return jsonRpcError(c, 404, -32001, "Session not found");
+                }
+                if (session.clientId !== authInfo.clientId) {
+                    return jsonRpcError(c, 403, -32001, "Session belongs to a different client");
+                }
+                session.lastSeen = Date.now();
+                return await session.transport.handleRequest(c.req.raw, { authInfo });
             }
 
-            // Create a mock transport for the server
-            const mockTransport = {
-                start: async () => {},
-                close: async () => {},
-                send: async (message: any) => message,
-            };
+            // Without a session ID, only an initialize request may start a new session
+            if (c.req.method !== "POST") {
+                return jsonRpcError(c, 400, ErrorCode.InvalidRequest, "Bad Request: Mcp-Session-Id header is required");
+            }
 
-            // Process the request through the MCP server
-            let response;
-
-            if (body.method === "initialize") {
-                response = {
-                    jsonrpc: "2.0",
-                    id: body.id,
-                    result: {
-                        protocolVersion: "2024-11-05",
-                        capabilities: capabilities,
-                        serverInfo: {
-                            name: "self-hosted-supabase-remote-mcp",
-                            version: "1.0.0"
-                        }
-                    }
-                };
-            } else if (body.method === "tools/list") {
-                response = {
-                    jsonrpc: "2.0",
-                    id: body.id,
-                    result: {
-                        tools: Object.values(capabilities.tools)
-                    }
-                };
-            } else if (body.method === "tools/call") {
-                try {
-                    const toolName = body.params?.name;
-                    const toolArgs = body.params?.arguments || {};
-
-                    if (!toolName) {
-                        throw new McpError(ErrorCode.InvalidParams, "Tool name is required");
-                    }
-
-                    const tool = availableTools[toolName as keyof typeof availableTools];
-                    if (!tool) {
-                        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
-                    }
-
-                    // Validate arguments if schema is available
-                    let parsedArgs = toolArgs;
-                    if (tool.inputSchema && typeof tool.inputSchema.parse === 'function') {
-                        parsedArgs = (tool.inputSchema as z.ZodTypeAny).parse(toolArgs);
-                    }
-
-                    // Execute the tool
-                    const toolResult = await tool.execute(parsedArgs, toolContext);
-
-                    response = {
-                        jsonrpc: "2.0",
-                        id: body.id,
-                        result: toolResult
-                    };
-                } catch (error) {
-                    const mcpError = error as McpError;
-                    response = {
-                        jsonrpc: "2.0",
-                        id: body.id,
-                        error: {
-                            code: mcpError.code || -32603,
-                            message: mcpError.message || "Internal error"
-                        }
-                    };
-                }
-            } else {
-                response = {
-                    jsonrpc: "2.0",
-                    id: body.id,
-                    error: {
-                        code: -32601,
-                        message: "Method not found"
-                    }
-                };
+            let body: unknown;
+            try {
+                body = await c.req.json();
+            } catch {
+                return jsonRpcError(c, 400, ErrorCode.ParseError, "Parse error: Invalid JSON");
+            }
+
+            const messages = Array.isArray(body) ? body : [body];
+            if (!messages.some(isInitializeRequest)) {
+                return jsonRpcError(c, 400, ErrorCode.InvalidRequest, "Bad Request: No valid session ID provided");
             }
 
-            return c.json(response);
+            const server = createServer();
+            const transport: WebStandardStreamableHTTPServerTransport = new WebStandardStreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                eventStore: new InMemoryEventStore(),
+                onsessioninitialized: (newSessionId) => {
+                    console.log(`MCP session initialized: ${newSessionId} (client: ${authInfo.clientId})`);
+                    sessions.set(newSessionId, { transport, server, clientId: authInfo.clientId, lastSeen: Date.now() });
+                },
+                onsessionclosed: (closedSessionId) => {
+                    console.log(`MCP session closed: ${closedSessionId}`);
+                    sessions.delete(closedSessionId);
+                },
+            });
+            transport.onclose = () => {
+                if (transport.sessionId) sessions.delete(transport.sessionId);
+            };
+
+            await server.connect(transport);
+            return await transport.handleRequest(c.req.raw, { parsedBody: body, authInfo });
         } catch (error) {
             console.error("MCP request error:", error);
-            return c.json({
-                jsonrpc: "2.0",
-                id: null,
-                error: {
-                    code: -32603,
-                    message: "Internal error",
-                    data: error instanceof Error ? error.message : String(error)
-                }
-            }, 500);
+            return jsonRpcError(c, 500, ErrorCode.InternalError, "Internal error");
         }
     });
 
-    // SSE endpoint (basic implementation)
-    app.get("/sse", (c) => {
-        c.header("Content-Type", "text/event-stream");
-        c.header("Cache-Control", "no-cache");
-        c.header("Connection", "keep-alive");
-        c.header("Access-Control-Allow-Origin", "*");
-        
-        return c.text("data: {\"type\":\"connection\",\"status\":\"connected\"}\n\n");
+    // Legacy HTTP+SSE transport for clients that predate Streamable HTTP
+    mountSseTransport(app, {
+        ssePath: "/sse",
+        messagesPath: "/messages",
+        createServer: () => createServer(),
+        keepAliveMs: parseInt(env.MCP_SSE_KEEPALIVE_MS || "15000"),
     });
 
     // Health check endpoint
@@ -335,7 +305,8 @@ async function main() {
             version: "1.0.0",
             endpoints: {
                 mcp: "/mcp",
-                sse: "/sse", 
+                sse: "/sse",
+                messages: "/messages",
                 health: "/health"
             },
             documentation: "https://github.com/HenkDz/selfhosted-supabase-mcp"
@@ -346,6 +317,7 @@ async function main() {
     
     console.log(`Server starting on port ${port}`);
     console.log(`MCP endpoint: http://localhost:${port}/mcp`);
+    console.log(`SSE endpoint: http://localhost:${port}/sse`);
     console.log(`Health check: http://localhost:${port}/health`);
 
     serve({
@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Hono } from 'hono';
+import { sign } from 'hono/jwt';
+import { describe, expect, it } from 'vitest';
+import { createAuthMiddleware, createCorsMiddleware, loadAuthConfig, UNAUTHORIZED_ERROR_CODE } from './auth.js';
+import type { AuthVariables, RemoteAuthConfig } from './auth.js';
+
+const JWT_SECRET = 'super-secret-jwt-token-with-at-least-32-characters';
+
+const config = (overrides: Partial<RemoteAuthConfig> = {}): RemoteAuthConfig => ({
+    apiKeys: ['key-one', 'key-two'],
+    jwtSecret: JWT_SECRET,
+    allowedJwtRoles: ['service_role'],
+    disabled: false,
+    ...overrides,
+});
+
+// An /mcp endpoint behind the middleware, answering with the caller identity
+function app(authConfig: RemoteAuthConfig, env: NodeJS.ProcessEnv = {}) {
+    const app = new Hono<{ Variables: AuthVariables }>();
+    app.use('*', createCorsMiddleware(env));
+    app.use('/mcp', createAuthMiddleware(authConfig));
+    app.post('/mcp', (c) => c.json(c.get('auth')));
+    return app;
+}
+
+const post = (authConfig: RemoteAuthConfig, authorization?: string) =>
+    app(authConfig).request('/mcp', { method: 'POST', headers: authorization ? { Authorization: authorization } : {} });
+
+const jwt = (claims: Record<string, unknown>, secret = JWT_SECRET) =>
+    sign({ exp: Math.floor(Date.now() / 1000) + 60, ...claims }, secret, 'HS256');
+
+async function expectUnauthorized(response: Response, message: RegExp) {
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toMatch(/^Bearer realm="mcp", error="invalid_token"/);
+    const body = await response.json();
+    expect(body).toMatchObject({ jsonrpc: '2.0', id: null, error: { code: UNAUTHORIZED_ERROR_CODE } });
+    expect(body.error.message).toMatch(message);
+}
+
+describe('createAuthMiddleware', () => {
+    it('rejects requests without a bearer token', async () => {
+        await expectUnauthorized(await post(config()), /Missing bearer token/);
+        await expectUnauthorized(await post(config(), 'Basic a2V5LW9uZTo='), /Missing bearer token/);
+    });
+
+    it('rejects unknown tokens and JWTs that fail verification', async () => {
+        await expectUnauthorized(await post(config(), 'Bearer key-three'), /Invalid bearer token/);
+        await expectUnauthorized(await post(config(), `Bearer ${await jwt({ role: 'service_role' }, 'another-secret-of-at-least-32-characters')}`), /Invalid JWT/);
+        await expectUnauthorized(await post(config(), `Bearer ${await jwt({ role: 'service_role', exp: 1 })}`), /Invalid JWT/);
+        await expectUnauthorized(await post(config({ jwtSecret: undefined }), `Bearer ${await jwt({ role: 'service_role' })}`), /Invalid bearer token/);
+    });
+
+    it('rejects JWTs with a role outside the allowed roles', async () => {
+        await expectUnauthorized(await post(config(), `Bearer ${await jwt({ role: 'anon' })}`), /role "anon" is not allowed/);
+        await expectUnauthorized(await post(config(), `Bearer ${await jwt({ sub: 'user-1' })}`), /role "none" is not allowed/);
+        const authenticated = await post(config({ allowedJwtRoles: ['authenticated'] }), `Bearer ${await jwt({ role: 'authenticated', sub: 'user-1' })}`);
+        expect(authenticated.status).toBe(200);
+    });
+
+    it('accepts a configured API key', async () => {
+        const response = await post(config(), 'bearer  key-two ');
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ token: 'key-two', clientId: 'api-key:2', scopes: [], extra: { method: 'api_key' } });
+    });
+
+    it('accepts a service_role JWT', async () => {
+        const token = await jwt({ role: 'service_role', sub: 'service' });
+        const response = await post(config(), `Bearer ${token}`);
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ token, clientId: 'service', scopes: ['service_role'], extra: { method: 'jwt', role: 'service_role' } });
+    });
+
+    it('lets every request through when explicitly disabled', async () => {
+        const response = await post(config({ apiKeys: [], jwtSecret: undefined, disabled: true }));
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ clientId: 'anonymous', extra: { method: 'none' } });
+    });
+});
+
+describe('loadAuthConfig', () => {
+    it('reads keys from the environment and a keys file, and defaults the JWT roles', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'auth-'));
+        try {
+            const keysFile = join(dir, 'keys');
+            writeFileSync(keysFile, '# team keys\nkey-three\n\n key-four \n');
+
+            expect(loadAuthConfig({ MCP_API_KEYS: 'key-one, key-two', MCP_API_KEYS_FILE: keysFile })).toEqual({
+                apiKeys: ['key-one', 'key-two', 'key-three', 'key-four'],
+                jwtSecret: undefined,
+                allowedJwtRoles: ['service_role'],
+                disabled: false,
+            });
+            expect(() => loadAuthConfig({ MCP_API_KEYS_FILE: join(dir, 'missing') })).toThrow(/not found/);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('is only disabled by MCP_AUTH_DISABLED=true', () => {
+        expect(loadAuthConfig({ MCP_AUTH_DISABLED: 'true', MCP_AUTH_JWT_ROLES: 'service_role,authenticated' })).toMatchObject({
+            disabled: true,
+            allowedJwtRoles: ['service_role', 'authenticated'],
+        });
+        expect(loadAuthConfig({ MCP_AUTH_DISABLED: '1' }).disabled).toBe(false);
+    });
+});
+
+describe('createCorsMiddleware', () => {
+    const preflight = (env: NodeJS.ProcessEnv, origin: string) => app(config(), env).request('/mcp', {
+        method: 'OPTIONS',
+        headers: { Origin: origin, 'Access-Control-Request-Method': 'POST' },
+    });
+
+    it('grants listed origins only', async () => {
+        const env = { MCP_CORS_ORIGINS: 'https://app.example.com' };
+
+        const allowed = await preflight(env, 'https://app.example.com');
+        expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+        expect(allowed.headers.get('Access-Control-Allow-Headers')).toContain('Authorization');
+
+        const disallowed = await preflight(env, 'https://evil.example.com');
+        expect(disallowed.headers.get('Access-Control-Allow-Origin')).toBeNull();
+        const simple = await app(config(), env).request('/mcp', { method: 'POST', headers: { Origin: 'https://evil.example.com', Authorization: 'Bearer key-one' } });
+        expect(simple.status).toBe(200);
+        expect(simple.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    });
+
+    it('grants no origin when unset, and any with "*"', async () => {
+        expect((await preflight({}, 'https://app.example.com')).headers.get('Access-Control-Allow-Origin')).toBeNull();
+        expect((await preflight({ MCP_CORS_ORIGINS: '*' }, 'https://app.example.com')).headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+});
@@ -0,0 +1,173 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { Context, MiddlewareHandler } from "hono";
+import { cors } from "hono/cors";
+import { verify } from "hono/jwt";
+import { createHash, timingSafeEqual } from "node:crypto";
+import * as fs from "node:fs";
+
+/**
+ * Authentication settings for the remote HTTP server.
+ */
+export interface RemoteAuthConfig {
+    apiKeys: string[];           // Static bearer tokens accepted as-is
+    jwtSecret?: string;          // SUPABASE_AUTH_JWT_SECRET, enables Supabase JWT verification
+    allowedJwtRoles: string[];   // JWT `role` claims that may use the server
+    disabled: boolean;           // Explicit opt-out (MCP_AUTH_DISABLED=true)
+}
+
+/**
+ * Hono context variables populated by the auth middleware.
+ */
+export type AuthVariables = {
+    auth: AuthInfo;
+};
+
+// JSON-RPC error code used for authentication failures (implementation-defined server error range)
+export const UNAUTHORIZED_ERROR_CODE = -32001;
+
+function splitList(value: string | undefined): string[] {
+    return (value || "")
+        .split(/[,\n]/)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0 && !item.startsWith("#"));
+}
+
+/**
+ * Builds the auth configuration from environment variables.
+ *
+ * - `MCP_API_KEYS`: comma-separated list of static API keys
+ * - `MCP_API_KEYS_FILE`: file with one API key per line (lines starting with # are ignored)
+ * - `SUPABASE_AUTH_JWT_SECRET`: verifies Supabase-style HS256 JWTs
+ * - `MCP_AUTH_JWT_ROLES`: JWT roles allowed to connect (default: service_role)
+ * - `MCP_AUTH_DISABLED`: set to "true" to run without authentication
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): RemoteAuthConfig {
+    const apiKeys = splitList(env.MCP_API_KEYS);
+
+    if (env.MCP_API_KEYS_FILE) {
+        if (!fs.existsSync(env.MCP_API_KEYS_FILE)) {
+            throw new Error(`API keys file not found at ${env.MCP_API_KEYS_FILE}`);
+        }
+        apiKeys.push(...splitList(fs.readFileSync(env.MCP_API_KEYS_FILE, "utf-8")));
+    }
+
+    const allowedJwtRoles = splitList(env.MCP_AUTH_JWT_ROLES);
+
+    return {
+        apiKeys,
+        jwtSecret: env.SUPABASE_AUTH_JWT_SECRET || undefined,
+        allowedJwtRoles: allowedJwtRoles.length > 0 ? allowedJwtRoles : ["service_role"],
+        disabled: env.MCP_AUTH_DISABLED === "true",
+    };
+}
+
+/**
+ * Compares two secrets in constant time (hashing first so lengths always match).
+ */
+function secretsEqual(a: string, b: string): boolean {
+    const hashA = createHash("sha256").update(a).digest();
+    const hashB = createHash("sha256").update(b).digest();
+    return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Validates a bearer token against the configured API keys and JWT secret.
+ * Returns the caller identity on success, or throws with the reason on failure.
+ */
+export async function authenticateToken(token: string, config: RemoteAuthConfig): Promise<AuthInfo> {
+    const matchedKeyIndex = config.apiKeys.findIndex((key) => secretsEqual(key, token));
+    if (matchedKeyIndex !== -1) {
+        return {
+            token,
+            clientId: `api-key:${matchedKeyIndex + 1}`,
+            scopes: [],
+            extra: { method: "api_key" },
+        };
+    }
+
+    // Only tokens shaped like a JWT are worth verifying
+    if (config.jwtSecret && token.split(".").length === 3) {
+        let payload: Record<string, unknown>;
+        try {
+            payload = await verify(token, config.jwtSecret, "HS256");
+        } catch (error) {
+            throw new Error(`Invalid JWT: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const role = typeof payload.role === "string" ? payload.role : undefined;
+        if (!role || !config.allowedJwtRoles.includes(role)) {
+            throw new Error(`JWT role "${role ?? "none"}" is not allowed to access this server`);
+        }
+
+        return {
+            token,
+            clientId: typeof payload.sub === "string" ? payload.sub : `jwt:${role}`,
+            scopes: [role],
+            expiresAt: typeof payload.exp === "number" ? payload.exp : undefined,
+            extra: { method: "jwt", role, claims: payload },
+        };
+    }
+
+    throw new Error("Invalid bearer token");
+}
+
+function unauthorized(c: Context, message: string) {
+    c.header("WWW-Authenticate", `Bearer realm="mcp", error="invalid_token", error_description="${message.replace(/"/g, "'")}"`);
+    return c.json({
+        jsonrpc: "2.0",
+        id: null,
+        error: {
+            code: UNAUTHORIZED_ERROR_CODE,
+            message: `Unauthorized: ${message}`,
+        },
+    }, 401);
+}
+
+/**
+ * Hono middleware enforcing bearer-token authentication.
+ * On success the caller identity is available as `c.get("auth")`.
+ */
+export function createAuthMiddleware(config: RemoteAuthConfig): MiddlewareHandler<{ Variables: AuthVariables }> {
+    return async (c, next) => {
+        if (c.req.method === "OPTIONS") {
+            return next();
+        }
+
+        if (config.disabled) {
+            c.set("auth", { token: "", clientId: "anonymous", scopes: [], extra: { method: "none" } });
+            return next();
+        }
+
+        const header = c.req.header("Authorization");
+        const match = header?.match(/^Bearer\s+(.+)$/i);
+        if (!match) {
+            return unauthorized(c, "Missing bearer token");
+        }
+
+        try {
+            c.set("auth", await authenticateToken(match[1].trim(), config));
+        } catch (error) {
+            return unauthorized(c, error instanceof Error ? error.message : String(error));
+        }
+
+        await next();
+    };
+}
+
+/**
+ * CORS middleware restricted to the origins listed in `MCP_CORS_ORIGINS` (comma-separated).
+ * Use "*" explicitly to allow any origin. When unset, no cross-origin access is granted.
+ */
+export function createCorsMiddleware(env: NodeJS.ProcessEnv = process.env): MiddlewareHandler {
+    const origins = splitList(env.MCP_CORS_ORIGINS);
+
+    return cors({
+        origin: (origin) => {
+            if (origins.includes("*")) return "*";
+            return origins.includes(origin) ? origin : null;
+        },
+        allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+        allowHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id", "Last-Event-ID"],
+        exposeHeaders: ["Mcp-Session-Id"],
+    });
+}
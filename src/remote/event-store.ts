@@ -0,0 +1,60 @@
+import type { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StoredEvent {
+    streamId: StreamId;
+    message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store enabling resumable Streamable HTTP streams.
+ * Clients reconnecting with a `Last-Event-ID` header receive the events they missed.
+ * Keeps at most `maxEvents` events per session; the oldest are evicted first.
+ */
+export class InMemoryEventStore implements EventStore {
+    private events = new Map<EventId, StoredEvent>();
+    private counter = 0;
+
+    constructor(private readonly maxEvents = 1000) {}
+
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        // Event IDs embed the stream ID so they can be mapped back on replay
+        const eventId = `${streamId}_${Date.now()}_${++this.counter}`;
+        this.events.set(eventId, { streamId, message });
+
+        if (this.events.size > this.maxEvents) {
+            const oldest = this.events.keys().next().value;
+            if (oldest !== undefined) this.events.delete(oldest);
+        }
+
+        return eventId;
+    }
+
+    async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+        return this.events.get(eventId)?.streamId;
+    }
+
+    async replayEventsAfter(
+        lastEventId: EventId,
+        { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+    ): Promise<StreamId> {
+        const lastEvent = this.events.get(lastEventId);
+        if (!lastEvent) {
+            return "";
+        }
+
+        // Map preserves insertion order, so everything after lastEventId is newer
+        let found = false;
+        for (const [eventId, event] of this.events) {
+            if (eventId === lastEventId) {
+                found = true;
+                continue;
+            }
+            if (found && event.streamId === lastEvent.streamId) {
+                await send(eventId, event.message);
+            }
+        }
+
+        return lastEvent.streamId;
+    }
+}
@@ -0,0 +1,122 @@
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { HttpBindings } from "@hono/node-server";
+import { RESPONSE_ALREADY_SENT } from "@hono/node-server/utils/response";
+import type { Hono } from "hono";
+import type { AuthVariables } from "./auth.js";
+
+/**
+ * Anything that can be connected to a transport (both `Server` and `McpServer` qualify).
+ */
+interface ConnectableServer {
+    connect(transport: Transport): Promise<void>;
+    close(): Promise<void>;
+}
+
+export interface SseTransportOptions {
+    ssePath: string;         // GET endpoint opening the event stream
+    messagesPath: string;    // POST endpoint receiving client messages (?sessionId=...)
+    createServer: (authInfo: AuthInfo) => ConnectableServer | Promise<ConnectableServer>;
+    keepAliveMs?: number;    // Interval between keepalive comments, 0 disables them
+}
+
+interface SseSession {
+    transport: SSEServerTransport;
+    clientId: string;   // Identity that opened the stream; other callers may not post to it
+}
+
+type SseApp = Hono<{ Bindings: HttpBindings; Variables: AuthVariables }>;
+
+/**
+ * Mounts the legacy HTTP+SSE transport (protocol version 2024-11-05) on a Hono app.
+ *
+ * A client opens a long-lived `GET ssePath` stream, receives an `endpoint` event pointing
+ * at `messagesPath?sessionId=...`, and POSTs its JSON-RPC messages there. Responses are
+ * delivered over the stream. Must run on @hono/node-server since the SDK transport writes
+ * to the Node.js response directly. Authentication is expected to run before these routes.
+ */
+export function mountSseTransport(app: SseApp, options: SseTransportOptions): Map<string, SseSession> {
+    const sessions = new Map<string, SseSession>();
+    const keepAliveMs = options.keepAliveMs ?? 15_000;
+
+    app.get(options.ssePath, async (c) => {
+        const { outgoing } = c.env;
+        const authInfo = c.get("auth");
+
+        // The SDK writes the response head itself; carry over headers set by middleware (CORS)
+        c.res.headers.forEach((value, key) => outgoing.setHeader(key, value));
+        outgoing.setHeader("X-Accel-Buffering", "no");
+
+        const transport = new SSEServerTransport(options.messagesPath, outgoing);
+        const sessionId = transport.sessionId;
+        sessions.set(sessionId, { transport, clientId: authInfo.clientId });
+
+        let keepAlive: ReturnType<typeof setInterval> | undefined;
+        if (keepAliveMs > 0) {
+            keepAlive = setInterval(() => {
+                if (!outgoing.writableEnded) outgoing.write(": ping\n\n");
+            }, keepAliveMs);
+            keepAlive.unref();
+        }
+
+        let server: ConnectableServer | undefined;
+        let closed = false;
+        const cleanup = () => {
+            if (closed) return;
+            closed = true;
+            clearInterval(keepAlive);
+            sessions.delete(sessionId);
+            server?.close().catch((error) => console.error(`Error closing SSE session ${sessionId}:`, error));
+            console.log(`SSE session closed: ${sessionId}`);
+        };
+        transport.onclose = cleanup;
+        outgoing.on("close", cleanup);
+
+        try {
+            server = await options.createServer(authInfo);
+            // connect() starts the transport, which sends the endpoint event
+            await server.connect(transport);
+        } catch (error) {
+            console.error(`Failed to open SSE session ${sessionId}:`, error);
+            cleanup();
+            // Once the transport has started, the stream head is out and an error body can't follow
+            if (outgoing.headersSent) {
+                outgoing.end();
+                return RESPONSE_ALREADY_SENT;
+            }
+            return c.json({ jsonrpc: "2.0", id: null, error: { code: -32603, message: "Internal error: could not open SSE session" } }, 500);
+        }
+        console.log(`SSE session opened: ${sessionId} (client: ${authInfo.clientId})`);
+
+        return RESPONSE_ALREADY_SENT;
+    });
+
+    app.post(options.messagesPath, async (c) => {
+        const sessionId = c.req.query("sessionId");
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        const authInfo = c.get("auth");
+
+        if (!session) {
+            return c.json({ jsonrpc: "2.0", id: null, error: { code: -32001, message: "Session not found" } }, 404);
+        }
+        if (session.clientId !== authInfo.clientId) {
+            return c.json({ jsonrpc: "2.0", id: null, error: { code: -32001, message: "Session belongs to a different client" } }, 403);
+        }
+
+        let body: unknown;
+        try {
+            body = await c.req.json();
+        } catch {
+            return c.json({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error: Invalid JSON" } }, 400);
+        }
+
+        // Attach the caller identity so request handlers receive it as extra.authInfo
+        const incoming = Object.assign(c.env.incoming, { auth: authInfo });
+        await session.transport.handlePostMessage(incoming, c.env.outgoing, body);
+
+        return RESPONSE_ALREADY_SENT;
+    });
+
+    return sessions;
+}
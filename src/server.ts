@@ -0,0 +1,169 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+    CallToolRequestSchema,
+    ErrorCode,
+    ListToolsRequestSchema,
+    McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { callerFromAuthInfo, countRows } from './audit/index.js';
+import type { AuditLog, AuditRecord } from './audit/index.js';
+import { applyPolicyToInputSchema, checkToolArguments, CONFIRM_ARGUMENT } from './policy/index.js';
+import type { ToolRegistry } from './tools/registry.js';
+import { toMcpToolSchemas, toStructuredContent } from './tools/schemas.js';
+import type { McpToolSchemas } from './tools/schemas.js';
+import type { ToolContext } from './tools/types.js';
+import type { SqlPathAttempt } from './types/index.js';
+
+// Define the structure expected by MCP for tool definitions
+interface McpToolSchema {
+    name: string;
+    description?: string;
+    // JSON Schemas derived from the tool's Zod schemas
+    inputSchema: object;
+    outputSchema: object;
+}
+
+/**
+ * Result _meta telling which SQL paths (pg, rpc) served the call's queries, and which failed to reach
+ * the database on the way. Empty when the call ran no SQL through them.
+ */
+function sqlPathMeta(attempts: SqlPathAttempt[]): { _meta?: Record<string, unknown> } {
+    if (attempts.length === 0) return {};
+    const failures = attempts.filter((attempt) => attempt.error !== undefined);
+    return {
+        _meta: {
+            sql_paths: [...new Set(attempts.filter((attempt) => attempt.error === undefined).map((attempt) => attempt.path))],
+            ...(failures.length > 0 ? { sql_path_errors: failures } : {}),
+        },
+    };
+}
+
+export interface McpServerOptions {
+    name: string;
+    version: string;
+    registry: ToolRegistry;
+    context: ToolContext;
+    audit?: AuditLog; // Records every tools/call, including refused ones
+}
+
+/**
+ * Creates an MCP Server exposing the enabled tools of a registry, enforcing the registry's tool policy.
+ * Used by both the stdio and the remote entry points. A Server connects to exactly one
+ * transport, so the remote server calls this once per session.
+ */
+export function createMcpServer({ name, version, registry, context, audit }: McpServerOptions): Server {
+    const { availableTools, registeredTools, toolPolicies } = registry;
+
+    const schemas = new Map<string, McpToolSchemas>();
+    const tools: McpToolSchema[] = Object.values(registeredTools).map((tool) => {
+        const toolSchemas = toMcpToolSchemas(tool);
+        schemas.set(tool.name, toolSchemas);
+        return {
+            name: tool.name,
+            description: tool.description || 'Tool description missing',
+            inputSchema: applyPolicyToInputSchema(toolSchemas.inputSchema, toolPolicies[tool.name]),
+            outputSchema: toolSchemas.outputSchema,
+        };
+    });
+
+    const server = new Server(
+        { name, version },
+        { capabilities: { tools: {} } },
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const toolName = request.params.name;
+        const tool = registeredTools[toolName];
+        const startedAt = Date.now();
+
+        const recordCall = (outcome: Pick<AuditRecord, 'success' | 'error' | 'rowCount'>) => audit?.record({
+            timestamp: new Date(startedAt).toISOString(),
+            server: name,
+            sessionId: extra.sessionId,
+            caller: callerFromAuthInfo(extra.authInfo),
+            tool: toolName,
+            arguments: request.params.arguments,
+            durationMs: Date.now() - startedAt,
+            ...outcome,
+        });
+
+        if (!tool) {
+            let error: McpError;
+            // Check if it existed originally but was filtered out
+            if (availableTools[toolName]?.mutating && registry.readOnly) {
+                error = new McpError(ErrorCode.MethodNotFound, `Tool "${toolName}" modifies the database and is disabled because the server is running in read-only mode.`);
+            } else if (availableTools[toolName]) {
+                error = new McpError(ErrorCode.MethodNotFound, `Tool "${toolName}" is available but denied by the tool policy.`);
+            } else {
+                error = new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
+            }
+            await recordCall({ success: false, error: error.message });
+            throw error;
+        }
+
+        const toolPolicy = toolPolicies[toolName];
+        const sqlPaths: SqlPathAttempt[] = [];
+
+        try {
+            let args = request.params.arguments;
+            if (toolPolicy.requireConfirmation) {
+                const { [CONFIRM_ARGUMENT]: confirmed, ...rest } = args ?? {};
+                if (confirmed !== true) {
+                    throw new Error(`Tool policy requires confirmation. Review the arguments and call again with "${CONFIRM_ARGUMENT}": true.`);
+                }
+                args = rest;
+            }
+
+            const parsedArgs = tool.inputSchema.parse(args);
+            const violation = checkToolArguments(toolPolicy, parsedArgs);
+            if (violation) {
+                throw new Error(`Tool policy violation: ${violation}`);
+            }
+
+            // Per-call context: cancellation (which also cancels the call's running query) and progress
+            const progressToken = request.params._meta?.progressToken;
+            const callContext: ToolContext = {
+                ...context,
+                signal: extra.signal,
+                reportProgress: progressToken === undefined ? undefined : (progress, total, message) => extra.sendNotification({
+                    method: 'notifications/progress',
+                    params: { progressToken, progress, total, message },
+                }).catch((error: unknown) => context.log(`Failed to report progress for ${toolName}: ${error}`, 'warn')),
+            };
+            const result = await context.selfhostedClient.runWithCallOptions(
+                { signal: extra.signal, onSqlPath: (attempt) => sqlPaths.push(attempt) },
+                () => tool.execute(parsedArgs, callContext),
+            );
+            const structuredContent = toStructuredContent(tool.outputSchema, result, schemas.get(toolName)?.wrapsOutput ?? true);
+            await recordCall({ success: true, rowCount: countRows(result) });
+
+            return {
+                // Text block kept for clients that don't read structuredContent
+                content: [
+                    {
+                        type: 'text',
+                        text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+                    },
+                ],
+                structuredContent,
+                ...sqlPathMeta(sqlPaths),
+            };
+        } catch (error: unknown) {
+            const errorMessage = error instanceof z.ZodError
+                ? `Input validation failed: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+                : error instanceof Error ? error.message : String(error);
+            context.log(`Tool ${toolName} failed: ${errorMessage}`, 'error');
+            await recordCall({ success: false, error: errorMessage });
+            return {
+                content: [{ type: 'text', text: `Error executing tool ${toolName}: ${errorMessage}` }],
+                isError: true,
+                ...sqlPathMeta(sqlPaths),
+            };
+        }
+    });
+
+    return server;
+}
@@ -0,0 +1,56 @@
+import { RPC_HELPER_SCHEMA } from '../client/rpc-helper.js';
+
+/**
+ * Postgres's own and Supabase's internal schemas, plus this server's RPC helper schema,
+ * which the listing tools leave out unless asked for.
+ */
+export const SYSTEM_SCHEMAS = [
+    'pg_catalog', 'information_schema',
+    'auth', 'storage', 'extensions', 'graphql', 'graphql_public', 'pgbouncer', 'realtime', 'supabase_functions', 'supabase_migrations', '_realtime',
+    RPC_HELPER_SCHEMA,
+];
+
+/**
+ * SYSTEM_SCHEMAS as a list of SQL literals, for `nspname NOT IN (...)`.
+ */
+export const SYSTEM_SCHEMAS_SQL = SYSTEM_SCHEMAS.map((schema) => `'${schema}'`).join(', ');
+
+/**
+ * Expressions describing the pg_trigger row aliased `alias`. tgtype bits: 1 row, 2 before,
+ * 4 insert, 8 delete, 16 update, 32 truncate, 64 instead.
+ */
+export function triggerSql(alias: string): Record<'timing' | 'events' | 'level' | 'function' | 'enabled' | 'definition', string> {
+    const type = `${alias}.tgtype::int`;
+    return {
+        timing: `CASE WHEN ${type} & 2 <> 0 THEN 'BEFORE' WHEN ${type} & 64 <> 0 THEN 'INSTEAD OF' ELSE 'AFTER' END`,
+        events: `array_remove(ARRAY[
+                    CASE WHEN ${type} & 4 <> 0 THEN 'INSERT' END,
+                    CASE WHEN ${type} & 16 <> 0 THEN 'UPDATE' END,
+                    CASE WHEN ${type} & 8 <> 0 THEN 'DELETE' END,
+                    CASE WHEN ${type} & 32 <> 0 THEN 'TRUNCATE' END
+                ], NULL)`,
+        level: `CASE WHEN ${type} & 1 <> 0 THEN 'ROW' ELSE 'STATEMENT' END`,
+        function: `${alias}.tgfoid::regprocedure::text`,
+        enabled: `CASE ${alias}.tgenabled WHEN 'O' THEN 'origin' WHEN 'A' THEN 'always' WHEN 'R' THEN 'replica' ELSE 'disabled' END`,
+        definition: `pg_get_triggerdef(${alias}.oid)`,
+    };
+}
+
+/**
+ * Subquery aggregating the pg_policies of table `schema`.`table` (SQL expressions) into a JSON
+ * array ordered by name, '[]' when there are none.
+ */
+export function policiesSql(schema: string, table: string): string {
+    return `(
+                SELECT COALESCE(json_agg(json_build_object(
+                    'name', p.policyname,
+                    'command', p.cmd,
+                    'permissive', p.permissive = 'PERMISSIVE',
+                    'roles', p.roles,
+                    'using', p.qual,
+                    'with_check', p.with_check
+                ) ORDER BY p.policyname), '[]')
+                FROM pg_catalog.pg_policies p
+                WHERE p.schemaname = ${schema} AND p.tablename = ${table}
+            )`;
+}
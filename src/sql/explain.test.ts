@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { seqScannedRelations, summarizePlan } from './explain.js';
+import type { ExplainOutput, ExplainPlanNode } from './explain.js';
+
+const TABLE_ROWS: Record<string, number> = { 'public.orders': 50_000, 'public.customers': 100, 'public.events': 100_000 };
+const options = { largeTableRows: 10_000, tableRows: (relation: string) => TABLE_ROWS[relation] };
+
+const node = (type: string, cost: [number, number], rows: number, rest: Partial<ExplainPlanNode> = {}): ExplainPlanNode => ({
+    'Node Type': type,
+    'Startup Cost': cost[0],
+    'Total Cost': cost[1],
+    'Plan Rows': rows,
+    ...rest,
+});
+
+// EXPLAIN (FORMAT JSON, VERBOSE) SELECT ... FROM orders o JOIN customers c ON o.customer_id = c.id WHERE o.status = 'open'
+const ESTIMATED: ExplainOutput = {
+    'Plan': node('Hash Join', [10, 1250], 1000, {
+        'Join Type': 'Inner',
+        'Hash Cond': '(o.customer_id = c.id)',
+        'Plans': [
+            node('Seq Scan', [0, 1000], 50_000, { 'Relation Name': 'orders', 'Schema': 'public', 'Alias': 'o', 'Filter': "(o.status = 'open'::text)" }),
+            node('Hash', [20, 20], 100, {
+                'Plans': [node('Seq Scan', [0, 20], 100, { 'Relation Name': 'customers', 'Schema': 'public', 'Alias': 'c' })],
+            }),
+        ],
+    }),
+};
+
+// The same shape with ANALYZE: a sort and a hash spilling to disk, row counts far off the estimates
+const ANALYZED: ExplainOutput = {
+    'Plan': node('Sort', [500, 520], 200, {
+        'Actual Rows': 5000, 'Actual Loops': 1, 'Actual Total Time': 120,
+        'Sort Method': 'external merge', 'Sort Space Used': 2048, 'Sort Space Type': 'Disk',
+        'Plans': [node('Hash Join', [10, 400], 200, {
+            'Join Type': 'Left', 'Hash Cond': '(events.user_id = u.id)',
+            'Actual Rows': 5000, 'Actual Loops': 1, 'Actual Total Time': 80,
+            'Plans': [
+                node('Seq Scan', [0, 300], 100_000, {
+                    'Relation Name': 'events', 'Schema': 'public', 'Alias': 'events',
+                    'Actual Rows': 100_000, 'Actual Loops': 1, 'Actual Total Time': 30,
+                }),
+                node('Hash', [50, 50], 1000, {
+                    'Actual Rows': 1000, 'Actual Loops': 1, 'Actual Total Time': 10, 'Hash Batches': 4,
+                    'Plans': [node('Index Scan', [0.29, 8.3], 1, {
+                        'Index Name': 'users_pkey', 'Relation Name': 'users', 'Schema': 'public', 'Alias': 'u', 'Index Cond': '(u.id = 1)',
+                        'Actual Rows': 1, 'Actual Loops': 1000, 'Actual Total Time': 0.004,
+                    })],
+                }),
+            ],
+        })],
+    }),
+    'Planning Time': 0.5,
+    'Execution Time': 121.5,
+};
+
+describe('summarizePlan', () => {
+    it('condenses an estimated plan and weighs nodes by their own cost', () => {
+        expect(summarizePlan(ESTIMATED, options)).toEqual({
+            analyzed: false,
+            totalCost: 1250,
+            plan: [
+                '#1 Hash Join  cost=10..1250 rows=1000  hash cond: (o.customer_id = c.id)',
+                "  #2 Seq Scan on public.orders o  cost=0..1000 rows=50000  filter: (o.status = 'open'::text)",
+                '  #3 Hash  cost=20..20 rows=100',
+                '    #4 Seq Scan on public.customers c  cost=0..20 rows=100',
+            ],
+            findings: [
+                { node: 2, kind: 'seq_scan', message: 'Sequential scan on public.orders (about 50000 rows). Consider an index for its filter.' },
+                { node: 2, kind: 'expensive', message: '80% of the estimated cost is in this node.' },
+                { node: 1, kind: 'expensive', message: '18% of the estimated cost is in this node.' },
+            ],
+        });
+    });
+
+    it('flags sequential scans from the large-table threshold up, on tables of known size', () => {
+        const seqScans = (largeTableRows: number, tableRows: (relation: string) => number | undefined) =>
+            summarizePlan(ESTIMATED, { largeTableRows, tableRows }).findings.filter((finding) => finding.kind === 'seq_scan').map((finding) => finding.node);
+
+        expect(seqScans(100, options.tableRows)).toEqual([2, 4]);
+        expect(seqScans(50_001, options.tableRows)).toEqual([]);
+        expect(seqScans(100, () => undefined)).toEqual([]);
+    });
+
+    it('reports misestimates, spills and where the time goes in an analyzed plan', () => {
+        const summary = summarizePlan(ANALYZED, options);
+
+        expect(summary).toMatchObject({ analyzed: true, totalCost: 520, planningTimeMs: 0.5, executionTimeMs: 121.5 });
+        expect(summary.plan).toEqual([
+            '#1 Sort  cost=500..520 rows=200  actual rows=5000 loops=1 time=120ms  sort=external merge (Disk 2048kB)',
+            '  #2 Hash Join (Left)  cost=10..400 rows=200  actual rows=5000 loops=1 time=80ms  hash cond: (events.user_id = u.id)',
+            '    #3 Seq Scan on public.events  cost=0..300 rows=100000  actual rows=100000 loops=1 time=30ms',
+            '    #4 Hash  cost=50..50 rows=1000  actual rows=1000 loops=1 time=10ms  batches=4',
+            '      #5 Index Scan using users_pkey on public.users u  cost=0.29..8.30 rows=1  actual rows=1 loops=1000 time=4ms  index cond: (u.id = 1)',
+        ]);
+        expect(summary.findings).toEqual([
+            { node: 1, kind: 'misestimate', message: 'Estimated 200 rows but got 5000 (25x more). Statistics may be stale; try ANALYZE on the tables involved.' },
+            { node: 1, kind: 'sort_spill', message: 'Sort spilled to disk (external merge, 2048kB). Raising work_mem or sorting fewer rows would keep it in memory.' },
+            { node: 2, kind: 'misestimate', message: 'Estimated 200 rows but got 5000 (25x more). Statistics may be stale; try ANALYZE on the tables involved.' },
+            { node: 3, kind: 'seq_scan', message: 'Sequential scan on public.events (about 100000 rows). Consider an index for its filter.' },
+            { node: 4, kind: 'hash_spill', message: 'Hash used 4 batches, spilling to disk. Raising work_mem would keep it in memory.' },
+            // Self time: 120 - 80, 80 - (30 + 10), 30 of 120ms; the index scan's 4ms count over its 1000 loops
+            { node: 1, kind: 'expensive', message: '33% of execution time (40ms) is spent in this node.' },
+            { node: 2, kind: 'expensive', message: '33% of execution time (40ms) is spent in this node.' },
+            { node: 3, kind: 'expensive', message: '25% of execution time (30ms) is spent in this node.' },
+        ]);
+    });
+
+    it('leaves small or close row estimates, and nodes that never ran, alone', () => {
+        const misestimates = (rows: number, actual: number, loops = 1) => summarizePlan({
+            'Plan': node('Seq Scan', [0, 10], rows, { 'Actual Rows': actual, 'Actual Loops': loops, 'Actual Total Time': 1 }),
+        }, options).findings.filter((finding) => finding.kind === 'misestimate').map((finding) => finding.message);
+
+        expect(misestimates(1, 99)).toEqual([]);
+        expect(misestimates(100, 999)).toEqual([]);
+        expect(misestimates(1000, 0, 0)).toEqual([]);
+        expect(misestimates(1000, 100)).toEqual([
+            'Estimated 1000 rows but got 100 (10x fewer). Statistics may be stale; try ANALYZE on the tables involved.',
+        ]);
+    });
+
+    it('labels nodes like text EXPLAIN', () => {
+        const summary = summarizePlan({
+            'Plan': node('ModifyTable', [0, 50], 0, {
+                'Operation': 'Insert', 'Relation Name': 'audit', 'Schema': 'public', 'Alias': 'audit',
+                'Plans': [node('Aggregate', [20, 50], 10, {
+                    'Strategy': 'Hashed',
+                    'Plans': [node('Sort', [10, 20], 100, { 'Sort Method': 'quicksort', 'Sort Space Used': 25, 'Sort Space Type': 'Memory' })],
+                })],
+            }),
+        }, options);
+
+        expect(summary.plan).toEqual([
+            '#1 Insert on public.audit  cost=0..50 rows=0',
+            '  #2 Hashed Aggregate  cost=20..50 rows=10',
+            '    #3 Sort  cost=10..20 rows=100  sort=quicksort (Memory 25kB)',
+        ]);
+        expect(summary.findings.map((finding) => finding.kind)).toEqual(['expensive', 'expensive']);
+    });
+});
+
+describe('seqScannedRelations', () => {
+    it('lists each sequentially scanned table once', () => {
+        const output: ExplainOutput = {
+            'Plan': node('Append', [0, 30], 30, {
+                'Plans': [
+                    node('Seq Scan', [0, 10], 10, { 'Relation Name': 'orders', 'Schema': 'public' }),
+                    node('Seq Scan', [0, 10], 10, { 'Relation Name': 'orders', 'Schema': 'public' }),
+                    node('Index Scan', [0, 10], 10, { 'Relation Name': 'customers', 'Schema': 'public', 'Index Name': 'customers_pkey' }),
+                    node('Seq Scan', [0, 0], 1, { 'Relation Name': 'archive', 'Schema': 'history' }),
+                ],
+            }),
+        };
+
+        expect(seqScannedRelations(output)).toEqual(['public.orders', 'history.archive']);
+        expect(seqScannedRelations(ESTIMATED)).toEqual(['public.orders', 'public.customers']);
+    });
+});
@@ -0,0 +1,232 @@
+/**
+ * Condenses EXPLAIN (FORMAT JSON) output into a readable plan tree and points out the usual suspects:
+ * sequential scans on large tables, misestimated row counts, sorts and hashes spilling to disk,
+ * and the nodes where most of the time (or cost) goes.
+ */
+
+/**
+ * A node of EXPLAIN (FORMAT JSON) output. Only the keys used here are listed; Postgres adds many more.
+ */
+export interface ExplainPlanNode {
+    'Node Type': string;
+    'Relation Name'?: string;
+    'Schema'?: string;          // With VERBOSE
+    'Alias'?: string;
+    'Index Name'?: string;
+    'Join Type'?: string;
+    'Strategy'?: string;
+    'Startup Cost': number;
+    'Total Cost': number;
+    'Plan Rows': number;
+    'Actual Rows'?: number;     // With ANALYZE, per loop
+    'Actual Total Time'?: number;
+    'Actual Loops'?: number;
+    'Sort Method'?: string;
+    'Sort Space Used'?: number;
+    'Sort Space Type'?: string; // Memory or Disk
+    'Hash Batches'?: number;
+    'Peak Memory Usage'?: number;
+    'Plans'?: ExplainPlanNode[];
+    [key: string]: unknown;
+}
+
+export interface ExplainOutput {
+    'Plan': ExplainPlanNode;
+    'Planning Time'?: number;
+    'Execution Time'?: number;
+}
+
+export type PlanFindingKind = 'seq_scan' | 'misestimate' | 'sort_spill' | 'hash_spill' | 'expensive';
+
+export interface PlanFinding {
+    node: number; // Node number, as shown in the plan lines
+    kind: PlanFindingKind;
+    message: string;
+}
+
+export interface PlanSummary {
+    analyzed: boolean;
+    totalCost: number;
+    planningTimeMs?: number;
+    executionTimeMs?: number;
+    plan: string[]; // One line per node, indented by depth
+    findings: PlanFinding[];
+}
+
+export interface PlanSummaryOptions {
+    largeTableRows: number;                // Seq scans on tables with at least this many rows are flagged
+    tableRows: (relation: string) => number | undefined; // Estimated rows of a schema-qualified table
+}
+
+const MISESTIMATE_FACTOR = 10;  // Actual vs. estimated rows, either way
+const MISESTIMATE_MIN_ROWS = 100;
+const EXPENSIVE_NODES = 3;
+const CONDITION_KEYS = ['Index Cond', 'Recheck Cond', 'Hash Cond', 'Merge Cond', 'Join Filter', 'Filter'];
+
+interface FlatNode {
+    id: number;
+    depth: number;
+    node: ExplainPlanNode;
+    selfCost: number;
+    selfTimeMs?: number;
+}
+
+function qualifiedRelation(node: ExplainPlanNode): string | undefined {
+    const relation = node['Relation Name'];
+    if (!relation) return undefined;
+    return node['Schema'] ? `${node['Schema']}.${relation}` : relation;
+}
+
+// Total time spent in a node over all its loops
+function totalTimeMs(node: ExplainPlanNode): number | undefined {
+    const time = node['Actual Total Time'];
+    return time === undefined ? undefined : time * (node['Actual Loops'] ?? 1);
+}
+
+function flattenPlan(root: ExplainPlanNode): FlatNode[] {
+    const nodes: FlatNode[] = [];
+    const visit = (node: ExplainPlanNode, depth: number) => {
+        const children = node['Plans'] ?? [];
+        const childCost = children.reduce((sum, child) => sum + child['Total Cost'], 0);
+        const time = totalTimeMs(node);
+        const flat: FlatNode = {
+            id: nodes.length + 1,
+            depth,
+            node,
+            selfCost: Math.max(0, node['Total Cost'] - childCost),
+        };
+        if (time !== undefined) {
+            const childTime = children.reduce((sum, child) => sum + (totalTimeMs(child) ?? 0), 0);
+            flat.selfTimeMs = Math.max(0, time - childTime);
+        }
+        nodes.push(flat);
+        for (const child of children) visit(child, depth + 1);
+    };
+    visit(root, 0);
+    return nodes;
+}
+
+function formatNumber(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function describeNode(flat: FlatNode): string {
+    const node = flat.node;
+    // Like text EXPLAIN, ModifyTable shows as Insert, Update, Delete or Merge
+    let label = node['Node Type'] === 'ModifyTable' && typeof node['Operation'] === 'string' ? node['Operation'] : node['Node Type'];
+    if (node['Strategy'] && node['Node Type'] === 'Aggregate') label = `${node['Strategy']} ${label}`;
+    if (node['Join Type'] && node['Join Type'] !== 'Inner') label += ` (${node['Join Type']})`;
+    if (node['Index Name']) label += ` using ${node['Index Name']}`;
+    const relation = qualifiedRelation(node);
+    if (relation) {
+        label += ` on ${relation}`;
+        if (node['Alias'] && node['Alias'] !== node['Relation Name']) label += ` ${node['Alias']}`;
+    }
+
+    const parts = [`#${flat.id} ${label}`, `cost=${formatNumber(node['Startup Cost'])}..${formatNumber(node['Total Cost'])} rows=${node['Plan Rows']}`];
+    if (node['Actual Rows'] !== undefined) {
+        parts.push(`actual rows=${node['Actual Rows']} loops=${node['Actual Loops'] ?? 1} time=${formatNumber(totalTimeMs(node) ?? 0)}ms`);
+    }
+    if (node['Sort Method']) {
+        parts.push(`sort=${node['Sort Method']}${node['Sort Space Type'] ? ` (${node['Sort Space Type']} ${node['Sort Space Used']}kB)` : ''}`);
+    }
+    if (node['Hash Batches'] !== undefined && node['Hash Batches'] > 1) {
+        parts.push(`batches=${node['Hash Batches']}`);
+    }
+    for (const key of CONDITION_KEYS) {
+        if (typeof node[key] === 'string') parts.push(`${key.toLowerCase()}: ${node[key]}`);
+    }
+    return `${'  '.repeat(flat.depth)}${parts.join('  ')}`;
+}
+
+function findIssues(flat: FlatNode, options: PlanSummaryOptions): PlanFinding[] {
+    const node = flat.node;
+    const findings: PlanFinding[] = [];
+
+    const relation = qualifiedRelation(node);
+    if (node['Node Type'] === 'Seq Scan' && relation) {
+        const tableRows = options.tableRows(relation);
+        if (tableRows !== undefined && tableRows >= options.largeTableRows) {
+            findings.push({
+                node: flat.id,
+                kind: 'seq_scan',
+                message: `Sequential scan on ${relation} (about ${Math.round(tableRows)} rows). Consider an index for its filter.`,
+            });
+        }
+    }
+
+    const actual = node['Actual Rows'];
+    if (actual !== undefined && (node['Actual Loops'] ?? 1) > 0) {
+        const estimated = node['Plan Rows'];
+        const factor = Math.max(actual, 1) / Math.max(estimated, 1);
+        if ((factor >= MISESTIMATE_FACTOR || factor <= 1 / MISESTIMATE_FACTOR) && Math.max(actual, estimated) >= MISESTIMATE_MIN_ROWS) {
+            findings.push({
+                node: flat.id,
+                kind: 'misestimate',
+                message: `Estimated ${estimated} rows but got ${actual} (${factor >= 1 ? `${Math.round(factor)}x more` : `${Math.round(1 / factor)}x fewer`}). Statistics may be stale; try ANALYZE on the tables involved.`,
+            });
+        }
+    }
+
+    if (node['Sort Space Type'] === 'Disk' || node['Sort Method']?.startsWith('external')) {
+        findings.push({
+            node: flat.id,
+            kind: 'sort_spill',
+            message: `Sort spilled to disk (${node['Sort Method'] ?? 'external'}, ${node['Sort Space Used'] ?? '?'}kB). Raising work_mem or sorting fewer rows would keep it in memory.`,
+        });
+    }
+    if (node['Hash Batches'] !== undefined && node['Hash Batches'] > 1) {
+        findings.push({
+            node: flat.id,
+            kind: 'hash_spill',
+            message: `Hash used ${node['Hash Batches']} batches, spilling to disk. Raising work_mem would keep it in memory.`,
+        });
+    }
+    return findings;
+}
+
+/**
+ * Summarizes the output of EXPLAIN (FORMAT JSON), with or without ANALYZE.
+ */
+export function summarizePlan(output: ExplainOutput, options: PlanSummaryOptions): PlanSummary {
+    const nodes = flattenPlan(output['Plan']);
+    const analyzed = output['Plan']['Actual Rows'] !== undefined;
+    const findings = nodes.flatMap((flat) => findIssues(flat, options));
+
+    // Where the time (with ANALYZE) or the estimated cost goes, excluding what children account for
+    const weight = (flat: FlatNode) => analyzed ? flat.selfTimeMs ?? 0 : flat.selfCost;
+    const total = nodes.reduce((sum, flat) => sum + weight(flat), 0);
+    if (total > 0) {
+        const expensive = [...nodes].sort((a, b) => weight(b) - weight(a)).slice(0, EXPENSIVE_NODES);
+        for (const flat of expensive) {
+            const share = weight(flat) / total;
+            if (share < 0.1) break;
+            findings.push({
+                node: flat.id,
+                kind: 'expensive',
+                message: analyzed
+                    ? `${Math.round(share * 100)}% of execution time (${formatNumber(flat.selfTimeMs ?? 0)}ms) is spent in this node.`
+                    : `${Math.round(share * 100)}% of the estimated cost is in this node.`,
+            });
+        }
+    }
+
+    return {
+        analyzed,
+        totalCost: output['Plan']['Total Cost'],
+        planningTimeMs: output['Planning Time'],
+        executionTimeMs: output['Execution Time'],
+        plan: nodes.map(describeNode),
+        findings,
+    };
+}
+
+/**
+ * Schema-qualified names of the tables scanned sequentially, to look up their sizes.
+ */
+export function seqScannedRelations(output: ExplainOutput): string[] {
+    return [...new Set(flattenPlan(output['Plan'])
+        .filter((flat) => flat.node['Node Type'] === 'Seq Scan')
+        .map((flat) => qualifiedRelation(flat.node))
+        .filter((relation): relation is string => relation !== undefined))];
+}
@@ -0,0 +1,272 @@
+/**
+ * A small PostgreSQL lexer. It doesn't parse SQL; it only splits it into tokens so that
+ * strings, quoted identifiers, comments and dollar-quoted bodies can't be mistaken for code.
+ */
+
+export type SqlTokenType =
+    | 'word'        // Unquoted identifier or keyword, `value` is lowercased
+    | 'quoted'      // "Quoted identifier", `value` is the unescaped name
+    | 'string'      // 'literal', E'literal', $tag$literal$tag$, `value` is the content
+    | 'number'
+    | 'param'       // $1, $2, ...
+    | 'operator'    // +, -, ::, <>, ...
+    | 'punctuation' // ( ) [ ] , ; . :
+    | 'whitespace'
+    | 'comment';
+
+export interface SqlToken {
+    type: SqlTokenType;
+    value: string;
+    start: number;  // Offset of the first character in the source
+    end: number;    // Offset after the last character
+}
+
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+const PUNCTUATION_CHARS = '()[],;.:';
+
+function isIdentifierStart(ch: string): boolean {
+    return /[A-Za-z_\u0080-\uffff]/.test(ch);
+}
+
+function isIdentifierPart(ch: string): boolean {
+    return /[A-Za-z0-9_$\u0080-\uffff]/.test(ch);
+}
+
+/**
+ * Splits SQL into tokens, including whitespace and comments so that offsets cover the whole input.
+ * Throws for unterminated strings, identifiers or comments.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let i = 0;
+
+    const push = (type: SqlTokenType, value: string, start: number) => {
+        tokens.push({ type, value, start, end: i });
+    };
+
+    // Reads a '...' literal starting at the opening quote; backslash escapes only in E'' strings
+    const readQuoted = (quote: string, backslashEscapes: boolean): string => {
+        const start = i;
+        let value = '';
+        i++;
+        while (i < sql.length) {
+            const ch = sql[i];
+            if (backslashEscapes && ch === '\\' && i + 1 < sql.length) {
+                value += sql[i + 1];
+                i += 2;
+                continue;
+            }
+            if (ch === quote) {
+                if (sql[i + 1] === quote) {
+                    value += quote;
+                    i += 2;
+                    continue;
+                }
+                i++;
+                return value;
+            }
+            value += ch;
+            i++;
+        }
+        const what = quote === '"' ? 'quoted identifier' : 'string literal';
+        throw new Error(`Unterminated ${what} at position ${start}`);
+    };
+
+    while (i < sql.length) {
+        const start = i;
+        const ch = sql[i];
+        const next = sql[i + 1];
+
+        if (/\s/.test(ch)) {
+            while (i < sql.length && /\s/.test(sql[i])) i++;
+            push('whitespace', sql.slice(start, i), start);
+            continue;
+        }
+
+        if (ch === '-' && next === '-') {
+            while (i < sql.length && sql[i] !== '\n') i++;
+            push('comment', sql.slice(start, i), start);
+            continue;
+        }
+
+        if (ch === '/' && next === '*') {
+            // Block comments nest in PostgreSQL
+            let depth = 0;
+            while (i < sql.length) {
+                if (sql[i] === '/' && sql[i + 1] === '*') {
+                    depth++;
+                    i += 2;
+                } else if (sql[i] === '*' && sql[i + 1] === '/') {
+                    depth--;
+                    i += 2;
+                    if (depth === 0) break;
+                } else {
+                    i++;
+                }
+            }
+            if (depth !== 0) throw new Error(`Unterminated block comment at position ${start}`);
+            push('comment', sql.slice(start, i), start);
+            continue;
+        }
+
+        // String constants with a prefix: E'...', B'...', X'...', N'...', U&'...'
+        if (/[EeBbXxNn]/.test(ch) && next === "'") {
+            i++;
+            push('string', readQuoted("'", ch === 'E' || ch === 'e'), start);
+            continue;
+        }
+        if ((ch === 'U' || ch === 'u') && next === '&' && (sql[i + 2] === "'" || sql[i + 2] === '"')) {
+            i += 2;
+            const quote = sql[i];
+            push(quote === '"' ? 'quoted' : 'string', readQuoted(quote, false), start);
+            continue;
+        }
+
+        if (ch === "'") {
+            push('string', readQuoted("'", false), start);
+            continue;
+        }
+
+        if (ch === '"') {
+            push('quoted', readQuoted('"', false), start);
+            continue;
+        }
+
+        if (ch === '$') {
+            // Positional parameter
+            if (next !== undefined && /[0-9]/.test(next)) {
+                i++;
+                while (i < sql.length && /[0-9]/.test(sql[i])) i++;
+                push('param', sql.slice(start, i), start);
+                continue;
+            }
+            // Dollar-quoted string: $$...$$ or $tag$...$tag$
+            const tagMatch = /^\$([A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/.exec(sql.slice(i));
+            if (tagMatch) {
+                const tag = tagMatch[0];
+                const bodyStart = i + tag.length;
+                const close = sql.indexOf(tag, bodyStart);
+                if (close === -1) throw new Error(`Unterminated dollar-quoted string at position ${start}`);
+                i = close + tag.length;
+                push('string', sql.slice(bodyStart, close), start);
+                continue;
+            }
+        }
+
+        if (/[0-9]/.test(ch) || (ch === '.' && next !== undefined && /[0-9]/.test(next))) {
+            const match = /^(?:0[xX][0-9a-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:[0-9][0-9_]*)?\.?[0-9_]*(?:[eE][+-]?[0-9]+)?)/.exec(sql.slice(i));
+            i += match && match[0].length > 0 ? match[0].length : 1;
+            push('number', sql.slice(start, i), start);
+            continue;
+        }
+
+        if (isIdentifierStart(ch)) {
+            while (i < sql.length && isIdentifierPart(sql[i])) i++;
+            push('word', sql.slice(start, i).toLowerCase(), start);
+            continue;
+        }
+
+        if (ch === ':' && next === ':') {
+            i += 2;
+            push('operator', '::', start);
+            continue;
+        }
+
+        if (PUNCTUATION_CHARS.includes(ch)) {
+            i++;
+            push('punctuation', ch, start);
+            continue;
+        }
+
+        if (OPERATOR_CHARS.includes(ch)) {
+            while (i < sql.length && OPERATOR_CHARS.includes(sql[i])) {
+                // Don't swallow the start of a comment into an operator
+                if ((sql[i] === '-' && sql[i + 1] === '-') || (sql[i] === '/' && sql[i + 1] === '*')) break;
+                i++;
+            }
+            if (i === start) i++;
+            push('operator', sql.slice(start, i), start);
+            continue;
+        }
+
+        throw new Error(`Unexpected character ${JSON.stringify(ch)} at position ${start}`);
+    }
+
+    return tokens;
+}
+
+/**
+ * Tokens that carry meaning, i.e. without whitespace and comments.
+ */
+export function significantTokens(tokens: SqlToken[]): SqlToken[] {
+    return tokens.filter((token) => token.type !== 'whitespace' && token.type !== 'comment');
+}
+
+/**
+ * Whether a token is an identifier (unquoted or quoted).
+ */
+export function isIdentifierToken(token: SqlToken | undefined): token is SqlToken {
+    return !!token && (token.type === 'word' || token.type === 'quoted');
+}
+
+/**
+ * Whether a token is the given unquoted keyword.
+ */
+export function isKeyword(token: SqlToken | undefined, ...keywords: string[]): boolean {
+    return !!token && token.type === 'word' && keywords.includes(token.value);
+}
+
+/**
+ * One statement of a script, without its terminating semicolon.
+ */
+export interface SqlStatement {
+    text: string;
+    start: number;
+    end: number;
+    tokens: SqlToken[]; // Including whitespace and comments
+}
+
+/**
+ * Splits a script into statements at top-level semicolons.
+ * Semicolons inside strings, comments, dollar-quoted bodies and BEGIN ATOMIC ... END bodies don't count.
+ * Statements consisting only of whitespace and comments are dropped.
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+    const tokens = tokenizeSql(sql);
+    const statements: SqlStatement[] = [];
+    let current: SqlToken[] = [];
+    let atomicDepth = 0; // Nesting of BEGIN ATOMIC bodies (and CASE ... END inside them)
+    let previous: SqlToken | undefined;
+
+    const flush = () => {
+        const significant = significantTokens(current);
+        if (significant.length > 0) {
+            const start = significant[0].start;
+            const end = significant[significant.length - 1].end;
+            statements.push({ text: sql.slice(start, end), start, end, tokens: current });
+        }
+        current = [];
+    };
+
+    for (const token of tokens) {
+        if (token.type === 'punctuation' && token.value === ';' && atomicDepth === 0) {
+            flush();
+            previous = undefined;
+            continue;
+        }
+        if (token.type === 'word') {
+            if (token.value === 'atomic' && isKeyword(previous, 'begin')) {
+                atomicDepth++;
+            } else if (atomicDepth > 0 && token.value === 'case') {
+                atomicDepth++;
+            } else if (atomicDepth > 0 && token.value === 'end') {
+                atomicDepth--;
+            }
+        }
+        current.push(token);
+        if (token.type !== 'whitespace' && token.type !== 'comment') previous = token;
+    }
+    flush();
+
+    return statements;
+}
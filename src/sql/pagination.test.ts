@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeCursorToken, encodeCursorToken, isCursorable, limitRows, SqlCursorStore } from './pagination.js';
+
+describe('limitRows', () => {
+    const rows = [{ a: 1 }, { a: 2 }, { a: 3 }]; // 7 bytes of JSON each, 8 with the comma
+
+    it('keeps every row within the limits', () => {
+        expect(limitRows(rows, { maxRows: 3, maxBytes: 26 })).toEqual({ rows });
+    });
+
+    it('stops at the row limit', () => {
+        expect(limitRows(rows, { maxRows: 2, maxBytes: 1000 })).toEqual({ rows: rows.slice(0, 2), truncatedBy: 'max_rows' });
+    });
+
+    it('stops before the row that would pass the byte limit', () => {
+        expect(limitRows(rows, { maxRows: 10, maxBytes: 25 })).toEqual({ rows: rows.slice(0, 2), truncatedBy: 'max_bytes' });
+        expect(limitRows([{ s: 'éé' }, { s: 'ab' }], { maxRows: 10, maxBytes: 22 })).toEqual({ rows: [{ s: 'éé' }], truncatedBy: 'max_bytes' });
+    });
+
+    it('always keeps the first row, however large', () => {
+        expect(limitRows([{ s: 'x'.repeat(100) }, { s: 'y' }], { maxRows: 10, maxBytes: 10 })).toEqual({
+            rows: [{ s: 'x'.repeat(100) }],
+            truncatedBy: 'max_bytes',
+        });
+    });
+});
+
+describe('isCursorable', () => {
+    it.each([
+        'SELECT * FROM todos ORDER BY id',
+        '(SELECT 1) UNION (SELECT 2);',
+        'VALUES (1), (2)',
+        'TABLE todos',
+        'WITH t AS (SELECT 1) SELECT * FROM t',
+    ])('accepts %s', (sql) => {
+        expect(isCursorable(sql)).toBe(true);
+    });
+
+    it.each([
+        'SELECT 1; SELECT 2',
+        'INSERT INTO todos VALUES (1) RETURNING id',
+        'WITH gone AS (DELETE FROM todos RETURNING *) SELECT * FROM gone',
+        'SELECT * INTO copy FROM todos',
+        'SELECT * FROM todos FOR UPDATE',
+        'SELECT * FROM todos FOR SHARE',
+        'EXPLAIN SELECT 1',
+        "SELECT 'unterminated",
+    ])('refuses %s', (sql) => {
+        expect(isCursorable(sql)).toBe(false);
+    });
+});
+
+describe('cursor tokens', () => {
+    const id = '0b4c3a4e-4f9a-4ad8-9d8f-2c1e1a2b3c4d';
+
+    it('round-trip the cursor id and offset', () => {
+        expect(decodeCursorToken(encodeCursorToken(id, 0))).toEqual({ id, offset: 0 });
+        expect(decodeCursorToken(encodeCursorToken(id, 2500))).toEqual({ id, offset: 2500 });
+    });
+
+    it.each([
+        ['empty', ''],
+        ['not base64url', '!!!'],
+        ['no offset', Buffer.from(id).toString('base64url')],
+        ['negative offset', Buffer.from(`${id}:-1`).toString('base64url')],
+        ['fractional offset', Buffer.from(`${id}:1.5`).toString('base64url')],
+        ['not a cursor id', Buffer.from('../../etc:1').toString('base64url')],
+        ['trailing text', `${encodeCursorToken(id, 1)}${Buffer.from('x').toString('base64url')}`],
+    ])('reject %s', (_name, token) => {
+        expect(decodeCursorToken(token)).toBeNull();
+    });
+});
+
+describe('SqlCursorStore', () => {
+    const TTL_MS = 60_000;
+    let closed: string[];
+    let store: SqlCursorStore<string>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        closed = [];
+        store = new SqlCursorStore<string>(async (state) => { closed.push(state); }, TTL_MS, 3);
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps at most three cursors, closing the least recently used', async () => {
+        const a = await store.open('a');
+        const b = await store.open('b');
+        await store.open('c');
+        expect(await store.get(a)).toBe('a'); // b is now the least recently used
+
+        await store.open('d');
+        expect(closed).toEqual(['b']);
+        expect(await store.get(b)).toBeUndefined();
+        expect(await store.get(a)).toBe('a');
+    });
+
+    it('expires cursors unused for the TTL, and extends it on use', async () => {
+        const a = await store.open('a');
+        const b = await store.open('b');
+
+        await vi.advanceTimersByTimeAsync(TTL_MS - 1);
+        expect(await store.get(a)).toBe('a');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await store.get(b)).toBeUndefined();
+        expect(closed).toEqual(['b']);
+
+        // The sweep closes expired cursors even if nobody asks for them again
+        await vi.advanceTimersByTimeAsync(TTL_MS + 30_000);
+        expect(closed).toEqual(['b', 'a']);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('closes a released cursor once, and logs a failure to close it', async () => {
+        const failing = new SqlCursorStore<string>(async () => { throw new Error('connection lost'); }, TTL_MS, 3);
+        const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+        try {
+            const id = await failing.open('a');
+            await failing.release(id);
+            await failing.release(id);
+            expect(log).toHaveBeenCalledTimes(1);
+            expect(log).toHaveBeenCalledWith(`Failed to close cursor ${id}:`, 'connection lost');
+            expect(await failing.get(id)).toBeUndefined();
+        } finally {
+            log.mockRestore();
+        }
+    });
+});
@@ -0,0 +1,140 @@
+import { randomUUID } from 'node:crypto';
+import { isKeyword, significantTokens, splitSqlStatements } from './lexer.js';
+
+export const DEFAULT_SQL_MAX_ROWS = 1000;
+export const DEFAULT_SQL_MAX_BYTES = 100_000;
+export const DEFAULT_CURSOR_TTL_MS = 2 * 60 * 1000;
+export const DEFAULT_MAX_OPEN_CURSORS = 3; // pg cursors each hold a pooled connection
+
+/**
+ * Size limits for one page of a result.
+ */
+export interface SqlPageLimits {
+    maxRows: number;
+    maxBytes: number; // Measured on the JSON encoding of the rows
+}
+
+export type SqlTruncation = 'max_rows' | 'max_bytes';
+
+/**
+ * Takes rows until a limit is hit. At least one row is always kept so that paging makes progress,
+ * even when a single row is larger than `maxBytes`.
+ */
+export function limitRows<T>(rows: T[], limits: SqlPageLimits): { rows: T[]; truncatedBy?: SqlTruncation } {
+    const kept: T[] = [];
+    let bytes = 2; // []
+    for (const row of rows) {
+        if (kept.length >= limits.maxRows) {
+            return { rows: kept, truncatedBy: 'max_rows' };
+        }
+        const size = Buffer.byteLength(JSON.stringify(row)) + 1;
+        if (kept.length > 0 && bytes + size > limits.maxBytes) {
+            return { rows: kept, truncatedBy: 'max_bytes' };
+        }
+        kept.push(row);
+        bytes += size;
+    }
+    return { rows: kept };
+}
+
+/**
+ * Whether a query can run behind a server-side cursor: a single SELECT, VALUES or TABLE statement
+ * that doesn't modify data or lock rows. Anything else runs directly and is only truncated.
+ */
+export function isCursorable(sql: string): boolean {
+    let statements;
+    try {
+        statements = splitSqlStatements(sql);
+    } catch {
+        return false;
+    }
+    if (statements.length !== 1) return false;
+
+    const tokens = significantTokens(statements[0].tokens);
+    const first = tokens.find((token) => !(token.type === 'punctuation' && token.value === '('));
+    if (!isKeyword(first, 'select', 'values', 'table', 'with')) return false;
+    // Data-modifying CTEs, SELECT INTO and FOR UPDATE/SHARE can't be declared as cursors
+    return !tokens.some((token) => isKeyword(token, 'insert', 'update', 'delete', 'merge', 'into', 'share'));
+}
+
+/**
+ * Cursor tokens handed to clients encode the cursor id and the offset of the next page.
+ */
+export function encodeCursorToken(id: string, offset: number): string {
+    return Buffer.from(`${id}:${offset}`, 'utf-8').toString('base64url');
+}
+
+export function decodeCursorToken(token: string): { id: string; offset: number } | null {
+    const match = /^([0-9a-f-]{36}):(\d+)$/.exec(Buffer.from(token, 'base64url').toString('utf-8'));
+    return match ? { id: match[1], offset: Number(match[2]) } : null;
+}
+
+/**
+ * Open cursors by id. A cursor expires after `ttlMs` without being used, and at most `maxOpen`
+ * are kept (the least recently used is closed first). `close` releases whatever a cursor holds.
+ */
+export class SqlCursorStore<T> {
+    private cursors = new Map<string, { state: T; expiresAt: number }>();
+    private sweepTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly close: (state: T) => Promise<void>,
+        private readonly ttlMs = DEFAULT_CURSOR_TTL_MS,
+        private readonly maxOpen = DEFAULT_MAX_OPEN_CURSORS,
+    ) {}
+
+    async open(state: T): Promise<string> {
+        await this.sweep();
+        while (this.cursors.size >= this.maxOpen) {
+            const oldest = this.cursors.keys().next().value;
+            if (oldest === undefined) break;
+            await this.release(oldest);
+        }
+
+        const id = randomUUID();
+        this.cursors.set(id, { state, expiresAt: Date.now() + this.ttlMs });
+        if (!this.sweepTimer) {
+            this.sweepTimer = setInterval(() => void this.sweep(), Math.min(this.ttlMs, 30_000));
+            this.sweepTimer.unref(); // Don't keep the process alive for cursors
+        }
+        return id;
+    }
+
+    /**
+     * Returns a live cursor and extends its lifetime.
+     */
+    async get(id: string): Promise<T | undefined> {
+        await this.sweep();
+        const entry = this.cursors.get(id);
+        if (!entry) return undefined;
+        // Re-insert to keep the map in least-recently-used order
+        this.cursors.delete(id);
+        this.cursors.set(id, { state: entry.state, expiresAt: Date.now() + this.ttlMs });
+        return entry.state;
+    }
+
+    async release(id: string): Promise<void> {
+        const entry = this.cursors.get(id);
+        if (!entry) return;
+        this.cursors.delete(id);
+        try {
+            await this.close(entry.state);
+        } catch (error) {
+            console.error(`Failed to close cursor ${id}:`, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private async sweep(): Promise<void> {
+        const now = Date.now();
+        for (const [id, entry] of this.cursors) {
+            if (entry.expiresAt <= now) {
+                console.error(`Cursor ${id} expired.`);
+                await this.release(id);
+            }
+        }
+        if (this.cursors.size === 0 && this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+    }
+}
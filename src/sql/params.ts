@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { tokenizeSql } from './lexer.js';
+
+const SCALAR_PARAM_TYPES = [
+    'text', 'integer', 'bigint', 'numeric', 'boolean', 'uuid', 'json', 'jsonb', 'timestamptz', 'timestamp', 'date',
+] as const;
+const PARAM_TYPES = [...SCALAR_PARAM_TYPES, ...SCALAR_PARAM_TYPES.map((type) => `${type}[]`)] as [string, ...string[]];
+
+const ScalarValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+/**
+ * A query parameter: a plain value, an array (bound as a Postgres array), or a value with a type hint,
+ * e.g. { "type": "uuid", "value": "..." } or { "type": "jsonb", "value": { "a": 1 } }.
+ */
+export const SqlParamSchema = z.union([
+    ScalarValueSchema,
+    z.array(ScalarValueSchema),
+    z.object({
+        type: z.enum(PARAM_TYPES).describe('Postgres type the parameter is cast to.'),
+        value: z.unknown().describe('The value; any JSON for json/jsonb, an array for array types.'),
+    }).strict(),
+]);
+export type SqlParam = z.infer<typeof SqlParamSchema>;
+
+/**
+ * A query with its parameters serialized to their text representation, ready for binding.
+ */
+export interface BoundSqlQuery {
+    text: string;              // The query, with typed parameters cast, e.g. ($1::uuid)
+    values: (string | null)[];
+}
+
+function quoteArrayElement(element: string | null): string {
+    if (element === null) return 'NULL';
+    return `"${element.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Postgres array literal, e.g. {"a","b",NULL}. Nested arrays become multi-dimensional arrays.
+ */
+function toArrayLiteral(values: unknown[], serializeElement: (value: unknown) => string | null): string {
+    const elements = values.map((value) => Array.isArray(value)
+        ? toArrayLiteral(value, serializeElement)
+        : quoteArrayElement(serializeElement(value)));
+    return `{${elements.join(',')}}`;
+}
+
+function serializeScalar(value: unknown, index: number): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    throw new Error(`Parameter $${index + 1} must be a string, number, boolean or null`);
+}
+
+function serializeParam(param: SqlParam, index: number): { value: string | null; type?: string } {
+    if (Array.isArray(param)) {
+        return { value: toArrayLiteral(param, (element) => serializeScalar(element, index)) };
+    }
+    if (param === null || typeof param !== 'object') {
+        return { value: serializeScalar(param, index) };
+    }
+
+    const { type, value } = param;
+    if (value === null || value === undefined) {
+        return { value: null, type };
+    }
+    const isJson = type.startsWith('json');
+    const serializeElement = isJson
+        ? (element: unknown) => element === null ? null : JSON.stringify(element)
+        : (element: unknown) => serializeScalar(element, index);
+
+    if (type.endsWith('[]')) {
+        if (!Array.isArray(value)) {
+            throw new Error(`Parameter $${index + 1} has type ${type} but its value is not an array`);
+        }
+        return { value: toArrayLiteral(value, serializeElement), type };
+    }
+    return { value: serializeElement(value), type };
+}
+
+/**
+ * Serializes parameters for `$1..$n` placeholders and casts the typed ones in the query text.
+ * Placeholders inside strings, quoted identifiers and comments are left alone.
+ * Throws if the placeholders and the parameters don't match up.
+ */
+export function bindSqlParams(sql: string, params: SqlParam[]): BoundSqlQuery {
+    const serialized = params.map(serializeParam);
+    const tokens = tokenizeSql(sql);
+
+    let highest = 0;
+    let text = '';
+    for (const token of tokens) {
+        if (token.type !== 'param') {
+            text += sql.slice(token.start, token.end);
+            continue;
+        }
+        const position = Number(token.value.slice(1));
+        if (position < 1 || position > params.length) {
+            throw new Error(`The query references ${token.value} but ${params.length} parameter(s) were given`);
+        }
+        highest = Math.max(highest, position);
+        const type = serialized[position - 1].type;
+        text += type ? `(${token.value}::${type})` : token.value;
+    }
+    if (highest < params.length) {
+        const referenced = highest === 0 ? 'has no $n placeholders' : `only references up to $${highest}`;
+        throw new Error(`${params.length} parameter(s) were given but the query ${referenced}`);
+    }
+
+    return { text, values: serialized.map((param) => param.value) };
+}
+
+/**
+ * Turns `$n` placeholders into `%n$L` for Postgres' format(), which quotes each value as a literal.
+ * Every other `%` is doubled so format() leaves it alone.
+ */
+export function toFormatTemplate(sql: string): string {
+    return tokenizeSql(sql)
+        .map((token) => token.type === 'param'
+            ? `%${token.value.slice(1)}$L`
+            : sql.slice(token.start, token.end).replace(/%/g, '%%'))
+        .join('');
+}
@@ -0,0 +1,269 @@
+import { isIdentifierToken, isKeyword, significantTokens, splitSqlStatements } from './lexer.js';
+import type { SqlToken } from './lexer.js';
+
+/**
+ * Schemas a piece of SQL refers to, as far as a token-level scan can tell.
+ */
+export interface SqlSchemaUsage {
+    schemas: Set<string>;         // Schemas named explicitly (schema.table, schema.function(), ::schema.type, SCHEMA name)
+    unqualifiedRelations: string[]; // Relations resolved through search_path (CTE names excluded)
+    opaque: string[];             // Reasons parts of the SQL can't be inspected (DO blocks, function bodies, search_path changes)
+}
+
+// Keywords after which a relation name follows
+const RELATION_KEYWORDS = new Set([
+    'from', 'join', 'into', 'update', 'table', 'truncate', 'references', 'view', 'sequence',
+    'lock', 'function', 'procedure', 'aggregate', 'routine',
+]);
+
+// Keywords that only name an object right after CREATE/ALTER/DROP/COMMENT ON (not in ALTER COLUMN ... TYPE)
+const DDL_OBJECT_KEYWORDS = new Set(['type', 'domain']);
+
+// Keywords that may sit between a relation keyword and the relation name
+const RELATION_MODIFIERS = new Set([
+    'only', 'lateral', 'if', 'not', 'exists', 'unlogged', 'temporary', 'temp', 'materialized',
+    'recursive', 'concurrently', 'global', 'local',
+]);
+
+// Words that are never relation names or aliases
+const RESERVED_WORDS = new Set([
+    'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'both', 'by', 'case',
+    'cast', 'check', 'collate', 'column', 'concurrently', 'constraint', 'create', 'cross', 'current_catalog',
+    'current_date', 'current_role', 'current_schema', 'current_time', 'current_timestamp', 'current_user',
+    'default', 'deferrable', 'desc', 'distinct', 'do', 'else', 'end', 'except', 'exists', 'false', 'fetch',
+    'for', 'foreign', 'freeze', 'from', 'full', 'grant', 'group', 'having', 'if', 'ilike', 'in', 'initially',
+    'inner', 'intersect', 'into', 'is', 'isnull', 'join', 'lateral', 'leading', 'left', 'like', 'limit',
+    'localtime', 'localtimestamp', 'natural', 'not', 'notnull', 'nowait', 'null', 'of', 'offset', 'on',
+    'only', 'or', 'order', 'outer', 'overlaps', 'partition', 'placing', 'primary', 'recursive', 'references',
+    'returning', 'right', 'schema', 'select', 'session_user', 'set', 'share', 'similar', 'skip', 'some',
+    'stdin', 'stdout', 'symmetric', 'table', 'tablesample', 'then', 'to', 'trailing', 'true', 'union',
+    'unique', 'user', 'using', 'values', 'variadic', 'verbose', 'when', 'where', 'window', 'with',
+]);
+
+// Functions whose argument syntax uses FROM without naming a relation, e.g. extract(year from now())
+const FROM_ARGUMENT_FUNCTIONS = new Set(['extract', 'substring', 'trim', 'overlay', 'position']);
+
+// Statements in which ON introduces an object name (GRANT ... ON t, CREATE INDEX ... ON t)
+const DDL_STATEMENTS = new Set(['create', 'alter', 'drop', 'grant', 'revoke', 'comment', 'security']);
+
+function isPunctuation(token: SqlToken | undefined, value: string): boolean {
+    return !!token && token.type === 'punctuation' && token.value === value;
+}
+
+/**
+ * Reads a dotted name (a.b.c) starting at `index`.
+ */
+function readName(tokens: SqlToken[], index: number): { parts: string[]; end: number } {
+    const parts = [tokens[index].value];
+    let end = index + 1;
+    while (isPunctuation(tokens[end], '.') && isIdentifierToken(tokens[end + 1])) {
+        parts.push(tokens[end + 1].value);
+        end += 2;
+    }
+    return { parts, end };
+}
+
+/**
+ * Index after an optional alias: [AS] alias [(column, ...)].
+ */
+function skipAlias(tokens: SqlToken[], index: number): number {
+    let next = index;
+    if (isKeyword(tokens[next], 'as')) next++;
+    const alias = tokens[next];
+    if (!isIdentifierToken(alias) || (alias.type === 'word' && RESERVED_WORDS.has(alias.value))) {
+        return next;
+    }
+    next++;
+    if (isPunctuation(tokens[next], '(')) {
+        let depth = 0;
+        for (; next < tokens.length; next++) {
+            if (isPunctuation(tokens[next], '(')) depth++;
+            if (isPunctuation(tokens[next], ')') && --depth === 0) return next + 1;
+        }
+    }
+    return next;
+}
+
+/**
+ * Names defined by WITH clauses, which look like unqualified relations where they are used.
+ */
+function collectCteNames(tokens: SqlToken[]): Set<string> {
+    const names = new Set<string>();
+    const withIndex = tokens.findIndex((token) => isKeyword(token, 'with'));
+    if (withIndex === -1) return names;
+
+    for (let i = withIndex + 1; i < tokens.length; i++) {
+        if (!isKeyword(tokens[i], 'as')) continue;
+        const next = tokens[i + 1];
+        if (!isPunctuation(next, '(') && !isKeyword(next, 'materialized', 'not')) continue;
+
+        let nameIndex = i - 1;
+        if (isPunctuation(tokens[nameIndex], ')')) {
+            // name (col, ...) AS (...)
+            while (nameIndex > 0 && !isPunctuation(tokens[nameIndex], '(')) nameIndex--;
+            nameIndex--;
+        }
+        if (isIdentifierToken(tokens[nameIndex])) names.add(tokens[nameIndex].value);
+    }
+    return names;
+}
+
+function analyzeStatement(tokens: SqlToken[], usage: SqlSchemaUsage): void {
+    const first = tokens[0];
+    const isDdl = isKeyword(first, ...DDL_STATEMENTS);
+    // USING names a relation in DELETE ... USING and MERGE ... USING, but an access method in CREATE INDEX
+    const usingNamesRelation = tokens.some((token) => isKeyword(token, 'delete', 'merge'));
+    const cteNames = collectCteNames(tokens);
+
+    if (isKeyword(first, 'do')) {
+        usage.opaque.push('DO blocks are not inspected');
+    }
+    if (isKeyword(first, 'create') && tokens.some((token) => isKeyword(token, 'function', 'procedure'))) {
+        usage.opaque.push('function and procedure bodies are not inspected');
+    }
+
+    const addRelation = (parts: string[]) => {
+        if (parts.length === 1) {
+            if (!cteNames.has(parts[0])) usage.unqualifiedRelations.push(parts[0]);
+        } else {
+            // schema.name, or database.schema.name
+            usage.schemas.add(parts[parts.length - 2]);
+        }
+    };
+
+    // Open parentheses: the function they belong to, and whether a relation list continues after them
+    const parens: { fn?: string; continuesList: boolean }[] = [];
+    let expectRelation = false;
+    let seenSelect = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (isPunctuation(token, '(')) {
+            const before = tokens[i - 1];
+            const fn = isIdentifierToken(before) ? before.value : undefined;
+            parens.push({ fn, continuesList: expectRelation });
+            expectRelation = false;
+            continue;
+        }
+
+        if (isPunctuation(token, ')')) {
+            const paren = parens.pop();
+            if (paren?.continuesList) {
+                // (subquery) alias, next_relation
+                const next = skipAlias(tokens, i + 1);
+                if (isPunctuation(tokens[next], ',')) {
+                    expectRelation = true;
+                    i = next;
+                } else {
+                    i = next - 1;
+                }
+            }
+            continue;
+        }
+
+        if (token.type === 'operator' && token.value === '::') {
+            if (isIdentifierToken(tokens[i + 1])) {
+                const name = readName(tokens, i + 1);
+                if (name.parts.length >= 2) usage.schemas.add(name.parts[name.parts.length - 2]);
+                i = name.end - 1;
+            }
+            continue;
+        }
+
+        if (token.type === 'string' && token.value.trim().toLowerCase() === 'search_path') {
+            usage.opaque.push('search_path changes are not allowed');
+            continue;
+        }
+
+        if (!isIdentifierToken(token)) {
+            expectRelation = false;
+            continue;
+        }
+
+        const name = readName(tokens, i);
+        const isFunctionCall = isPunctuation(tokens[name.end], '(');
+        const word = name.parts.length === 1 && token.type === 'word' ? token.value : undefined;
+
+        if (word === 'search_path') {
+            usage.opaque.push('search_path changes are not allowed');
+            continue;
+        }
+
+        if (expectRelation) {
+            if (word && RELATION_MODIFIERS.has(word)) continue;
+            if (!word || !RESERVED_WORDS.has(word)) {
+                if (isFunctionCall) {
+                    // Set-returning function in FROM; the parenthesis handler continues the list
+                    if (name.parts.length >= 2) usage.schemas.add(name.parts[name.parts.length - 2]);
+                    i = name.end - 1;
+                    continue;
+                }
+                addRelation(name.parts);
+                expectRelation = false;
+                const next = skipAlias(tokens, name.end);
+                if (isPunctuation(tokens[next], ',')) {
+                    expectRelation = true;
+                    i = next;
+                } else {
+                    i = next - 1;
+                }
+                continue;
+            }
+            expectRelation = false;
+        }
+
+        if (word) {
+            if (word === 'select') seenSelect = true;
+
+            if (word === 'from') {
+                const enclosing = parens[parens.length - 1];
+                const inFromArgument = !!enclosing?.fn && FROM_ARGUMENT_FUNCTIONS.has(enclosing.fn);
+                expectRelation = !inFromArgument && !isKeyword(tokens[i - 1], 'distinct');
+            } else if (RELATION_KEYWORDS.has(word)) {
+                expectRelation = true;
+            } else if (DDL_OBJECT_KEYWORDS.has(word)) {
+                expectRelation = isKeyword(tokens[i - 1], 'create', 'alter', 'drop', 'on');
+            } else if (word === 'using') {
+                expectRelation = usingNamesRelation;
+            } else if (word === 'on' && isDdl && !seenSelect) {
+                expectRelation = true;
+            } else if (word === 'column' && isKeyword(tokens[i - 1], 'on') && isIdentifierToken(tokens[i + 1])) {
+                // COMMENT ON COLUMN schema.table.column
+                const column = readName(tokens, i + 1);
+                if (column.parts.length >= 3) usage.schemas.add(column.parts[column.parts.length - 3]);
+                i = column.end - 1;
+            } else if (word === 'schema') {
+                // SCHEMA [IF [NOT] EXISTS] name
+                let next = i + 1;
+                while (isKeyword(tokens[next], 'if', 'not', 'exists')) next++;
+                const schemaToken = tokens[next];
+                if (isIdentifierToken(schemaToken) && (schemaToken.type === 'quoted' || !RESERVED_WORDS.has(schemaToken.value))) {
+                    usage.schemas.add(schemaToken.value);
+                    i = next;
+                }
+            }
+            continue;
+        }
+
+        if (isFunctionCall && name.parts.length >= 2) {
+            usage.schemas.add(name.parts[name.parts.length - 2]);
+        }
+        // Other dotted names are column references (table.column, schema.table.column)
+        i = name.end - 1;
+    }
+}
+
+/**
+ * Finds the schemas a script refers to. This is a best-effort scan of the token stream, not a parser:
+ * it recognizes relations after FROM/JOIN/INTO/UPDATE/TABLE/..., qualified function calls and casts,
+ * and SCHEMA clauses. Anything it can't see into (DO blocks, function bodies, search_path changes) is
+ * reported in `opaque` so callers can refuse it. Throws if the SQL can't be tokenized.
+ */
+export function analyzeSchemaUsage(sql: string): SqlSchemaUsage {
+    const usage: SqlSchemaUsage = { schemas: new Set(), unqualifiedRelations: [], opaque: [] };
+    for (const statement of splitSqlStatements(sql)) {
+        analyzeStatement(significantTokens(statement.tokens), usage);
+    }
+    return usage;
+}
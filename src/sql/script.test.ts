@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { parseSqlScript, queryReturnsRows, runsOutsideTransaction } from './script.js';
+
+describe('parseSqlScript', () => {
+    it('splits a script into classified statements', () => {
+        const statements = parseSqlScript(`
+            CREATE TABLE notes (id int, body text);
+            INSERT INTO notes VALUES (1, 'a; b') RETURNING id;
+            -- a comment; not a statement
+            WITH recent AS (SELECT * FROM notes) SELECT * FROM recent;
+            UPDATE notes SET body = $$x;y$$;
+            SELECT 1 INTO copy;
+        `);
+        expect(statements.map(({ command, returnsRows }) => [command, returnsRows])).toEqual([
+            ['CREATE', false],
+            ['INSERT', true],
+            ['SELECT', true],
+            ['UPDATE', false],
+            ['SELECT', false],
+        ]);
+        expect(statements[1].sql).toBe("INSERT INTO notes VALUES (1, 'a; b') RETURNING id");
+    });
+
+    it('rejects empty scripts', () => {
+        expect(() => parseSqlScript(' ; -- nothing\n')).toThrow('no statements');
+    });
+
+    it.each(['BEGIN', 'commit', 'ROLLBACK', 'SAVEPOINT s', 'START TRANSACTION', "PREPARE TRANSACTION 'x'"])(
+        'rejects transaction control: %s',
+        (sql) => {
+            expect(() => parseSqlScript(`SELECT 1; ${sql}`)).toThrow('transaction control');
+        },
+    );
+
+    it.each([
+        'SET TRANSACTION READ WRITE',
+        'set transaction isolation level serializable',
+        'SET SESSION CHARACTERISTICS AS TRANSACTION READ WRITE',
+        'SET transaction_read_only = off',
+        'SET LOCAL transaction_read_only TO off',
+        'SET SESSION "default_transaction_read_only" = off',
+        'RESET transaction_read_only',
+    ])('rejects switching the transaction mode: %s', (sql) => {
+        expect(() => parseSqlScript(`${sql}; CREATE TABLE t (id int)`)).toThrow('transaction mode');
+    });
+
+    it('allows other SET statements', () => {
+        expect(parseSqlScript("SET search_path = public; SET LOCAL role authenticated; SELECT set_config('a.b', 'c', true)")).toHaveLength(3);
+    });
+});
+
+describe('queryReturnsRows', () => {
+    it('is true only for a single row-returning statement', () => {
+        expect(queryReturnsRows('SELECT 1')).toBe(true);
+        expect(queryReturnsRows('(SELECT 1) UNION (SELECT 2)')).toBe(true);
+        expect(queryReturnsRows('DELETE FROM t RETURNING *')).toBe(true);
+        expect(queryReturnsRows('DELETE FROM t')).toBe(false);
+        expect(queryReturnsRows('SELECT 1; SELECT 2')).toBe(false);
+        expect(queryReturnsRows("SELECT 'unterminated")).toBe(false);
+    });
+});
+
+describe('runsOutsideTransaction', () => {
+    it.each([
+        'VACUUM (ANALYZE) notes',
+        'vacuum',
+        'CREATE DATABASE scratch',
+        'DROP TABLESPACE archive',
+        'ALTER SYSTEM SET work_mem = 65536',
+        'REINDEX DATABASE postgres',
+        'CREATE UNIQUE INDEX CONCURRENTLY notes_id ON notes (id)',
+        'DROP INDEX CONCURRENTLY IF EXISTS notes_id',
+        'REINDEX (VERBOSE) TABLE CONCURRENTLY notes',
+        'CALL archive_notes()',
+    ])('is true for %s', (sql) => {
+        expect(runsOutsideTransaction(sql)).toBe(true);
+    });
+
+    it.each([
+        'CREATE INDEX notes_id ON notes (id)',
+        'CREATE TABLE concurrently (id int)',
+        'REINDEX TABLE notes',
+        'ALTER DATABASE postgres SET work_mem = 65536',
+        'SELECT 1',
+        'VACUUM notes; VACUUM tags',
+        "VACUUM 'unterminated",
+    ])('is false for %s', (sql) => {
+        expect(runsOutsideTransaction(sql)).toBe(false);
+    });
+});
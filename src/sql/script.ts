@@ -0,0 +1,135 @@
+import { isKeyword, significantTokens, splitSqlStatements } from './lexer.js';
+import type { SqlToken } from './lexer.js';
+
+/**
+ * One statement of a script, classified well enough to run it and report on it.
+ */
+export interface SqlScriptStatement {
+    sql: string;          // Without the trailing semicolon
+    command: string;      // First word of the command tag, e.g. SELECT, INSERT, CREATE
+    returnsRows: boolean; // SELECT, VALUES, TABLE, or INSERT/UPDATE/DELETE/MERGE with RETURNING
+}
+
+const TRANSACTION_CONTROL = ['begin', 'start', 'commit', 'end', 'rollback', 'abort', 'savepoint', 'release'];
+const MAIN_COMMANDS = ['select', 'values', 'table', 'insert', 'update', 'delete', 'merge'];
+// Settings that switch the current (or every later) transaction between read-only and read-write
+const TRANSACTION_MODE_SETTINGS = ['transaction_read_only', 'default_transaction_read_only'];
+
+// SET TRANSACTION, SET SESSION CHARACTERISTICS AS TRANSACTION, and SET or RESET of the read-only settings
+function setsTransactionMode(tokens: SqlToken[]): boolean {
+    if (!isKeyword(tokens[0], 'set', 'reset')) {
+        return false;
+    }
+    const target = isKeyword(tokens[1], 'session', 'local') ? tokens[2] : tokens[1];
+    if (isKeyword(target, 'transaction', 'characteristics')) {
+        return true;
+    }
+    return !!target && (target.type === 'word' || target.type === 'quoted') && TRANSACTION_MODE_SETTINGS.includes(target.value);
+}
+
+// Tokens outside any parentheses, which is where the statement's own clauses are
+function topLevelTokens(tokens: SqlToken[]): SqlToken[] {
+    const topLevel: SqlToken[] = [];
+    let depth = 0;
+    for (const token of tokens) {
+        if (token.type === 'punctuation' && token.value === '(') {
+            depth++;
+        } else if (token.type === 'punctuation' && token.value === ')') {
+            depth = Math.max(0, depth - 1);
+        } else if (depth === 0) {
+            topLevel.push(token);
+        }
+    }
+    return topLevel;
+}
+
+function classifyStatement(sql: string, tokens: SqlToken[]): SqlScriptStatement {
+    const significant = significantTokens(tokens);
+    const first = significant.find((token) => !(token.type === 'punctuation' && token.value === '('));
+    if (!first) {
+        return { sql, command: '', returnsRows: false };
+    }
+
+    if (isKeyword(first, ...TRANSACTION_CONTROL) || (isKeyword(first, 'prepare') && isKeyword(significant[1], 'transaction'))) {
+        throw new Error(`Scripts can't contain transaction control statements (${first.value.toUpperCase()}); use the atomic transaction mode instead.`);
+    }
+    if (setsTransactionMode(significant)) {
+        throw new Error("Scripts can't change the transaction mode (SET TRANSACTION, transaction_read_only); use the read_only and atomic options instead.");
+    }
+
+    // A leading ( means a parenthesized SELECT; WITH is followed by its CTEs, then the main command
+    let main = first;
+    const topLevel = topLevelTokens(significant);
+    if (first.value === 'with' || first !== significant[0]) {
+        main = topLevel.find((token) => isKeyword(token, ...MAIN_COMMANDS)) ?? first;
+    }
+    if (isKeyword(main, 'select', 'values', 'table')) {
+        // SELECT ... INTO creates a table instead of returning rows
+        const selectInto = topLevel.some((token) => isKeyword(token, 'into'));
+        return { sql, command: selectInto ? 'SELECT' : main.value.toUpperCase(), returnsRows: !selectInto };
+    }
+    if (isKeyword(main, 'insert', 'update', 'delete', 'merge')) {
+        return { sql, command: main.value.toUpperCase(), returnsRows: topLevel.some((token) => isKeyword(token, 'returning')) };
+    }
+    return { sql, command: main.value.toUpperCase(), returnsRows: false };
+}
+
+/**
+ * Splits a script into statements and classifies them.
+ * Throws if the script is empty, can't be tokenized, or contains transaction control statements or
+ * statements switching transactions to read-write, which would defeat the atomic and read-only modes.
+ */
+export function parseSqlScript(sql: string): SqlScriptStatement[] {
+    const statements = splitSqlStatements(sql).map((statement) => classifyStatement(statement.text, statement.tokens));
+    if (statements.length === 0) {
+        throw new Error('The script contains no statements.');
+    }
+    return statements;
+}
+
+/**
+ * Whether a query is a single statement that returns rows, as classified for scripts.
+ * Multiple statements, transaction control and untokenizable SQL count as not returning rows.
+ */
+export function queryReturnsRows(sql: string): boolean {
+    try {
+        const statements = splitSqlStatements(sql);
+        return statements.length === 1 && classifyStatement(statements[0].text, statements[0].tokens).returnsRows;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether a query is a single statement Postgres won't run inside a transaction block: VACUUM, CREATE
+ * and DROP DATABASE, TABLESPACE or SUBSCRIPTION, ALTER SYSTEM, REINDEX DATABASE or SYSTEM, the
+ * CONCURRENTLY forms of CREATE, DROP and REINDEX, and CALL, whose procedure may commit.
+ * Untokenizable SQL counts as not.
+ */
+export function runsOutsideTransaction(sql: string): boolean {
+    let statements;
+    try {
+        statements = splitSqlStatements(sql);
+    } catch {
+        return false;
+    }
+    if (statements.length !== 1) {
+        return false;
+    }
+    const tokens = significantTokens(statements[0].tokens);
+    const [first, second] = tokens;
+    if (isKeyword(first, 'vacuum', 'call') || (isKeyword(first, 'alter') && isKeyword(second, 'system'))) {
+        return true;
+    }
+    if (isKeyword(first, 'create', 'drop') && isKeyword(second, 'database', 'tablespace', 'subscription')) {
+        return true;
+    }
+    if (isKeyword(first, 'reindex') && isKeyword(second, 'database', 'system')) {
+        return true;
+    }
+    // CREATE [UNIQUE] INDEX CONCURRENTLY, DROP INDEX CONCURRENTLY, REINDEX [(...)] TABLE CONCURRENTLY, ...
+    const objects = isKeyword(first, 'reindex') ? ['index', 'table', 'schema', 'database', 'system'] : ['index'];
+    const topLevel = topLevelTokens(tokens);
+    return isKeyword(first, 'create', 'drop', 'reindex') && topLevel.some((token, i) =>
+        isKeyword(token, 'concurrently') && isKeyword(topLevel[i - 1], ...objects));
+}
@@ -0,0 +1,125 @@
+/**
+ * Supabase's standard roles and what a stock project gives them (the supabase/postgres init
+ * scripts), so the role tools can point out where a database deviates.
+ */
+export const SUPABASE_ROLES = ['anon', 'authenticated', 'service_role', 'supabase_admin'] as const;
+export type SupabaseRole = typeof SUPABASE_ROLES[number];
+
+export function isSupabaseRole(role: string): role is SupabaseRole {
+    return (SUPABASE_ROLES as readonly string[]).includes(role);
+}
+
+export const TABLE_PRIVILEGES = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER'];
+export const COLUMN_PRIVILEGES = ['SELECT', 'INSERT', 'UPDATE', 'REFERENCES'];
+export const SEQUENCE_PRIVILEGES = ['USAGE', 'SELECT', 'UPDATE'];
+export const SCHEMA_PRIVILEGES = ['USAGE', 'CREATE'];
+
+export interface RoleAttributes {
+    can_login: boolean;
+    superuser: boolean;
+    bypass_rls: boolean;
+    inherit: boolean;
+}
+
+const STOCK_ATTRIBUTES: Record<SupabaseRole, Partial<RoleAttributes>> = {
+    anon: { can_login: false, superuser: false, bypass_rls: false, inherit: false },
+    authenticated: { can_login: false, superuser: false, bypass_rls: false, inherit: false },
+    service_role: { can_login: false, superuser: false, bypass_rls: true, inherit: false },
+    supabase_admin: { can_login: true, superuser: true },
+};
+
+// The roles PostgREST switches to, which stock projects grant the public schema to
+const API_ROLES: SupabaseRole[] = ['anon', 'authenticated', 'service_role'];
+const STOCK_SCHEMA_USAGE = ['public', 'extensions', 'graphql_public', 'storage'];
+// Outside these schemas anon and authenticated hold no table privileges in a stock project
+const STOCK_TABLE_GRANT_SCHEMAS = ['public', 'storage', 'graphql_public'];
+// Default privileges postgres sets in public for the API roles, by object type
+const STOCK_DEFAULT_PRIVILEGES: Record<string, string[]> = {
+    tables: TABLE_PRIVILEGES,
+    sequences: SEQUENCE_PRIVILEGES,
+    functions: ['EXECUTE'],
+};
+
+/**
+ * Effective privileges of one role, as get_role_privileges reports them.
+ */
+export interface RolePrivileges {
+    schemas: { schema: string; privileges: string[] }[];
+    tables: { schema: string; name: string; privileges: string[] }[];
+    columns: { schema: string; table: string; column: string; privileges: string[] }[];
+    sequences: { schema: string; name: string; privileges: string[] }[];
+    functions: { schema: string; name: string; argument_types: string; privileges: string[] }[];
+    default_privileges: { owner: string; schema: string | null; object_type: string; grantee: string; privileges: string[] }[];
+}
+
+/**
+ * Describes how `attributes` differ from what a stock project gives `role`.
+ */
+export function roleAttributeDeviations(role: SupabaseRole, attributes: RoleAttributes): string[] {
+    return Object.entries(STOCK_ATTRIBUTES[role]).flatMap(([attribute, stock]) =>
+        attributes[attribute as keyof RoleAttributes] === stock
+            ? []
+            : [`${attribute} is ${!stock}; stock ${role} has ${attribute} ${stock}.`]);
+}
+
+/**
+ * Describes how `privileges` differ from the stock grants of `role`: privileges missing in the
+ * public schema (when it was looked at) and in postgres's default privileges there, and, for anon
+ * and authenticated, CREATE on public and table or column privileges in schemas where stock
+ * projects grant them nothing.
+ */
+export function privilegeDeviations(role: SupabaseRole, privileges: RolePrivileges): string[] {
+    if (!API_ROLES.includes(role)) {
+        return [];
+    }
+    const deviations: string[] = [];
+    const missing = (expected: string[], actual: string[]) => expected.filter((privilege) => !actual.includes(privilege));
+
+    for (const { schema, privileges: granted } of privileges.schemas) {
+        if (STOCK_SCHEMA_USAGE.includes(schema) && !granted.includes('USAGE')) {
+            deviations.push(`No USAGE on schema ${schema}; stock projects grant it to ${role}.`);
+        }
+        if (schema === 'public' && role !== 'service_role' && granted.includes('CREATE')) {
+            deviations.push(`CREATE on schema public; stock projects only grant ${role} USAGE.`);
+        }
+    }
+
+    const publicSchemaListed = privileges.schemas.some(({ schema }) => schema === 'public');
+    if (publicSchemaListed) {
+        const objects = [
+            ...privileges.tables.map((table) => ({ ...table, type: 'table', expected: TABLE_PRIVILEGES })),
+            ...privileges.sequences.map((sequence) => ({ ...sequence, type: 'sequence', expected: SEQUENCE_PRIVILEGES })),
+            ...privileges.functions.map((fn) => ({ ...fn, name: `${fn.name}(${fn.argument_types})`, type: 'function', expected: ['EXECUTE'] })),
+        ];
+        for (const { schema, name, type, expected, privileges: granted } of objects) {
+            const lacking = missing(expected, granted);
+            if (schema === 'public' && lacking.length > 0) {
+                const what = lacking.length === expected.length ? 'privileges' : lacking.join(', ');
+                deviations.push(`No ${what} on ${type} public.${name}; stock default privileges grant ${role} all ${type} privileges in public.`);
+            }
+        }
+        for (const [objectType, expected] of Object.entries(STOCK_DEFAULT_PRIVILEGES)) {
+            const granted = privileges.default_privileges
+                .filter((entry) => entry.owner === 'postgres' && entry.schema === 'public' && entry.object_type === objectType && entry.grantee === role)
+                .flatMap((entry) => entry.privileges);
+            const lacking = missing(expected, granted);
+            if (lacking.length > 0) {
+                const what = lacking.length === expected.length ? 'anything' : lacking.join(', ');
+                deviations.push(`Default privileges of postgres in schema public don't grant ${what} on new ${objectType}; stock projects grant ${role} all of ${expected.join(', ')}.`);
+            }
+        }
+    }
+
+    if (role !== 'service_role') {
+        const grants = [
+            ...privileges.tables.map(({ schema, name, privileges: granted }) => ({ schema, object: `table ${schema}.${name}`, granted })),
+            ...privileges.columns.map(({ schema, table, column, privileges: granted }) => ({ schema, object: `column ${schema}.${table}.${column}`, granted })),
+        ];
+        for (const { schema, object, granted } of grants) {
+            if (!STOCK_TABLE_GRANT_SCHEMAS.includes(schema) && granted.length > 0) {
+                deviations.push(`${granted.join(', ')} on ${object}; stock projects grant ${role} no tables outside ${STOCK_TABLE_GRANT_SCHEMAS.join(', ')}.`);
+            }
+        }
+    }
+    return deviations;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSqlRows, normalizeSqlValue } from './values.js';
+
+describe('normalizeSqlValue', () => {
+    it.each([
+        ['42', 'integer', 42],
+        ['-7', 'smallint', -7],
+        ['1.5', 'double precision', 1.5],
+        ['NaN', 'real', 'NaN'],
+        ['-Infinity', 'double precision', '-Infinity'],
+        ['9007199254740993', 'bigint', '9007199254740993'],
+        ['42', 'bigint', '42'],
+        ['1.50', 'numeric', '1.50'],
+        ['t', 'boolean', true],
+        ['f', 'boolean', false],
+        ['2024-05-01 14:30:00.123456+02', 'timestamp with time zone', '2024-05-01T12:30:00.123456Z'],
+        ['2024-05-01 12:30:00+05:30:15', 'timestamp with time zone', '2024-05-01T06:59:45Z'],
+        ['infinity', 'timestamp with time zone', 'infinity'],
+        ['2024-05-01 12:30:00.5', 'timestamp without time zone', '2024-05-01T12:30:00.5'],
+        ['2024-05-01', 'date', '2024-05-01'],
+        ['1 year 2 mons -3 days +04:05:06.500', 'interval', 'P1Y2M-3DT4H5M6.5S'],
+        ['-01:00:00', 'interval', 'PT-1H'],
+        ['00:00:00', 'interval', 'PT0S'],
+        ['\\x0102', 'bytea', '\\x0102'],
+        ['{"a": [1, 2]}', 'jsonb', { a: [1, 2] }],
+        ['(1,2)', 'point', '(1,2)'],
+    ])('reads %s as %s', (text, type, expected) => {
+        expect(normalizeSqlValue(text, type, 'text')).toEqual(expected);
+    });
+
+    it('parses arrays, nested and with nulls, by element type', () => {
+        expect(normalizeSqlValue('{{1,2},{3,NULL}}', 'integer[]', 'text')).toEqual([[1, 2], [3, null]]);
+        expect(normalizeSqlValue('{9007199254740993,1}', 'bigint[]', 'text')).toEqual(['9007199254740993', '1']);
+        expect(normalizeSqlValue('{"a b","c,d"}', 'text[]', 'text')).toEqual(['a b', 'c,d']);
+    });
+
+    it('parses ranges and multiranges', () => {
+        expect(normalizeSqlValue('[1,10)', 'int8range', 'text')).toEqual({ lower: '1', upper: '10', lower_inclusive: true, upper_inclusive: false });
+        expect(normalizeSqlValue('empty', 'numrange', 'text')).toEqual({ empty: true });
+        expect(normalizeSqlValue('["2024-05-01 12:00:00+00",)', 'tstzrange', 'text'))
+            .toEqual({ lower: '2024-05-01T12:00:00Z', upper: null, lower_inclusive: true, upper_inclusive: false });
+        expect(normalizeSqlValue('{[1,3),[5,7)}', 'int4multirange', 'text')).toEqual([
+            { lower: 1, upper: 3, lower_inclusive: true, upper_inclusive: false },
+            { lower: 5, upper: 7, lower_inclusive: true, upper_inclusive: false },
+        ]);
+    });
+
+    it('gives to_json values the same shape', () => {
+        expect(normalizeSqlValue('9007199254740993', 'bigint', 'json')).toBe('9007199254740993');
+        expect(normalizeSqlValue(42, 'bigint', 'json')).toBe('42');
+        expect(normalizeSqlValue('1.50', 'numeric', 'json')).toBe('1.50');
+        expect(normalizeSqlValue(3, 'numeric', 'json')).toBe('3');
+        expect(normalizeSqlValue('1.5', 'double precision', 'json')).toBe(1.5);
+        expect(normalizeSqlValue('2024-05-01T14:30:00+02:00', 'timestamp with time zone', 'json')).toBe('2024-05-01T12:30:00Z');
+        expect(normalizeSqlValue('2024-05-01T12:30:00', 'timestamp without time zone', 'json')).toBe('2024-05-01T12:30:00');
+        expect(normalizeSqlValue([1, null], 'bigint[]', 'json')).toEqual(['1', null]);
+        expect(normalizeSqlValue({ a: 1 }, 'json', 'json')).toEqual({ a: 1 });
+    });
+
+    it('leaves values in an unexpected format as printed', () => {
+        expect(normalizeSqlValue('2024-05-01 12:00:00 BC', 'timestamp without time zone', 'text')).toBe('2024-05-01 12:00:00 BC');
+        expect(normalizeSqlValue('{not json', 'jsonb', 'text')).toBe('{not json');
+        expect(normalizeSqlValue('maybe', 'boolean', 'text')).toBe('maybe');
+    });
+});
+
+describe('normalizeSqlRows', () => {
+    it('converts by column type, in column order, leaving nulls and unknown columns alone', () => {
+        const rows = normalizeSqlRows(
+            [{ extra: '1', total: '12', id: '1', note: null }],
+            [{ name: 'id', type: 'integer' }, { name: 'total', type: 'bigint' }, { name: 'note', type: 'text' }, { name: 'extra', type: null }],
+            'text',
+        );
+        expect(rows).toEqual([{ id: 1, total: '12', note: null, extra: '1' }]);
+        expect(Object.keys(rows[0])).toEqual(['id', 'total', 'note', 'extra']);
+    });
+});
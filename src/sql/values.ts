@@ -0,0 +1,229 @@
+import { types } from 'pg';
+
+/**
+ * Converts result values to one JSON representation per Postgres type, whichever path they came
+ * through: Postgres's text output (the direct connection) or to_json output (the RPC helper).
+ *
+ *   boolean                          true / false
+ *   smallint, integer, oid           number
+ *   real, double precision           number; "NaN", "Infinity" and "-Infinity" as strings, like to_json
+ *   bigint                           decimal string, e.g. "42", as values can go beyond ±(2^53 - 1)
+ *   numeric                          string with Postgres's exact digits and scale, e.g. "1.50" or "NaN"
+ *   timestamp with time zone         ISO 8601 in UTC with up to microseconds, e.g. "2024-05-01T12:30:00.123456Z"
+ *   timestamp without time zone      ISO 8601 without a zone, e.g. "2024-05-01T12:30:00.123456"
+ *   date                             "2024-05-01"
+ *   interval                         ISO 8601 duration as Postgres prints it with IntervalStyle iso_8601, e.g. "P1DT2H"
+ *   bytea                            hex string as Postgres prints it, e.g. "\\x0102"
+ *   json, jsonb                      the JSON value itself
+ *   arrays                           JSON arrays (nested when multidimensional) of elements in their own representation
+ *   built-in ranges                  { lower, upper, lower_inclusive, upper_inclusive } with bounds in the subtype's
+ *                                    representation and null for unbounded; { empty: true } for an empty range
+ *   built-in multiranges             arrays of ranges
+ *
+ * Infinite timestamps and dates stay "infinity" and "-infinity". Other types, and values not in the
+ * expected format (say, BC dates or another DateStyle), are left as Postgres printed them.
+ */
+
+/**
+ * Where a value comes from: Postgres's text output, or JSON produced by to_json.
+ */
+export type SqlValueSource = 'text' | 'json';
+
+const RANGE_SUBTYPES: Record<string, string> = {
+    int4range: 'integer',
+    int8range: 'bigint',
+    numrange: 'numeric',
+    tsrange: 'timestamp without time zone',
+    tstzrange: 'timestamp with time zone',
+    daterange: 'date',
+};
+const MULTIRANGE_SUBTYPES: Record<string, string> = Object.fromEntries(
+    Object.entries(RANGE_SUBTYPES).map(([range, subtype]) => [range.replace(/range$/, 'multirange'), subtype]),
+);
+
+const NUMBER_TYPES = new Set(['smallint', 'integer', 'oid', 'real', 'double precision']);
+const SPECIAL_FLOATS = new Set(['NaN', 'Infinity', '-Infinity']);
+
+const TIMESTAMPTZ_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,6}))?([+-])(\d{2})(?::?(\d{2}))?(?::?(\d{2}))?$/;
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?)$/;
+// IntervalStyle postgres, the default: "1 year 2 mons -3 days +04:05:06.5"
+const INTERVAL_PATTERN = /^(?:(-?\d+) years? ?)?(?:(-?\d+) mons? ?)?(?:(-?\d+) days? ?)?(?:([+-]?)(\d+):(\d{2}):(\d{2})(?:\.(\d+))?)?$/;
+
+function toUtcTimestamp(text: string): string {
+    const match = TIMESTAMPTZ_PATTERN.exec(text);
+    if (!match) return text;
+    const [, year, month, day, hour, minute, second, fraction, sign, offsetHours, offsetMinutes, offsetSeconds] = match;
+    const date = new Date(0);
+    date.setUTCFullYear(Number(year), Number(month) - 1, Number(day));
+    date.setUTCHours(Number(hour), Number(minute), Number(second), 0);
+    const offset = (Number(offsetHours) * 3600 + Number(offsetMinutes ?? 0) * 60 + Number(offsetSeconds ?? 0)) * (sign === '-' ? -1 : 1);
+    date.setTime(date.getTime() - offset * 1000);
+    const iso = date.toISOString();
+    // Years past 9999 (or before 1) after the shift don't fit the format; keep what Postgres printed
+    if (iso.length !== 24) return text;
+    return `${iso.slice(0, 19)}${fraction ? `.${fraction}` : ''}Z`;
+}
+
+function toIsoDuration(text: string): string {
+    if (text === '' || text.startsWith('P')) return text;
+    const match = INTERVAL_PATTERN.exec(text);
+    if (!match) return text;
+    const [, years, months, days, timeSign, hours, minutes, seconds, fraction] = match;
+
+    let duration = 'P';
+    if (years && Number(years) !== 0) duration += `${Number(years)}Y`;
+    if (months && Number(months) !== 0) duration += `${Number(months)}M`;
+    if (days && Number(days) !== 0) duration += `${Number(days)}D`;
+
+    let time = '';
+    if (hours !== undefined) {
+        const sign = timeSign === '-' ? '-' : '';
+        const fractionDigits = fraction?.replace(/0+$/, '') ?? '';
+        if (Number(hours) !== 0) time += `${sign}${Number(hours)}H`;
+        if (Number(minutes) !== 0) time += `${sign}${Number(minutes)}M`;
+        if (Number(seconds) !== 0 || fractionDigits) time += `${sign}${Number(seconds)}${fractionDigits ? `.${fractionDigits}` : ''}S`;
+    }
+    if (time) duration += `T${time}`;
+    return duration === 'P' ? 'PT0S' : duration;
+}
+
+function toNumber(value: string | number): number | string {
+    if (typeof value === 'number' || SPECIAL_FLOATS.has(value)) return value;
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+}
+
+// Reads one range bound: unquoted up to the next , ) or ], or quoted with "" and \ escapes
+function readRangeBound(text: string, start: number): { bound: string | null; end: number } {
+    if (text[start] !== '"') {
+        let end = start;
+        while (end < text.length && !',)]'.includes(text[end])) end++;
+        return { bound: end === start ? null : text.slice(start, end), end };
+    }
+    let bound = '';
+    let index = start + 1;
+    while (index < text.length) {
+        const char = text[index];
+        if (char === '\\') {
+            bound += text[index + 1] ?? '';
+            index += 2;
+        } else if (char === '"' && text[index + 1] === '"') {
+            bound += '"';
+            index += 2;
+        } else if (char === '"') {
+            return { bound, end: index + 1 };
+        } else {
+            bound += char;
+            index++;
+        }
+    }
+    return { bound, end: index };
+}
+
+function toRange(text: string, subtype: string): unknown {
+    if (text === 'empty') return { empty: true };
+    if (!'[('.includes(text[0]) || !')]'.includes(text[text.length - 1])) return text;
+    const lower = readRangeBound(text, 1);
+    if (text[lower.end] !== ',') return text;
+    const upper = readRangeBound(text, lower.end + 1);
+    if (upper.end !== text.length - 1) return text;
+    return {
+        lower: lower.bound === null ? null : normalizeSqlValue(lower.bound, subtype, 'text'),
+        upper: upper.bound === null ? null : normalizeSqlValue(upper.bound, subtype, 'text'),
+        lower_inclusive: text[0] === '[',
+        upper_inclusive: text[text.length - 1] === ']',
+    };
+}
+
+function toMultirange(text: string, subtype: string): unknown {
+    if (text[0] !== '{' || text[text.length - 1] !== '}') return text;
+    const ranges: unknown[] = [];
+    let index = 1;
+    while (index < text.length - 1) {
+        // Each range runs to its closing ) or ], skipping over quoted bounds
+        const start = index;
+        const lower = readRangeBound(text, index + 1);
+        const upper = readRangeBound(text, lower.end + 1);
+        index = upper.end + 1;
+        ranges.push(toRange(text.slice(start, index), subtype));
+        if (text[index] === ',') index++;
+    }
+    return ranges;
+}
+
+// Parses Postgres's array literal, e.g. {1,NULL,"a b"}, into nested arrays of element texts
+const parseTextArray = types.getTypeParser(1009, 'text') as (text: string) => unknown;
+
+function mapArray(values: unknown, elementType: string, source: SqlValueSource): unknown {
+    if (!Array.isArray(values)) return values;
+    return values.map((value) => Array.isArray(value)
+        ? mapArray(value, elementType, source)
+        : value === null ? null : normalizeSqlValue(value, elementType, source));
+}
+
+/**
+ * Converts one non-null value of a Postgres type (as named by format_type, e.g. "timestamp with time zone"
+ * or "bigint[]") to its JSON representation. Values of other types are returned as they are.
+ */
+export function normalizeSqlValue(value: unknown, type: string, source: SqlValueSource): unknown {
+    if (type.endsWith('[]')) {
+        const elementType = type.slice(0, -2);
+        if (source === 'json') return mapArray(value, elementType, source);
+        if (typeof value !== 'string') return value;
+        try {
+            return mapArray(parseTextArray(value), elementType, 'text');
+        } catch {
+            return value;
+        }
+    }
+
+    if (type === 'json' || type === 'jsonb') {
+        if (source === 'json' || typeof value !== 'string') return value;
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+
+    // Only the RPC helper's exact numbers are strings; plain JSON numbers come from results it couldn't
+    // describe, and then only when a JSON parser reads them without loss
+    if (typeof value === 'number') {
+        if (type === 'bigint' || type === 'numeric') return String(value);
+        return value;
+    }
+    if (typeof value !== 'string') return value;
+
+    if (type === 'boolean') return value === 't' || value === 'true' ? true : value === 'f' || value === 'false' ? false : value;
+    if (NUMBER_TYPES.has(type)) return toNumber(value);
+    if (type === 'timestamp with time zone') return toUtcTimestamp(value);
+    if (type === 'timestamp without time zone') return value.replace(TIMESTAMP_PATTERN, '$1T$2');
+    if (type === 'interval') return toIsoDuration(value);
+    if (RANGE_SUBTYPES[type]) return toRange(value, RANGE_SUBTYPES[type]);
+    if (MULTIRANGE_SUBTYPES[type]) return toMultirange(value, MULTIRANGE_SUBTYPES[type]);
+    // bigint, numeric, date, bytea and everything else: as printed
+    return value;
+}
+
+/**
+ * Converts every value of a result's rows by the type of its column. Columns of unknown type, and
+ * nulls, are left alone. With duplicate column names, the last column's type applies, as its value does.
+ * Keys follow the column order, which jsonb (as the RPC helper's scripts return rows) doesn't keep.
+ */
+export function normalizeSqlRows(
+    rows: Record<string, unknown>[],
+    columns: { name: string; type: string | null }[],
+    source: SqlValueSource,
+): Record<string, unknown>[] {
+    const types = new Map(columns.map((column) => [column.name, column.type]));
+    return rows.map((row) => {
+        const normalized: Record<string, unknown> = {};
+        for (const name of [...types.keys(), ...Object.keys(row)]) {
+            if (!Object.hasOwn(row, name) || Object.hasOwn(normalized, name)) continue;
+            const value = row[name];
+            const type = types.get(name);
+            normalized[name] = value === null || !type ? value : normalizeSqlValue(value, type, source);
+        }
+        return normalized;
+    });
+}
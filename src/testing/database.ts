@@ -0,0 +1,41 @@
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { SelfhostedSupabaseClient } from '../client/index.js';
+import type { SelfhostedSupabaseClientOptions } from '../types/index.js';
+
+/**
+ * An in-process Postgres (PGlite) reachable over TCP, for tests that need a real database.
+ * Its connections share one backend session, so tests should use a single pooled connection.
+ */
+export interface TestDatabase {
+    url: string;
+    db: PGlite;
+    stop(): Promise<void>;
+}
+
+export async function startTestDatabase(): Promise<TestDatabase> {
+    const db = await PGlite.create();
+    const server = new PGLiteSocketServer({ db, port: 0, maxConnections: 4 });
+    await server.start();
+    return {
+        url: `postgresql://postgres:postgres@${server.getServerConn()}/postgres`,
+        db,
+        stop: async () => {
+            await server.stop();
+            await db.close();
+        },
+    };
+}
+
+/**
+ * A client using only the direct connection to `database`, on one pooled connection.
+ */
+export function createTestClient(database: TestDatabase, options: Partial<SelfhostedSupabaseClientOptions> = {}): Promise<SelfhostedSupabaseClient> {
+    return SelfhostedSupabaseClient.create({
+        supabaseUrl: 'http://127.0.0.1:1',
+        supabaseAnonKey: 'anon',
+        databaseUrl: database.url,
+        ...options,
+        pg: { poolMax: 1, ...options.pg },
+    });
+}
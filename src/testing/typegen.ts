@@ -0,0 +1,64 @@
+import { fetchTypegenCatalog } from '../typegen/catalog.js';
+import type { TypegenCatalog } from '../typegen/catalog.js';
+import { createTestClient, startTestDatabase } from './database.js';
+
+/**
+ * A schema covering what the type generators handle: identity, generated and defaulted columns,
+ * enums, composite types, arrays, domains, CHECK lists, foreign keys, views and functions.
+ */
+export const TYPEGEN_FIXTURE_SQL = `
+    CREATE TYPE public.mood AS ENUM ('happy', 'sad');
+    CREATE TYPE public.address AS (street text, zip integer);
+    CREATE DOMAIN public.email AS text;
+    CREATE SCHEMA billing;
+
+    CREATE TABLE public.authors (
+        id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+        name varchar(20) NOT NULL,
+        email public.email,
+        mood public.mood,
+        home public.address,
+        tags text[] NOT NULL DEFAULT '{}',
+        profile jsonb,
+        status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired', 'it''s complicated')),
+        "created at" timestamptz NOT NULL DEFAULT now()
+    );
+    CREATE TABLE public.books (
+        id serial PRIMARY KEY,
+        author_id bigint NOT NULL REFERENCES public.authors (id),
+        title text NOT NULL,
+        title_upper text GENERATED ALWAYS AS (upper(title)) STORED,
+        price numeric(8, 2),
+        isbn uuid
+    );
+    CREATE TABLE billing.invoices (
+        id integer GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+        book_id integer UNIQUE REFERENCES public.books (id),
+        issued date NOT NULL
+    );
+    CREATE VIEW public.book_titles AS SELECT id, title FROM public.books;
+
+    CREATE FUNCTION public.add(a integer, b integer DEFAULT 1) RETURNS integer LANGUAGE sql AS 'SELECT a + b';
+    CREATE FUNCTION public.books_by(author bigint) RETURNS SETOF public.books LANGUAGE sql
+        AS 'SELECT * FROM public.books WHERE author_id = author';
+    CREATE FUNCTION public.counts(OUT authors bigint, OUT books bigint) LANGUAGE sql
+        AS 'SELECT (SELECT count(*) FROM public.authors), (SELECT count(*) FROM public.books)';
+`;
+
+/**
+ * Creates TYPEGEN_FIXTURE_SQL in a fresh database and reads its catalog as the type generators do.
+ */
+export async function fetchFixtureCatalog(schemas: string[]): Promise<TypegenCatalog> {
+    const database = await startTestDatabase();
+    try {
+        await database.db.exec(TYPEGEN_FIXTURE_SQL);
+        const client = await createTestClient(database);
+        try {
+            return await fetchTypegenCatalog(client, schemas);
+        } finally {
+            await client.close();
+        }
+    } finally {
+        await database.stop();
+    }
+}
@@ -0,0 +1,52 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import { createTestClient, startTestDatabase } from '../testing/database.js';
+import type { TestDatabase } from '../testing/database.js';
+import { describeTableTool } from './describe_table.js';
+
+describe('describe_table', () => {
+    let database: TestDatabase;
+    let client: SelfhostedSupabaseClient;
+
+    beforeAll(async () => {
+        database = await startTestDatabase();
+        await database.db.exec(`
+            CREATE TABLE public.documents (id bigint PRIMARY KEY, body text);
+            INSERT INTO public.documents SELECT i, repeat(md5(i::text), 200) FROM generate_series(1, 50) AS i;
+            CREATE TABLE public.points (x int, y int);
+        `);
+        // Creates the free space and visibility maps
+        await database.db.query('VACUUM public.documents');
+        client = await createTestClient(database);
+    });
+    afterAll(async () => {
+        await client.close();
+        await database.stop();
+    });
+
+    const describeTable = (table: string) => describeTableTool.execute(
+        describeTableTool.inputSchema.parse({ table }),
+        { selfhostedClient: client, log: () => {} },
+    );
+
+    it('returns sizes as decimal strings, with TOAST counted from the TOAST table', async () => {
+        const table = await describeTable('documents');
+        const sizes = await database.db.query<Record<string, string>>(`
+            SELECT pg_total_relation_size(c.oid)::text AS total, pg_relation_size(c.oid)::text AS main,
+                   pg_indexes_size(c.oid)::text AS indexes, pg_total_relation_size(c.reltoastrelid)::text AS toast,
+                   pg_relation_size('documents_pkey')::text AS pkey
+            FROM pg_class c WHERE c.oid = 'public.documents'::regclass`);
+        const { total, main, indexes, toast, pkey } = sizes.rows[0];
+
+        expect(table.size).toEqual({ total_bytes: total, table_bytes: main, index_bytes: indexes, toast_bytes: toast });
+        expect(Number(toast)).toBeGreaterThan(0);
+        // The free space and visibility maps count in the total, but not as TOAST
+        expect(Number(total)).toBeGreaterThan(Number(main) + Number(indexes) + Number(toast));
+        expect(table.indexes).toMatchObject([{ name: 'documents_pkey', size_bytes: pkey }]);
+    });
+
+    it('reports no TOAST for a table without one', async () => {
+        const table = await describeTable('points');
+        expect(table.size.toast_bytes).toBe('0');
+    });
+});
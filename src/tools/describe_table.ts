@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import { policiesSql, triggerSql } from '../sql/catalog.js';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Input schema
+const DescribeTableInputSchema = z.object({
+    schema: z.string().optional().default('public').describe('Schema of the table.'),
+    table: z.string().describe('Name of the table (also views, materialized views and foreign tables).'),
+});
+type DescribeTableInput = z.infer<typeof DescribeTableInputSchema>;
+
+const ForeignKeyActionSchema = z.enum(['NO ACTION', 'RESTRICT', 'CASCADE', 'SET NULL', 'SET DEFAULT']);
+
+// Output schema
+const DescribeTableOutputSchema = z.object({
+    schema: z.string(),
+    name: z.string(),
+    kind: z.enum(['table', 'partitioned_table', 'view', 'materialized_view', 'foreign_table']),
+    comment: z.string().nullable(),
+    estimated_rows: z.string().nullable().describe('A bigint as a decimal string: from the planner statistics (reltuples), or the live row count if the table was never analyzed.'),
+    size: z.object({
+        total_bytes: z.string().describe('Table, indexes and TOAST together.'),
+        table_bytes: z.string().describe("The table's main data, without its free space and visibility maps."),
+        index_bytes: z.string(),
+        toast_bytes: z.string().describe('The TOAST table and its index; 0 without one.'),
+    }).describe('Sizes on disk in bytes, bigints as decimal strings.'),
+    columns: z.array(z.object({
+        name: z.string(),
+        type: z.string().describe('With modifiers, e.g. character varying(255).'),
+        nullable: z.boolean(),
+        default: z.string().nullable(),
+        identity: z.enum(['always', 'by_default']).nullable().describe('GENERATED ALWAYS / BY DEFAULT AS IDENTITY.'),
+        generated: z.string().nullable().describe('Expression of a generated column.'),
+        comment: z.string().nullable(),
+    })),
+    primary_key: z.object({
+        name: z.string(),
+        columns: z.array(z.string()),
+    }).nullable(),
+    unique_constraints: z.array(z.object({
+        name: z.string(),
+        columns: z.array(z.string()),
+        definition: z.string(),
+    })),
+    check_constraints: z.array(z.object({
+        name: z.string(),
+        definition: z.string(),
+    })),
+    foreign_keys: z.array(z.object({
+        name: z.string(),
+        columns: z.array(z.string()),
+        referenced_schema: z.string(),
+        referenced_table: z.string(),
+        referenced_columns: z.array(z.string()),
+        on_update: ForeignKeyActionSchema,
+        on_delete: ForeignKeyActionSchema,
+    })).describe('Foreign keys of this table, referencing other tables (or itself).'),
+    referenced_by: z.array(z.object({
+        name: z.string(),
+        schema: z.string(),
+        table: z.string(),
+        columns: z.array(z.string()),
+        referenced_columns: z.array(z.string()),
+        on_update: ForeignKeyActionSchema,
+        on_delete: ForeignKeyActionSchema,
+    })).describe('Foreign keys of other tables (or this one) referencing this table.'),
+    indexes: z.array(z.object({
+        name: z.string(),
+        definition: z.string().describe('The CREATE INDEX statement.'),
+        method: z.string().describe('Access method, e.g. btree or gin.'),
+        primary: z.boolean(),
+        unique: z.boolean(),
+        valid: z.boolean().describe('False while CREATE INDEX CONCURRENTLY is building it, or after it failed.'),
+        size_bytes: z.string().describe('A bigint as a decimal string.'),
+    })),
+    triggers: z.array(z.object({
+        name: z.string(),
+        timing: z.enum(['BEFORE', 'AFTER', 'INSTEAD OF']),
+        events: z.array(z.enum(['INSERT', 'UPDATE', 'DELETE', 'TRUNCATE'])),
+        level: z.enum(['ROW', 'STATEMENT']),
+        function: z.string(),
+        enabled: z.enum(['origin', 'always', 'replica', 'disabled']).describe('origin: fires normally; replica: only with session_replication_role = replica; always: in both cases.'),
+        definition: z.string().describe('The CREATE TRIGGER statement.'),
+    })),
+    rls: z.object({
+        enabled: z.boolean(),
+        forced: z.boolean().describe('Whether RLS also applies to the table owner.'),
+        policies: z.array(z.object({
+            name: z.string(),
+            command: z.enum(['ALL', 'SELECT', 'INSERT', 'UPDATE', 'DELETE']),
+            permissive: z.boolean().describe('False for RESTRICTIVE policies.'),
+            roles: z.array(z.string()),
+            using: z.string().nullable(),
+            with_check: z.string().nullable(),
+        })),
+    }),
+});
+
+// Names pg_constraint's confupdtype/confdeltype codes
+function foreignKeyActionSql(code: string): string {
+    return `CASE ${code} WHEN 'r' THEN 'RESTRICT' WHEN 'c' THEN 'CASCADE' WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' ELSE 'NO ACTION' END`;
+}
+
+// Column names of a constraint's attribute numbers, in key order
+function keyColumnsSql(relation: string, keys: string): string {
+    return `(
+                SELECT COALESCE(json_agg(a.attname ORDER BY k.position), '[]')
+                FROM unnest(${keys}) WITH ORDINALITY AS k(attnum, position)
+                JOIN pg_catalog.pg_attribute a ON a.attrelid = ${relation} AND a.attnum = k.attnum
+            )`;
+}
+
+const TRIGGER_SQL = triggerSql('t');
+
+// One row for the table, its parts aggregated as JSON; $1 is the schema, $2 the table
+const DESCRIBE_TABLE_SQL = `
+    SELECT
+        n.nspname AS schema,
+        c.relname AS name,
+        CASE c.relkind
+            WHEN 'r' THEN 'table' WHEN 'p' THEN 'partitioned_table' WHEN 'v' THEN 'view'
+            WHEN 'm' THEN 'materialized_view' WHEN 'f' THEN 'foreign_table'
+        END AS kind,
+        obj_description(c.oid, 'pg_class') AS comment,
+        CASE WHEN c.relkind IN ('r', 'p', 'm') THEN COALESCE(NULLIF(c.reltuples, -1), s.n_live_tup)::bigint END AS estimated_rows,
+        -- bigints as text, which json_build_object would turn into JSON numbers
+        json_build_object(
+            'total_bytes', pg_total_relation_size(c.oid)::text,
+            'table_bytes', pg_relation_size(c.oid)::text,
+            'index_bytes', pg_indexes_size(c.oid)::text,
+            'toast_bytes', (CASE WHEN c.reltoastrelid = 0 THEN 0 ELSE pg_total_relation_size(c.reltoastrelid) END)::text
+        ) AS size,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'name', a.attname,
+                'type', format_type(a.atttypid, a.atttypmod),
+                'nullable', NOT a.attnotnull,
+                'default', CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END,
+                'identity', CASE a.attidentity WHEN 'a' THEN 'always' WHEN 'd' THEN 'by_default' END,
+                'generated', CASE WHEN a.attgenerated <> '' THEN pg_get_expr(d.adbin, d.adrelid) END,
+                'comment', col_description(a.attrelid, a.attnum)
+            ) ORDER BY a.attnum), '[]')
+            FROM pg_catalog.pg_attribute a
+            LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+            WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+        ) AS columns,
+        (
+            SELECT json_build_object('name', con.conname, 'columns', ${keyColumnsSql('con.conrelid', 'con.conkey')})
+            FROM pg_catalog.pg_constraint con
+            WHERE con.conrelid = c.oid AND con.contype = 'p'
+        ) AS primary_key,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'name', con.conname,
+                'columns', ${keyColumnsSql('con.conrelid', 'con.conkey')},
+                'definition', pg_get_constraintdef(con.oid)
+            ) ORDER BY con.conname), '[]')
+            FROM pg_catalog.pg_constraint con
+            WHERE con.conrelid = c.oid AND con.contype = 'u'
+        ) AS unique_constraints,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'name', con.conname,
+                'definition', pg_get_constraintdef(con.oid)
+            ) ORDER BY con.conname), '[]')
+            FROM pg_catalog.pg_constraint con
+            WHERE con.conrelid = c.oid AND con.contype = 'c'
+        ) AS check_constraints,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'name', con.conname,
+                'columns', ${keyColumnsSql('con.conrelid', 'con.conkey')},
+                'referenced_schema', rn.nspname,
+                'referenced_table', rc.relname,
+                'referenced_columns', ${keyColumnsSql('con.confrelid', 'con.confkey')},
+                'on_update', ${foreignKeyActionSql('con.confupdtype')},
+                'on_delete', ${foreignKeyActionSql('con.confdeltype')}
+            ) ORDER BY con.conname), '[]')
+            FROM pg_catalog.pg_constraint con
+            JOIN pg_catalog.pg_class rc ON rc.oid = con.confrelid
+            JOIN pg_catalog.pg_namespace rn ON rn.oid = rc.relnamespace
+            WHERE con.conrelid = c.oid AND con.contype = 'f'
+        ) AS foreign_keys,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'name', con.conname,
+                'schema', fn.nspname,
+                'table', fc.relname,
+                'columns', ${keyColumnsSql('con.conrelid', 'con.conkey')},
+                'referenced_columns', ${keyColumnsSql('con.confrelid', 'con.confkey')},
+                'on_update', ${foreignKeyActionSql('con.confupdtype')},
+                'on_delete', ${foreignKeyActionSql('con.confdeltype')}
+            ) ORDER BY fn.nspname, fc.relname, con.conname), '[]')
+            FROM pg_catalog.pg_constraint con
+            JOIN pg_catalog.pg_class fc ON fc.oid = con.conrelid
+            JOIN pg_catalog.pg_namespace fn ON fn.oid = fc.relnamespace
+            -- Partitions inherit their parent's foreign keys; report the parent's only
+            WHERE con.confrelid = c.oid AND con.contype = 'f' AND con.conparentid = 0
+        ) AS referenced_by,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'name', ic.relname,
+                'definition', pg_get_indexdef(i.indexrelid),
+                'method', am.amname,
+                'primary', i.indisprimary,
+                'unique', i.indisunique,
+                'valid', i.indisvalid,
+                'size_bytes', pg_relation_size(i.indexrelid)::text
+            ) ORDER BY ic.relname), '[]')
+            FROM pg_catalog.pg_index i
+            JOIN pg_catalog.pg_class ic ON ic.oid = i.indexrelid
+            JOIN pg_catalog.pg_am am ON am.oid = ic.relam
+            WHERE i.indrelid = c.oid
+        ) AS indexes,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'name', t.tgname,
+                'timing', ${TRIGGER_SQL.timing},
+                'events', ${TRIGGER_SQL.events},
+                'level', ${TRIGGER_SQL.level},
+                'function', ${TRIGGER_SQL.function},
+                'enabled', ${TRIGGER_SQL.enabled},
+                'definition', ${TRIGGER_SQL.definition}
+            ) ORDER BY t.tgname), '[]')
+            FROM pg_catalog.pg_trigger t
+            WHERE t.tgrelid = c.oid AND NOT t.tgisinternal
+        ) AS triggers,
+        json_build_object(
+            'enabled', c.relrowsecurity,
+            'forced', c.relforcerowsecurity,
+            'policies', ${policiesSql('n.nspname', 'c.relname')}
+        ) AS rls
+    FROM pg_catalog.pg_class c
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_catalog.pg_stat_all_tables s ON s.relid = c.oid
+    WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+`;
+
+export const describeTableTool = {
+    name: 'describe_table',
+    description: 'Describes a table in one response: columns (type, nullability, default, identity, generated expression, comment), primary key, unique and check constraints, foreign keys in both directions, indexes with their definitions, triggers, RLS status and policies, the estimated row count and the size on disk.',
+    inputSchema: DescribeTableInputSchema,
+    outputSchema: DescribeTableOutputSchema,
+    execute: async (input: DescribeTableInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        const result = await executeSqlWithFallback(client, DESCRIBE_TABLE_SQL, true, [input.schema, input.table]);
+        const rows = handleSqlResponse(result, z.array(DescribeTableOutputSchema));
+        if (rows.length === 0) {
+            throw new Error(`Table ${input.schema}.${input.table} not found.`);
+        }
+        return rows[0];
+    },
+};
@@ -1,44 +1,88 @@
-import { z } from 'zod';
-import type { SelfhostedSupabaseClient } from '../client/index.js';
-// import type { McpToolDefinition } from '@modelcontextprotocol/sdk'; // Removed incorrect import
-import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
-import type { ToolContext } from './types.js';
-
-// Input schema
-const ExecuteSqlInputSchema = z.object({
-    sql: z.string().describe('The SQL query to execute.'),
-    read_only: z.boolean().optional().default(false).describe('Hint for the RPC function whether the query is read-only (best effort).'),
-    // Future enhancement: Add option to force direct connection?
-    // use_direct_connection: z.boolean().optional().default(false).describe('Attempt to use direct DB connection instead of RPC.'),
-});
-type ExecuteSqlInput = z.infer<typeof ExecuteSqlInputSchema>;
-
-// Output schema - expects an array of results (rows)
-const ExecuteSqlOutputSchema = z.array(z.unknown()).describe('The array of rows returned by the SQL query.');
-
-// Static JSON Schema for MCP capabilities
-const mcpInputSchema = {
-    type: 'object',
-    properties: {
-        sql: { type: 'string', description: 'The SQL query to execute.' },
-        read_only: { type: 'boolean', default: false, description: 'Hint for the RPC function whether the query is read-only (best effort).' },
-    },
-    required: ['sql'],
-};
-
-// The tool definition - No explicit McpToolDefinition type needed
-export const executeSqlTool = {
-    name: 'execute_sql',
-    description: 'Executes an arbitrary SQL query against the database, using direct database connection when available or RPC function as fallback.',
-    inputSchema: ExecuteSqlInputSchema,
-    mcpInputSchema: mcpInputSchema,
-    outputSchema: ExecuteSqlOutputSchema,
-    execute: async (input: ExecuteSqlInput, context: ToolContext) => {
-        const client = context.selfhostedClient;
-
-        console.error(`Executing SQL (readOnly: ${input.read_only}): ${input.sql.substring(0, 100)}...`);
-        
-        const result = await executeSqlWithFallback(client, input.sql, input.read_only);
-        return handleSqlResponse(result, ExecuteSqlOutputSchema);
-    },
+import { z } from 'zod';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+// import type { McpToolDefinition } from '@modelcontextprotocol/sdk'; // Removed incorrect import
+import { resolveSqlIdentity, SQL_ROLES } from '../auth/index.js';
+import { SqlParamSchema } from '../sql/params.js';
+import { handleSqlResponse, executeSqlPageWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Input schema
+const ExecuteSqlInputSchema = z.object({
+    sql: z.string().optional().describe('The SQL query to execute. Omit when passing a cursor.'),
+    cursor: z.string().optional().describe('next_cursor from a previous call, to fetch the next page of its result. The other arguments except max_rows and max_bytes are ignored; the page is read as the original query ran.'),
+    max_rows: z.number().int().positive().optional().describe('Most rows to return in this page. Capped by the server limit.'),
+    max_bytes: z.number().int().positive().optional().describe('Most bytes of JSON rows to return in this page. Capped by the server limit.'),
+    read_only: z.boolean().optional().default(false).describe('Run the query in a read-only transaction. Always enforced when the server runs in read-only mode. Cursor fetches are always read-only.'),
+    timeout_ms: z.number().int().positive().optional().describe('Statement timeout for this call, in milliseconds. Capped by the server timeout.'),
+    as_role: z.enum(SQL_ROLES).optional().describe('Run the query as this database role, with matching JWT claims, the way PostgREST runs client requests. RLS policies apply. Requires a direct database connection.'),
+    as_user_id: z.string().uuid().optional().describe('Run the query as this auth.users user: their role (unless as_role is given) and the claims of their access token, so auth.uid() and RLS policies see them. Requires a direct database connection.'),
+    params: z.array(SqlParamSchema).optional().describe('Values for the $1..$n placeholders in the query, bound safely instead of concatenated into the SQL. Use { "type": "uuid" | "jsonb" | "timestamptz" | "text[]" | ..., "value": ... } to cast a parameter to a specific type.'),
+    // Future enhancement: Add option to force direct connection?
+    // use_direct_connection: z.boolean().optional().default(false).describe('Attempt to use direct DB connection instead of RPC.'),
+}).refine(data => (data.sql === undefined) !== (data.cursor === undefined), {
+    message: 'Pass either sql or cursor',
+    path: ['sql'],
+})
+// Fetching a page only reads the result of a query that already ran, so it counts as read-only
+// (and passes policies that require read_only: true) whatever the caller sent
+.transform(data => data.cursor === undefined ? data : { ...data, read_only: true });
+type ExecuteSqlInput = z.infer<typeof ExecuteSqlInputSchema>;
+
+// Output schema - one page of rows, with the result's columns and how to get the rest
+const ExecuteSqlOutputSchema = z.object({
+    rows: z.array(z.record(z.unknown())).describe('The rows in this page.'),
+    columns: z.array(z.object({
+        name: z.string(),
+        type: z.string().describe('Postgres type, e.g. uuid or timestamp with time zone.'),
+    })).describe('The result columns.'),
+    row_count: z.number().describe('Number of rows in this page.'),
+    truncated: z.boolean().describe('True if the result has more rows than this page holds.'),
+    truncated_by: z.enum(['max_rows', 'max_bytes']).optional().describe('The limit that ended this page.'),
+    next_cursor: z.string().optional().describe('Pass as cursor to fetch the next page. Expires after two minutes without use.'),
+    notice: z.string().optional(),
+});
+
+// Page limits: the caller's, capped by the server's
+function pageLimits(input: ExecuteSqlInput, context: ToolContext) {
+    const limits = context.selfhostedClient.getSqlLimits();
+    return {
+        maxRows: Math.min(input.max_rows ?? limits.maxRows, limits.maxRows),
+        maxBytes: Math.min(input.max_bytes ?? limits.maxBytes, limits.maxBytes),
+    };
+}
+
+// The tool definition - No explicit McpToolDefinition type needed
+export const executeSqlTool = {
+    name: 'execute_sql',
+    description: 'Executes an arbitrary SQL query against the database, using direct database connection when available or RPC function as fallback. Pass user-supplied values as params ($1, $2, ...) rather than embedding them in the SQL. Results are returned a page at a time; when truncated, a single SELECT returns a next_cursor for the following page.',
+    inputSchema: ExecuteSqlInputSchema,
+    outputSchema: ExecuteSqlOutputSchema,
+    execute: async (input: ExecuteSqlInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+        const limits = pageLimits(input, context);
+
+        const result = await client.runWithCallOptions({ timeoutMs: input.timeout_ms }, async () => {
+            if (input.cursor !== undefined) {
+                console.error(`Fetching next SQL page (maxRows: ${limits.maxRows}, maxBytes: ${limits.maxBytes})`);
+                return client.fetchSqlPage(input.cursor, limits);
+            }
+            const sql = input.sql ?? '';
+            console.error(`Executing SQL (readOnly: ${input.read_only}, params: ${input.params?.length ?? 0}, role: ${input.as_role ?? '-'}, user: ${input.as_user_id ?? '-'}): ${sql.substring(0, 100)}...`);
+            const identity = await resolveSqlIdentity(client, { role: input.as_role, userId: input.as_user_id });
+            return executeSqlPageWithFallback(client, sql, { readOnly: input.read_only, params: input.params, identity, ...limits });
+        });
+        if ('error' in result) {
+            return handleSqlResponse(result, ExecuteSqlOutputSchema);
+        }
+
+        return ExecuteSqlOutputSchema.parse({
+            rows: result.rows,
+            columns: result.columns,
+            row_count: result.rows.length,
+            truncated: result.truncatedBy !== undefined,
+            truncated_by: result.truncatedBy,
+            next_cursor: result.nextCursor,
+            notice: result.notice,
+        });
+    },
 }; 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { parseSqlScript } from '../sql/script.js';
+import { handleSqlResponse, executeSqlScriptWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Input schema
+const ExecuteSqlScriptInputSchema = z.object({
+    sql: z.string().describe('The SQL script: one or more statements separated by semicolons.'),
+    transaction: z.enum(['atomic', 'independent']).optional().default('atomic').describe('atomic: run the whole script in one transaction, rolled back at the first error. independent: run each statement on its own, continuing after errors.'),
+    read_only: z.boolean().optional().default(false).describe('Run the statements in read-only transactions. Always enforced when the server runs in read-only mode.'),
+    max_rows: z.number().int().positive().optional().describe('Most rows to return per statement. Capped by the server limit.'),
+    max_bytes: z.number().int().positive().optional().describe('Most bytes of JSON rows to return per statement. Capped by the server limit.'),
+    timeout_ms: z.number().int().positive().optional().describe('Statement timeout for each statement, in milliseconds. Capped by the server timeout.'),
+});
+type ExecuteSqlScriptInput = z.infer<typeof ExecuteSqlScriptInputSchema>;
+
+// Output schema - one result per statement, in order
+const ExecuteSqlScriptOutputSchema = z.object({
+    rolled_back: z.boolean().describe('True if an atomic script failed and none of its statements took effect.'),
+    statements: z.array(z.object({
+        index: z.number().describe('Position of the statement in the script, from 0.'),
+        command: z.string().describe('Command tag, e.g. SELECT, INSERT or CREATE.'),
+        status: z.enum(['ok', 'error', 'skipped']),
+        row_count: z.number().nullable().describe('Rows returned or affected.'),
+        rows: z.array(z.record(z.unknown())).optional().describe('Rows, for statements that return them.'),
+        truncated_by: z.enum(['max_rows', 'max_bytes']).optional(),
+        error: z.object({
+            message: z.string(),
+            code: z.string().optional(),
+        }).optional(),
+    })),
+});
+
+export const executeSqlScriptTool = {
+    name: 'execute_sql_script',
+    description: 'Executes a multi-statement SQL script and returns a result per statement (command, row count, rows, error). By default the script runs in one transaction that is rolled back at the first error; with transaction "independent" every statement commits on its own. Transaction control statements (BEGIN, COMMIT, ...), SET TRANSACTION and changes to transaction_read_only are not allowed.',
+    inputSchema: ExecuteSqlScriptInputSchema,
+    outputSchema: ExecuteSqlScriptOutputSchema,
+    execute: async (input: ExecuteSqlScriptInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+        const limits = client.getSqlLimits();
+
+        const statements = parseSqlScript(input.sql);
+        console.error(`Executing SQL script (${statements.length} statements, transaction: ${input.transaction}, readOnly: ${input.read_only})`);
+
+        const result = await client.runWithCallOptions({ timeoutMs: input.timeout_ms }, () => executeSqlScriptWithFallback(client, statements, {
+            readOnly: input.read_only,
+            atomic: input.transaction === 'atomic',
+            maxRows: Math.min(input.max_rows ?? limits.maxRows, limits.maxRows),
+            maxBytes: Math.min(input.max_bytes ?? limits.maxBytes, limits.maxBytes),
+            // Progress is per statement on the direct connection; via RPC the script runs in one call
+            onStatement: (done) => void context.reportProgress?.(done, statements.length, `Ran ${done} of ${statements.length} statements`),
+        }));
+        if ('error' in result) {
+            return handleSqlResponse(result, ExecuteSqlScriptOutputSchema);
+        }
+
+        return ExecuteSqlScriptOutputSchema.parse({
+            rolled_back: result.rolledBack,
+            statements: result.statements.map((statement, index) => ({
+                index,
+                command: statement.command,
+                status: statement.status,
+                row_count: statement.rowCount,
+                rows: statement.rows,
+                truncated_by: statement.truncatedBy,
+                error: statement.error && { message: statement.error.message, code: statement.error.code },
+            })),
+        });
+    },
+};
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import type { PoolClient, QueryConfig } from 'pg';
+import { summarizePlan, seqScannedRelations } from '../sql/explain.js';
+import type { ExplainOutput } from '../sql/explain.js';
+import { isKeyword, significantTokens, splitSqlStatements } from '../sql/lexer.js';
+import { bindSqlParams, SqlParamSchema } from '../sql/params.js';
+import type { ToolContext } from './types.js';
+
+// Input schema
+const ExplainQueryInputSchema = z.object({
+    sql: z.string().describe('The statement to explain, without EXPLAIN.'),
+    params: z.array(SqlParamSchema).optional().describe('Values for the $1..$n placeholders in the statement, as for execute_sql.'),
+    analyze: z.boolean().optional().default(false).describe('Run the statement to get actual row counts and timings (EXPLAIN ANALYZE). It runs in a transaction that is always rolled back, so data-modifying statements leave no changes behind (sequences still advance).'),
+    large_table_rows: z.number().int().positive().optional().default(10000).describe('Sequential scans on tables with at least this many rows are reported.'),
+    timeout_ms: z.number().int().positive().optional().describe('Statement timeout for this call, in milliseconds. Capped by the server timeout.'),
+});
+type ExplainQueryInput = z.infer<typeof ExplainQueryInputSchema>;
+
+// Output schema
+const ExplainQueryOutputSchema = z.object({
+    analyzed: z.boolean(),
+    total_cost: z.number().describe('Estimated total cost of the plan.'),
+    planning_time_ms: z.number().optional(),
+    execution_time_ms: z.number().optional(),
+    plan: z.array(z.string()).describe('The plan tree, one line per node (#n), indented by depth.'),
+    findings: z.array(z.object({
+        node: z.number().describe('The #n of the plan node.'),
+        kind: z.enum(['seq_scan', 'misestimate', 'sort_spill', 'hash_spill', 'expensive']),
+        message: z.string(),
+    })).describe('Likely problems: sequential scans on large tables, misestimated rows, sorts and hashes spilling to disk, and the most expensive nodes.'),
+});
+
+// Estimated rows per table; n_live_tup covers tables that were never analyzed
+const TABLE_ROWS_SQL = `
+    SELECT n.nspname || '.' || c.relname AS relation,
+           COALESCE(NULLIF(c.reltuples, -1), s.n_live_tup)::float8 AS rows
+    FROM pg_catalog.pg_class c
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_catalog.pg_stat_all_tables s ON s.relid = c.oid
+    WHERE n.nspname || '.' || c.relname = ANY($1::text[])
+`;
+
+export const explainQueryTool = {
+    name: 'explain_query',
+    description: 'Shows the execution plan of a statement (EXPLAIN with FORMAT JSON and BUFFERS, optionally ANALYZE) as a condensed plan tree, with findings for sequential scans on large tables, misestimated rows, sorts spilling to disk and the most expensive nodes. ANALYZE runs the statement in a transaction that is always rolled back. Requires a direct database connection.',
+    inputSchema: ExplainQueryInputSchema,
+    outputSchema: ExplainQueryOutputSchema,
+    execute: async (input: ExplainQueryInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        if (!client.isPgAvailable()) {
+            throw new Error('Direct database connection (DATABASE_URL) is required for explain_query but is not configured or available.');
+        }
+
+        const statements = splitSqlStatements(input.sql);
+        if (statements.length !== 1) {
+            throw new Error(`explain_query takes exactly one statement, got ${statements.length}.`);
+        }
+        if (isKeyword(significantTokens(statements[0].tokens)[0], 'explain')) {
+            throw new Error('Pass the statement without EXPLAIN; use the analyze argument for EXPLAIN ANALYZE.');
+        }
+        const bound = input.params
+            ? bindSqlParams(statements[0].text, input.params)
+            : { text: statements[0].text, values: [] };
+
+        const options = ['FORMAT JSON', 'VERBOSE', 'BUFFERS'];
+        if (input.analyze) options.push('ANALYZE');
+        console.error(`Explaining query (analyze: ${input.analyze}): ${statements[0].text.substring(0, 100)}...`);
+
+        // Without ANALYZE nothing runs, so the transaction can be read-only
+        const { output, tableRows } = await client.runWithCallOptions({ timeoutMs: input.timeout_ms }, () => client.executeTransactionWithPg(async (pgClient: PoolClient) => {
+            // Extended protocol: exactly one statement, with the parameters bound
+            const result = await pgClient.query({
+                text: `EXPLAIN (${options.join(', ')}) ${bound.text}`,
+                values: bound.values,
+                queryMode: 'extended',
+            } as QueryConfig);
+            const output = (result.rows[0]['QUERY PLAN'] as ExplainOutput[])[0];
+
+            const relations = seqScannedRelations(output);
+            const tableRows = new Map<string, number>();
+            if (relations.length > 0) {
+                const sizes = await pgClient.query(TABLE_ROWS_SQL, [relations]);
+                for (const row of sizes.rows as { relation: string; rows: number | null }[]) {
+                    if (row.rows !== null) tableRows.set(row.relation, row.rows);
+                }
+            }
+            return { output, tableRows };
+        }, !input.analyze, true));
+
+        const summary = summarizePlan(output, {
+            largeTableRows: input.large_table_rows,
+            tableRows: (relation) => tableRows.get(relation),
+        });
+        return {
+            analyzed: summary.analyzed,
+            total_cost: summary.totalCost,
+            planning_time_ms: summary.planningTimeMs,
+            execution_time_ms: summary.executionTimeMs,
+            plan: summary.plan,
+            findings: summary.findings,
+        };
+    },
+};
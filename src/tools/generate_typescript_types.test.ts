@@ -0,0 +1,53 @@
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import { generateTypesTool } from './generate_typescript_types.js';
+
+describe.skipIf(process.platform === 'win32')('generate_typescript_types with the cli backend', () => {
+    let dir: string;
+    let path: string | undefined;
+
+    // A stand-in for the Supabase CLI that prints its arguments and PGPASSWORD instead of types
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'typegen-cli-'));
+        writeFileSync(join(dir, 'supabase'), '#!/bin/sh\nprintf \'%s\\n\' "$@"\necho "PGPASSWORD=$PGPASSWORD"\n');
+        chmodSync(join(dir, 'supabase'), 0o755);
+        path = process.env.PATH;
+        process.env.PATH = `${dir}:${path}`;
+    });
+    afterAll(() => {
+        process.env.PATH = path;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const generate = (dbUrl: string, schemas: string[]) => generateTypesTool.execute(
+        generateTypesTool.inputSchema.parse({ backend: 'cli', included_schemas: schemas, output_path: join(dir, 'database.types.ts') }),
+        { selfhostedClient: { getDbUrl: () => dbUrl } as unknown as SelfhostedSupabaseClient, log: () => undefined },
+    );
+
+    it('passes the password in the environment and the arguments without a shell', async () => {
+        const result = await generate('postgresql://postgres:p%40ss@db:5432/postgres', ['public', '"; touch pwned; "$(id)']);
+
+        expect(result).toMatchObject({ success: true, backend: 'cli' });
+        expect(result.types?.split('\n')).toEqual([
+            'gen', 'types', 'typescript',
+            '--db-url', 'postgresql://postgres@db:5432/postgres',
+            '--schema', 'public,"; touch pwned; "$(id)',
+            'PGPASSWORD=p@ss',
+            '',
+        ]);
+    });
+
+    it('takes the password from the query string too', async () => {
+        const result = await generate('postgresql://postgres@db/postgres?password=secret&sslmode=require', ['public']);
+        expect(result.types).toContain('postgresql://postgres@db/postgres?sslmode=require\n');
+        expect(result.types).toContain('PGPASSWORD=secret\n');
+    });
+
+    it('refuses a connection string that is not a URL', async () => {
+        const result = await generate('host=db password=secret', ['public']);
+        expect(result).toMatchObject({ success: false, message: expect.stringContaining('not a URL') });
+    });
+});
@@ -1,31 +1,18 @@
 import { z } from 'zod';
-import { writeFileSync } from 'fs';
-import { resolve, dirname } from 'path';
-import { mkdirSync } from 'fs';
+import { join } from 'path';
 import type { SelfhostedSupabaseClient } from '../client/index.js';
 // import type { McpToolDefinition } from '@modelcontextprotocol/sdk/types.js'; // Removed incorrect import
 import type { ToolContext } from './types.js';
-import { runExternalCommand } from './utils.js'; // Need a new helper for running commands
-
-/**
- * Normalizes and validates the output path for cross-platform compatibility
- */
-function normalizeOutputPath(inputPath: string): string {
-    // Handle Windows drive letters in Unix-style paths (e.g., "/c:/path" -> "C:/path")
-    if (process.platform === 'win32' && inputPath.match(/^\/[a-zA-Z]:/)) {
-        inputPath = inputPath.substring(1); // Remove leading slash
-        inputPath = inputPath.charAt(0).toUpperCase() + inputPath.slice(1); // Uppercase drive letter
-    }
-    
-    // Use Node.js resolve to normalize the path
-    return resolve(inputPath);
-}
+import { normalizeOutputPath, runExternalCommand, writeOutputFile } from './utils.js'; // Need a new helper for running commands
+import { fetchTypegenCatalog } from '../typegen/catalog.js';
+import { renderTypescriptTypes } from '../typegen/typescript.js';
 
 // Input schema
 const GenerateTypesInputSchema = z.object({
     included_schemas: z.array(z.string()).optional().default(['public']).describe('Database schemas to include in type generation.'),
     output_filename: z.string().optional().default('database.types.ts').describe('Filename to save the generated types to in the workspace root.'),
-    output_path: z.string().describe('Absolute path where to save the file. If provided, output_filename will be ignored.'),
+    output_path: z.string().optional().describe('Absolute path where to save the file, e.g. "C:\\path\\to\\project\\database.types.ts" on Windows or "/path/to/project/database.types.ts" on macOS/Linux. If provided, output_filename will be ignored.'),
+    backend: z.enum(['native', 'cli']).optional().default('native').describe('native reads the schema from pg_catalog in-process, over DATABASE_URL or the RPC helper. cli runs `supabase gen types typescript`, which needs the Supabase CLI and DATABASE_URL.'),
 });
 type GenerateTypesInput = z.infer<typeof GenerateTypesInputSchema>;
 
@@ -36,104 +23,107 @@ const GenerateTypesOutputSchema = z.object({
     types: z.string().optional().describe('The generated TypeScript types, if successful.'),
     file_path: z.string().optional().describe('The absolute path to the saved types file, if successful.'),
     platform: z.string().describe('Operating system platform (win32, darwin, linux).'),
+    backend: z.enum(['native', 'cli']).optional().describe('How the types were generated.'),
 });
 
-// Static JSON Schema for MCP capabilities
-const mcpInputSchema = {
-    type: 'object',
-    properties: {
-        included_schemas: {
-            type: 'array',
-            items: { type: 'string' },
-            default: ['public'],
-            description: 'Database schemas to include in type generation.',
-        },
-        output_filename: {
-            type: 'string',
-            default: 'database.types.ts',
-            description: 'Filename to save the generated types to in the workspace root.',
-        },
-        output_path: {
-            type: 'string',
-            description: 'Absolute path where to download the generated TypeScript file. Examples: Windows: "C:\\\\path\\\\to\\\\project\\\\database.types.ts", macOS/Linux: "/path/to/project/database.types.ts". This parameter is required.',
-        },
-    },
-    required: ['output_path'], // output_path is required for file download
-};
+/**
+ * Splits the password out of a database URL, so it can go to the CLI in PGPASSWORD (which the CLI's
+ * Postgres driver reads) rather than on its command line, where any local user could see it.
+ */
+function splitDbUrlPassword(dbUrl: string): { url: string; password?: string } | null {
+    if (!URL.canParse(dbUrl)) return null;
+    const url = new URL(dbUrl);
+    const password = url.searchParams.get('password') ?? (url.password ? decodeURIComponent(url.password) : undefined);
+    url.password = '';
+    url.searchParams.delete('password');
+    return { url: url.toString(), password };
+}
+
+/**
+ * Generates the types with the Supabase CLI, which reads the schema over DATABASE_URL. The CLI runs
+ * without a shell, and gets the URL without its password, which is passed in PGPASSWORD.
+ */
+async function generateTypesWithCli(
+    client: SelfhostedSupabaseClient,
+    includedSchemas: string[]
+): Promise<{ stdout: string; stderr: string } | { error: string }> {
+    const dbUrl = client.getDbUrl(); // Need this getter in the client
+
+    if (!dbUrl) {
+        return { error: 'Error: DATABASE_URL is not configured. Cannot generate types with the Supabase CLI.' };
+    }
+    const connection = splitDbUrlPassword(dbUrl);
+    if (!connection) {
+        return { error: 'Error: DATABASE_URL is not a URL (postgresql://...), which the Supabase CLI needs. Use the native backend.' };
+    }
+
+    // Note: The actual command might vary slightly based on Supabase CLI version and context.
+    // Using --db-url is generally safer for self-hosted.
+    const args = ['gen', 'types', 'typescript', '--db-url', connection.url, '--schema', includedSchemas.join(',')];
+    console.error(`Running command: supabase ${args.join(' ')}`);
+
+    const env = connection.password === undefined ? {} : { PGPASSWORD: connection.password };
+    const { stdout, stderr, error } = await runExternalCommand('supabase', args, env);
+
+    if (error) {
+        console.error(`Error executing supabase gen types: ${stderr || error.message}`);
+        return { error: `Command failed: ${stderr || error.message}` };
+    }
+
+    if (stderr) {
+        console.error(`supabase gen types produced stderr output: ${stderr}`);
+         // Treat stderr as non-fatal for now, maybe just warnings
+    }
+    return { stdout, stderr };
+}
 
 // The tool definition - No explicit McpToolDefinition type needed
 export const generateTypesTool = {
     name: 'generate_typescript_types',
-    description: 'Generates TypeScript types from the database schema using the Supabase CLI (`supabase gen types`) and downloads the file to the specified absolute path. The tool returns the current platform (win32, darwin, linux) to help with path formatting. Requires DATABASE_URL configuration and Supabase CLI installed.',
+    description: 'Generates TypeScript types for the database schema (the `Database` type of `supabase gen types typescript`: Tables, Views, Functions, Enums and CompositeTypes) and saves the file to the specified absolute path (or to output_filename in the workspace root). The tool returns the current platform (win32, darwin, linux) to help with path formatting. The native backend introspects the database in-process; the cli backend runs the Supabase CLI, which must be installed, against DATABASE_URL.',
     inputSchema: GenerateTypesInputSchema,
-    mcpInputSchema: mcpInputSchema, // Add static JSON schema
     outputSchema: GenerateTypesOutputSchema,
     execute: async (input: GenerateTypesInput, context: ToolContext) => {
         const client = context.selfhostedClient;
-        const dbUrl = client.getDbUrl(); // Need this getter in the client
-
-        if (!dbUrl) {
-            return {
-                success: false,
-                message: 'Error: DATABASE_URL is not configured. Cannot generate types.',
-                platform: process.platform,
-            };
-        }
-
-        // Construct the command
-        // Use --local flag for self-hosted?
-        const schemas = input.included_schemas.join(','); // Comma-separated for the CLI flag
-        // Note: The actual command might vary slightly based on Supabase CLI version and context.
-        // Using --db-url is generally safer for self-hosted.
-        const command = `supabase gen types typescript --db-url "${dbUrl}" --schema "${schemas}"`;
-
-        console.error(`Running command: ${command}`);
 
         try {
-            const { stdout, stderr, error } = await runExternalCommand(command);
-
-            if (error) {
-                console.error(`Error executing supabase gen types: ${stderr || error.message}`);
-                return {
-                    success: false,
-                    message: `Command failed: ${stderr || error.message}`,
-                    platform: process.platform,
-                };
-            }
-
-            if (stderr) {
-                console.error(`supabase gen types produced stderr output: ${stderr}`);
-                 // Treat stderr as non-fatal for now, maybe just warnings
+            let types: string;
+            let warnings = '';
+            if (input.backend === 'cli') {
+                const generated = await generateTypesWithCli(client, input.included_schemas);
+                if ('error' in generated) {
+                    return {
+                        success: false,
+                        message: generated.error,
+                        platform: process.platform,
+                        backend: input.backend,
+                    };
+                }
+                ({ stdout: types, stderr: warnings } = generated);
+            } else {
+                const catalog = await fetchTypegenCatalog(client, input.included_schemas);
+                types = renderTypescriptTypes(catalog, input.included_schemas);
             }
 
-            // Normalize and save the generated types to the specified absolute path
+            // Normalize and save the generated types to the specified absolute path,
+            // or to output_filename in the workspace root when no path is given
+            const requestedPath = input.output_path ?? join(context.workspacePath || process.cwd(), input.output_filename);
             let outputPath: string;
             try {
-                outputPath = normalizeOutputPath(input.output_path);
+                outputPath = normalizeOutputPath(requestedPath);
                 console.error(`Normalized output path: ${outputPath}`);
             } catch (pathError) {
                 const pathErrorMessage = pathError instanceof Error ? pathError.message : String(pathError);
                 console.error(`Invalid output path: ${pathErrorMessage}`);
                 return {
                     success: false,
-                    message: `Invalid output path "${input.output_path}": ${pathErrorMessage}`,
+                    message: `Invalid output path "${requestedPath}": ${pathErrorMessage}`,
                     platform: process.platform,
                 };
             }
             
             try {
-                // Ensure the directory exists
-                const outputDir = dirname(outputPath);
-                try {
-                    mkdirSync(outputDir, { recursive: true });
-                } catch (dirError) {
-                    // Ignore error if directory already exists
-                    if ((dirError as NodeJS.ErrnoException).code !== 'EEXIST') {
-                        throw dirError;
-                    }
-                }
-                
-                writeFileSync(outputPath, stdout, 'utf8');
+                writeOutputFile(outputPath, types);
                 console.error(`Types saved to: ${outputPath}`);
             } catch (writeError) {
                 const writeErrorMessage = writeError instanceof Error ? writeError.message : String(writeError);
@@ -141,18 +131,20 @@ export const generateTypesTool = {
                 return {
                     success: false,
                     message: `Type generation succeeded but failed to save file: ${writeErrorMessage}. Platform: ${process.platform}. Attempted path: ${outputPath}`,
-                    types: stdout,
+                    types,
                     platform: process.platform,
+                    backend: input.backend,
                 };
             }
 
             console.error('Type generation and file save successful.');
             return {
                 success: true,
-                message: `Types generated successfully and saved to ${outputPath}.${stderr ? `\nWarnings:\n${stderr}` : ''}`,
-                types: stdout,
+                message: `Types generated successfully and saved to ${outputPath}.${warnings ? `\nWarnings:\n${warnings}` : ''}`,
+                types,
                 file_path: outputPath,
                 platform: process.platform,
+                backend: input.backend,
             };
 
         } catch (err: unknown) {
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { join } from 'path';
+import type { ToolContext } from './types.js';
+import { normalizeOutputPath, writeOutputFile } from './utils.js';
+import { fetchTypegenCatalog } from '../typegen/catalog.js';
+import { renderZodSchemas } from '../typegen/zod.js';
+
+// Input schema
+const GenerateZodSchemasInputSchema = z.object({
+    included_schemas: z.array(z.string()).optional().default(['public']).describe('Database schemas whose tables get Zod schemas.'),
+    output_filename: z.string().optional().default('database.schemas.ts').describe('Filename to save the generated schemas to in the workspace root.'),
+    output_path: z.string().optional().describe('Absolute path where to save the file, e.g. "C:\\path\\to\\project\\database.schemas.ts" on Windows or "/path/to/project/database.schemas.ts" on macOS/Linux. If provided, output_filename will be ignored.'),
+});
+type GenerateZodSchemasInput = z.infer<typeof GenerateZodSchemasInputSchema>;
+
+// Output schema
+const GenerateZodSchemasOutputSchema = z.object({
+    success: z.boolean(),
+    message: z.string().describe('Output message from the generation process.'),
+    schemas: z.string().optional().describe('The generated Zod schemas, if successful.'),
+    file_path: z.string().optional().describe('The absolute path to the saved schemas file, if successful.'),
+    platform: z.string().describe('Operating system platform (win32, darwin, linux).'),
+});
+
+export const generateZodSchemasTool = {
+    name: 'generate_zod_schemas',
+    description: 'Generates Zod schemas for the tables of the database schema, a Row, Insert and Update schema per table (e.g. ProfilesRowSchema), and saves the file to the specified absolute path (or to output_filename in the workspace root). The schemas follow column types, nullability, defaults and generated columns, varchar and char lengths, and CHECK constraints limiting a column to a list of values; enums and composite types get schemas of their own. The tool returns the current platform (win32, darwin, linux) to help with path formatting.',
+    inputSchema: GenerateZodSchemasInputSchema,
+    outputSchema: GenerateZodSchemasOutputSchema,
+    execute: async (input: GenerateZodSchemasInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        try {
+            const catalog = await fetchTypegenCatalog(client, input.included_schemas);
+            const schemas = renderZodSchemas(catalog, input.included_schemas);
+
+            const requestedPath = input.output_path ?? join(context.workspacePath || process.cwd(), input.output_filename);
+            let outputPath: string;
+            try {
+                outputPath = normalizeOutputPath(requestedPath);
+            } catch (pathError) {
+                const pathErrorMessage = pathError instanceof Error ? pathError.message : String(pathError);
+                console.error(`Invalid output path: ${pathErrorMessage}`);
+                return {
+                    success: false,
+                    message: `Invalid output path "${requestedPath}": ${pathErrorMessage}`,
+                    platform: process.platform,
+                };
+            }
+
+            try {
+                writeOutputFile(outputPath, schemas);
+                console.error(`Zod schemas saved to: ${outputPath}`);
+            } catch (writeError) {
+                const writeErrorMessage = writeError instanceof Error ? writeError.message : String(writeError);
+                console.error(`Failed to write schemas file: ${writeErrorMessage}`);
+                return {
+                    success: false,
+                    message: `Schema generation succeeded but failed to save file: ${writeErrorMessage}. Platform: ${process.platform}. Attempted path: ${outputPath}`,
+                    schemas,
+                    platform: process.platform,
+                };
+            }
+
+            return {
+                success: true,
+                message: `Zod schemas generated successfully and saved to ${outputPath}.`,
+                schemas,
+                file_path: outputPath,
+                platform: process.platform,
+            };
+        } catch (err: unknown) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            console.error(`Exception during Zod schema generation: ${errorMessage}`);
+            return {
+                success: false,
+                message: `Exception during Zod schema generation: ${errorMessage}. Platform: ${process.platform}`,
+                platform: process.platform,
+            };
+        }
+    },
+};
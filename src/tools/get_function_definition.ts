@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Input schema
+const GetFunctionDefinitionInputSchema = z.object({
+    schema: z.string().optional().default('public').describe('Schema of the function.'),
+    name: z.string().describe('Name of the function or procedure.'),
+    argument_types: z.string().optional().describe('Argument types picking one overload, e.g. "integer, text" (argument_types from list_functions). By default every overload is returned.'),
+});
+type GetFunctionDefinitionInput = z.infer<typeof GetFunctionDefinitionInputSchema>;
+
+// Output schema: one entry per overload
+const GetFunctionDefinitionOutputSchema = z.array(z.object({
+    schema: z.string(),
+    name: z.string(),
+    argument_types: z.string(),
+    language: z.string(),
+    definition: z.string().describe('The CREATE OR REPLACE statement, from pg_get_functiondef.'),
+}));
+
+export const getFunctionDefinitionTool = {
+    name: 'get_function_definition',
+    description: 'Shows the source of a function or procedure as a CREATE OR REPLACE statement (pg_get_functiondef), for each overload or the one with the given argument types.',
+    inputSchema: GetFunctionDefinitionInputSchema,
+    outputSchema: GetFunctionDefinitionOutputSchema,
+    execute: async (input: GetFunctionDefinitionInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        // Aggregates have no CREATE FUNCTION statement for pg_get_functiondef to produce
+        // $1: schema, $2: name, $3: argument types (or null for every overload)
+        const getFunctionDefinitionSql = `
+            SELECT
+                n.nspname AS schema,
+                p.proname AS name,
+                oidvectortypes(p.proargtypes) AS argument_types,
+                l.lanname AS language,
+                pg_get_functiondef(p.oid) AS definition
+            FROM
+                pg_catalog.pg_proc p
+            JOIN
+                pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+            JOIN
+                pg_catalog.pg_language l ON l.oid = p.prolang
+            WHERE
+                n.nspname = $1
+                AND p.proname = $2
+                AND p.prokind <> 'a'
+                AND ($3::text IS NULL OR p.oid = to_regprocedure(format('%I.%I(%s)', $1::text, $2::text, $3::text)))
+            ORDER BY
+                argument_types
+        `;
+
+        const result = await executeSqlWithFallback(client, getFunctionDefinitionSql, true, [
+            input.schema,
+            input.name,
+            input.argument_types ?? null,
+        ]);
+        const functions = handleSqlResponse(result, GetFunctionDefinitionOutputSchema);
+        if (functions.length === 0) {
+            const signature = input.argument_types === undefined ? '' : `(${input.argument_types})`;
+            throw new Error(`Function ${input.schema}.${input.name}${signature} not found.`);
+        }
+        return functions;
+    },
+};
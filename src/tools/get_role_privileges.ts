@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { SYSTEM_SCHEMAS_SQL } from '../sql/catalog.js';
+import {
+    COLUMN_PRIVILEGES,
+    isSupabaseRole,
+    privilegeDeviations,
+    SCHEMA_PRIVILEGES,
+    SEQUENCE_PRIVILEGES,
+    TABLE_PRIVILEGES,
+} from '../sql/supabase-roles.js';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Input schema
+const GetRolePrivilegesInputSchema = z.object({
+    role: z.string().describe('Name of the role, e.g. anon.'),
+    schemas: z.array(z.string()).optional().describe('Only objects in these schemas. Named schemas are included even if they are system schemas.'),
+    include_system_schemas: z.boolean().optional().default(false).describe('Also cover the schemas list_tables leaves out by default (auth, storage, ...).'),
+});
+type GetRolePrivilegesInput = z.infer<typeof GetRolePrivilegesInputSchema>;
+
+const RolePrivilegesSchema = z.object({
+    role: z.string(),
+    schemas: z.array(z.object({
+        schema: z.string(),
+        privileges: z.array(z.string()),
+    })),
+    tables: z.array(z.object({
+        schema: z.string(),
+        name: z.string(),
+        kind: z.enum(['table', 'partitioned_table', 'view', 'materialized_view', 'foreign_table']),
+        privileges: z.array(z.string()),
+    })).describe('Every table and view in the covered schemas; privileges is empty when the role has none.'),
+    columns: z.array(z.object({
+        schema: z.string(),
+        table: z.string(),
+        column: z.string(),
+        privileges: z.array(z.string()),
+    })).describe('Column privileges the role has beyond its privileges on the whole table.'),
+    sequences: z.array(z.object({
+        schema: z.string(),
+        name: z.string(),
+        privileges: z.array(z.string()),
+    })),
+    functions: z.array(z.object({
+        schema: z.string(),
+        name: z.string(),
+        argument_types: z.string(),
+        privileges: z.array(z.string()),
+    })).describe('Functions and procedures, extension functions left out.'),
+    default_privileges: z.array(z.object({
+        owner: z.string().describe('Role whose new objects get these privileges (ALTER DEFAULT PRIVILEGES FOR ROLE).'),
+        schema: z.string().nullable().describe('Null when set for all schemas.'),
+        object_type: z.enum(['tables', 'sequences', 'functions', 'types', 'schemas']),
+        grantee: z.string().describe('The role, a role it inherits from, or public.'),
+        privileges: z.array(z.string()),
+    })).describe('Privileges the role will get on objects created later.'),
+});
+
+// Output schema
+const GetRolePrivilegesOutputSchema = RolePrivilegesSchema.extend({
+    deviations: z.array(z.string()).optional().describe('For standard Supabase roles, how the privileges differ from the stock grants.'),
+});
+
+// The privileges among `privileges` that `check` (a has_*_privilege call with the privilege as $privilege) confirms
+function privilegesSql(privileges: string[], check: string): string {
+    const candidates = `ARRAY[${privileges.map((privilege) => `'${privilege}'`).join(', ')}]`;
+    return `ARRAY(
+                SELECT u.privilege FROM unnest(${candidates}) WITH ORDINALITY AS u(privilege, position)
+                WHERE ${check.replaceAll('$privilege', 'u.privilege')} ORDER BY u.position
+            )`;
+}
+
+// has_*_privilege report effective privileges: direct grants, grants to PUBLIC and inherited ones
+// $1: role, $2: schemas (or null for all), $3: include system schemas
+const GET_ROLE_PRIVILEGES_SQL = `
+    WITH ns AS (
+        SELECT n.oid, n.nspname
+        FROM pg_catalog.pg_namespace n
+        WHERE
+            n.nspname <> 'pg_toast'
+            AND n.nspname NOT LIKE 'pg_temp_%'
+            AND n.nspname NOT LIKE 'pg_toast_temp_%'
+            AND ($2::text[] IS NULL OR n.nspname = ANY($2::text[]))
+            AND ($3::boolean OR $2::text[] IS NOT NULL OR n.nspname NOT IN (${SYSTEM_SCHEMAS_SQL}))
+    )
+    SELECT
+        r.rolname AS role,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', ns.nspname,
+                'privileges', ${privilegesSql(SCHEMA_PRIVILEGES, 'has_schema_privilege(r.oid, ns.oid, $privilege)')}
+            ) ORDER BY ns.nspname), '[]')
+            FROM ns
+        ) AS schemas,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', ns.nspname,
+                'name', c.relname,
+                'kind', CASE c.relkind
+                    WHEN 'r' THEN 'table' WHEN 'p' THEN 'partitioned_table' WHEN 'v' THEN 'view'
+                    WHEN 'm' THEN 'materialized_view' ELSE 'foreign_table'
+                END,
+                'privileges', ${privilegesSql(TABLE_PRIVILEGES, 'has_table_privilege(r.oid, c.oid, $privilege)')}
+            ) ORDER BY ns.nspname, c.relname), '[]')
+            FROM pg_catalog.pg_class c
+            JOIN ns ON ns.oid = c.relnamespace
+            WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        ) AS tables,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', col.nspname,
+                'table', col.relname,
+                'column', col.attname,
+                'privileges', col.privileges
+            ) ORDER BY col.nspname, col.relname, col.attnum), '[]')
+            FROM (
+                SELECT
+                    ns.nspname, c.relname, a.attname, a.attnum,
+                    ${privilegesSql(COLUMN_PRIVILEGES, 'has_column_privilege(r.oid, c.oid, a.attnum, $privilege) AND NOT has_table_privilege(r.oid, c.oid, $privilege)')} AS privileges
+                FROM pg_catalog.pg_class c
+                JOIN ns ON ns.oid = c.relnamespace
+                JOIN pg_catalog.pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+                WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+            ) col
+            WHERE cardinality(col.privileges) > 0
+        ) AS columns,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', ns.nspname,
+                'name', c.relname,
+                'privileges', ${privilegesSql(SEQUENCE_PRIVILEGES, 'has_sequence_privilege(r.oid, c.oid, $privilege)')}
+            ) ORDER BY ns.nspname, c.relname), '[]')
+            FROM pg_catalog.pg_class c
+            JOIN ns ON ns.oid = c.relnamespace
+            WHERE c.relkind = 'S'
+        ) AS sequences,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', ns.nspname,
+                'name', p.proname,
+                'argument_types', oidvectortypes(p.proargtypes),
+                'privileges', ${privilegesSql(['EXECUTE'], 'has_function_privilege(r.oid, p.oid, $privilege)')}
+            ) ORDER BY ns.nspname, p.proname, oidvectortypes(p.proargtypes)), '[]')
+            FROM pg_catalog.pg_proc p
+            JOIN ns ON ns.oid = p.pronamespace
+            WHERE NOT EXISTS (
+                SELECT 1 FROM pg_catalog.pg_depend d
+                WHERE d.classid = 'pg_catalog.pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+            )
+        ) AS functions,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'owner', dp.owner,
+                'schema', dp.schema,
+                'object_type', dp.object_type,
+                'grantee', dp.grantee,
+                'privileges', dp.privileges
+            ) ORDER BY dp.owner, dp.schema NULLS FIRST, dp.object_type, dp.grantee), '[]')
+            FROM (
+                SELECT
+                    pg_get_userbyid(d.defaclrole) AS owner,
+                    dn.nspname AS schema,
+                    CASE d.defaclobjtype
+                        WHEN 'r' THEN 'tables' WHEN 'S' THEN 'sequences' WHEN 'f' THEN 'functions'
+                        WHEN 'T' THEN 'types' ELSE 'schemas'
+                    END AS object_type,
+                    CASE WHEN acl.grantee = 0 THEN 'public' ELSE pg_get_userbyid(acl.grantee) END AS grantee,
+                    array_agg(acl.privilege_type ORDER BY acl.privilege_type) AS privileges
+                FROM pg_catalog.pg_default_acl d
+                LEFT JOIN pg_catalog.pg_namespace dn ON dn.oid = d.defaclnamespace
+                CROSS JOIN LATERAL aclexplode(d.defaclacl) acl
+                WHERE acl.grantee = 0 OR pg_has_role(r.oid, acl.grantee, 'USAGE')
+                GROUP BY 1, 2, 3, 4
+            ) dp
+        ) AS default_privileges
+    FROM
+        pg_catalog.pg_roles r
+    WHERE
+        r.rolname = $1
+`;
+
+export const getRolePrivilegesTool = {
+    name: 'get_role_privileges',
+    description: 'Shows what a role can do: its effective privileges (direct, through PUBLIC and inherited) on schemas, tables and views, columns, sequences and functions, and the default privileges it will get on new objects. For standard Supabase roles (anon, authenticated, service_role) it also lists deviations from the stock grants.',
+    inputSchema: GetRolePrivilegesInputSchema,
+    outputSchema: GetRolePrivilegesOutputSchema,
+    execute: async (input: GetRolePrivilegesInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        const result = await executeSqlWithFallback(client, GET_ROLE_PRIVILEGES_SQL, true, [
+            input.role,
+            input.schemas ?? null,
+            input.include_system_schemas,
+        ]);
+        const rows = handleSqlResponse(result, z.array(RolePrivilegesSchema));
+        if (rows.length === 0) {
+            throw new Error(`Role ${input.role} not found.`);
+        }
+        const privileges = rows[0];
+        return isSupabaseRole(privileges.role)
+            ? { ...privileges, deviations: privilegeDeviations(privileges.role, privileges) }
+            : privileges;
+    },
+};
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { RPC_HELPER_SCHEMA, RPC_HELPER_VERSION } from '../client/rpc-helper.js';
+import type { SqlPath } from '../client/sql-paths.js';
+import type { SqlExecutionResult } from '../types/index.js';
+import type { ToolContext } from './types.js';
+
+// Input schema
+const GetSqlPathStatusInputSchema = z.object({
+    probe: z.boolean().optional().default(true).describe('Run SELECT 1 on each configured path first, updating its health.'),
+    probe_timeout_ms: z.number().int().positive().optional().default(5000).describe('How long a probe may take before its path counts as unreachable.'),
+});
+type GetSqlPathStatusInput = z.infer<typeof GetSqlPathStatusInputSchema>;
+
+// Output schema
+const GetSqlPathStatusOutputSchema = z.object({
+    preferred_path: z.enum(['pg', 'rpc']).nullable().describe('The path SQL tries first, or null if neither is configured.'),
+    paths: z.array(z.object({
+        path: z.enum(['pg', 'rpc']).describe('pg: the direct database connection (DATABASE_URL). rpc: the RPC helper through PostgREST (service role key).'),
+        configured: z.boolean(),
+        healthy: z.boolean().describe('False after the path failed to reach the database, until it works again.'),
+        consecutive_failures: z.number(),
+        last_success_at: z.string().optional(),
+        last_failure_at: z.string().optional(),
+        last_error: z.string().optional().describe('The last connection-level error.'),
+        probe: z.object({
+            ok: z.boolean(),
+            latency_ms: z.number(),
+            error: z.string().optional(),
+        }).optional(),
+    })),
+    rpc_helper: z.object({
+        schema: z.string(),
+        installed_version: z.number().nullable().describe('Null if the helper is missing or PostgREST could not be asked.'),
+        required_version: z.number(),
+    }),
+});
+
+type ProbeResult = { ok: boolean; latency_ms: number; error?: string };
+
+export const getSqlPathStatusTool = {
+    name: 'get_sql_path_status',
+    description: 'Shows the health of the two ways SQL reaches the database: the direct connection (pg) and the RPC helper through PostgREST (rpc). SQL goes through a healthy path first, and read-only queries are retried on the other path when one cannot reach the database. Optionally probes each path with SELECT 1.',
+    inputSchema: GetSqlPathStatusInputSchema,
+    outputSchema: GetSqlPathStatusOutputSchema,
+    execute: async (input: GetSqlPathStatusInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        const probes = new Map<SqlPath, ProbeResult>();
+        if (input.probe) {
+            const run: Record<SqlPath, () => Promise<SqlExecutionResult>> = {
+                pg: () => client.executeSqlWithPg('SELECT 1 AS ok', true),
+                rpc: () => client.executeSqlViaRpc('SELECT 1 AS ok', true),
+            };
+            for (const path of client.sqlPaths()) {
+                const startedAt = Date.now();
+                // A connect attempt can outlast the statement timeout, so the probe gets its own deadline
+                let timer: NodeJS.Timeout | undefined;
+                const deadline = new Promise<SqlExecutionResult>((resolve) => {
+                    timer = setTimeout(() => resolve({
+                        error: { message: `No answer within ${input.probe_timeout_ms}ms.`, code: 'ETIMEDOUT' },
+                    }), input.probe_timeout_ms);
+                });
+                const result = await client.runWithCallOptions({ timeoutMs: input.probe_timeout_ms }, () => Promise.race([run[path](), deadline]));
+                clearTimeout(timer);
+
+                const error = 'error' in result ? result.error : undefined;
+                client.recordSqlPathOutcome(path, error);
+                probes.set(path, { ok: !error, latency_ms: Date.now() - startedAt, error: error?.message });
+            }
+        }
+
+        return {
+            preferred_path: client.sqlPaths()[0] ?? null,
+            paths: client.getSqlPathStatus().map((status) => ({
+                path: status.path,
+                configured: status.configured,
+                healthy: status.healthy,
+                consecutive_failures: status.consecutiveFailures,
+                last_success_at: status.lastSuccessAt,
+                last_failure_at: status.lastFailureAt,
+                last_error: status.lastError,
+                probe: probes.get(status.path),
+            })),
+            rpc_helper: {
+                schema: RPC_HELPER_SCHEMA,
+                installed_version: client.getRpcHelperVersion(),
+                required_version: RPC_HELPER_VERSION,
+            },
+        };
+    },
+};
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { SYSTEM_SCHEMAS_SQL } from '../sql/catalog.js';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Schema for the output: array of function details
+const ListFunctionsOutputSchema = z.array(z.object({
+    schema: z.string(),
+    name: z.string(),
+    kind: z.enum(['function', 'procedure', 'aggregate', 'window']),
+    arguments: z.string().describe('Argument list with names, modes and defaults.'),
+    argument_types: z.string().describe('Argument types only, as get_function_definition takes them.'),
+    return_type: z.string().nullable().describe('Null for procedures.'),
+    language: z.string(),
+    volatility: z.enum(['immutable', 'stable', 'volatile']),
+    security_definer: z.boolean().describe('Runs with the privileges of its owner rather than the caller.'),
+    search_path: z.string().nullable().describe('search_path set on the function (SET search_path = ...), if any.'),
+    comment: z.string().nullable(),
+}));
+
+// Input schema
+const ListFunctionsInputSchema = z.object({
+    schemas: z.array(z.string()).optional().describe('Only these schemas. Named schemas are listed even if they are system schemas.'),
+    name_pattern: z.string().optional().describe('SQL LIKE pattern for the name, e.g. "handle_%".'),
+    include_system_schemas: z.boolean().optional().default(false).describe('Also list functions in the schemas list_tables leaves out by default (auth, storage, extensions, ...).'),
+    include_extension_functions: z.boolean().optional().default(false).describe('Also list functions that belong to extensions.'),
+});
+type ListFunctionsInput = z.infer<typeof ListFunctionsInputSchema>;
+
+// The tool definition
+export const listFunctionsTool = {
+    name: 'list_functions',
+    description: 'Lists database functions and procedures with their arguments, return type, language, volatility, SECURITY DEFINER flag and search_path setting. Supabase internal schemas and extension functions are left out unless asked for.',
+    inputSchema: ListFunctionsInputSchema,
+    outputSchema: ListFunctionsOutputSchema,
+    execute: async (input: ListFunctionsInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        // SQL based on pg_proc
+        // $1: schemas (or null for all), $2: name pattern (or null), $3: include system schemas, $4: include extension functions
+        const listFunctionsSql = `
+            SELECT
+                n.nspname AS schema,
+                p.proname AS name,
+                CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' WHEN 'w' THEN 'window' ELSE 'function' END AS kind,
+                pg_get_function_arguments(p.oid) AS arguments,
+                oidvectortypes(p.proargtypes) AS argument_types,
+                pg_get_function_result(p.oid) AS return_type,
+                l.lanname AS language,
+                CASE p.provolatile WHEN 'i' THEN 'immutable' WHEN 's' THEN 'stable' ELSE 'volatile' END AS volatility,
+                p.prosecdef AS security_definer,
+                (
+                    SELECT substring(setting FROM length('search_path=') + 1)
+                    FROM unnest(p.proconfig) AS setting
+                    WHERE setting LIKE 'search_path=%'
+                ) AS search_path,
+                obj_description(p.oid, 'pg_proc') AS comment
+            FROM
+                pg_catalog.pg_proc p
+            JOIN
+                pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+            JOIN
+                pg_catalog.pg_language l ON l.oid = p.prolang
+            WHERE
+                n.nspname <> 'pg_toast'
+                AND n.nspname NOT LIKE 'pg_temp_%'
+                AND ($1::text[] IS NULL OR n.nspname = ANY($1::text[]))
+                AND ($2::text IS NULL OR p.proname LIKE $2::text)
+                AND ($3::boolean OR $1::text[] IS NOT NULL OR n.nspname NOT IN (${SYSTEM_SCHEMAS_SQL}))
+                AND ($4::boolean OR NOT EXISTS (
+                    SELECT 1 FROM pg_catalog.pg_depend d
+                    WHERE d.classid = 'pg_catalog.pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+                ))
+                AND has_schema_privilege(n.oid, 'USAGE')
+            ORDER BY
+                n.nspname,
+                p.proname,
+                argument_types
+        `;
+
+        const result = await executeSqlWithFallback(client, listFunctionsSql, true, [
+            input.schemas ?? null,
+            input.name_pattern ?? null,
+            input.include_system_schemas,
+            input.include_extension_functions,
+        ]);
+
+        return handleSqlResponse(result, ListFunctionsOutputSchema);
+    },
+};
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { policiesSql, SYSTEM_SCHEMAS_SQL } from '../sql/catalog.js';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+const PolicySchema = z.object({
+    name: z.string(),
+    command: z.enum(['ALL', 'SELECT', 'INSERT', 'UPDATE', 'DELETE']),
+    permissive: z.boolean().describe('False for RESTRICTIVE policies.'),
+    roles: z.array(z.string()).describe('Roles the policy applies to; public means every role.'),
+    using: z.string().nullable().describe('USING expression: which existing rows are visible or affected.'),
+    with_check: z.string().nullable().describe('WITH CHECK expression: which new rows may be written.'),
+});
+
+const RlsTablesSchema = z.array(z.object({
+    schema: z.string(),
+    table: z.string(),
+    rls_enabled: z.boolean(),
+    rls_forced: z.boolean().describe('Whether RLS also applies to the table owner.'),
+    policies: z.array(PolicySchema),
+}));
+type RlsTable = z.infer<typeof RlsTablesSchema>[number];
+
+const FindingSchema = z.object({
+    check: z.enum(['rls_disabled_exposed', 'rls_enabled_no_policies', 'policy_for_anon', 'write_policy_allows_all']),
+    severity: z.enum(['error', 'warning', 'info']),
+    schema: z.string(),
+    table: z.string(),
+    policy: z.string().nullable(),
+    message: z.string(),
+});
+type Finding = z.infer<typeof FindingSchema>;
+
+// Output schema
+const ListRlsPoliciesOutputSchema = z.object({
+    tables: z.array(z.object({
+        schema: z.string(),
+        table: z.string(),
+        rls_enabled: z.boolean(),
+        rls_forced: z.boolean(),
+        exposed: z.boolean().nullable().describe("Whether the table's schema is one PostgREST exposes; null if PostgREST couldn't say."),
+        policies: z.array(PolicySchema),
+    })),
+    findings: z.array(FindingSchema).optional().describe('Risky setups, with audit: true.'),
+});
+
+// Input schema
+const ListRlsPoliciesInputSchema = z.object({
+    schemas: z.array(z.string()).optional().describe('Only tables in these schemas. Named schemas are listed even if they are system schemas.'),
+    table: z.string().optional().describe('Only tables with this name.'),
+    include_system_schemas: z.boolean().optional().default(false).describe('Also list tables in the schemas list_tables leaves out by default (auth, storage, ...).'),
+    audit: z.boolean().optional().default(false).describe('Also report risky setups: exposed tables without RLS, RLS without policies, policies for anon, and write policies with USING (true), or WITH CHECK (true) for INSERT.'),
+});
+type ListRlsPoliciesInput = z.infer<typeof ListRlsPoliciesInputSchema>;
+
+// Ordinary and partitioned tables, the relations RLS applies to
+// $1: schemas (or null for all), $2: table name (or null), $3: include system schemas
+const LIST_RLS_POLICIES_SQL = `
+    SELECT
+        n.nspname AS schema,
+        c.relname AS table,
+        c.relrowsecurity AS rls_enabled,
+        c.relforcerowsecurity AS rls_forced,
+        ${policiesSql('n.nspname', 'c.relname')} AS policies
+    FROM
+        pg_catalog.pg_class c
+    JOIN
+        pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    WHERE
+        c.relkind IN ('r', 'p')
+        AND n.nspname <> 'pg_toast'
+        AND n.nspname NOT LIKE 'pg_temp_%'
+        AND n.nspname NOT LIKE 'pg_toast_temp_%'
+        AND ($1::text[] IS NULL OR n.nspname = ANY($1::text[]))
+        AND ($2::text IS NULL OR c.relname = $2::text)
+        AND ($3::boolean OR $1::text[] IS NOT NULL OR n.nspname NOT IN (${SYSTEM_SCHEMAS_SQL}))
+        AND has_schema_privilege(n.oid, 'USAGE')
+    ORDER BY
+        n.nspname,
+        c.relname
+`;
+
+/**
+ * Flags the risky setups among `tables`. Without PostgREST's schema list (`exposedSchemas` null),
+ * only public, which Supabase always exposes, counts as exposed.
+ */
+function auditRls(tables: RlsTable[], exposedSchemas: string[] | null): Finding[] {
+    const findings: Finding[] = [];
+    for (const { schema, table, rls_enabled, policies } of tables) {
+        const exposed = exposedSchemas ? exposedSchemas.includes(schema) : schema === 'public';
+        if (!rls_enabled && exposed) {
+            findings.push({
+                check: 'rls_disabled_exposed',
+                severity: 'error',
+                schema, table, policy: null,
+                message: `${schema}.${table} is in a schema PostgREST exposes${exposedSchemas ? '' : ' (assumed, PostgREST did not list its schemas)'} but has RLS disabled: every row is readable and writable with the anon key, as far as grants allow.`,
+            });
+        }
+        if (rls_enabled && policies.length === 0) {
+            findings.push({
+                check: 'rls_enabled_no_policies',
+                severity: 'info',
+                schema, table, policy: null,
+                message: `${schema}.${table} has RLS enabled but no policies, so only roles bypassing RLS (such as service_role) can access its rows.`,
+            });
+        }
+        if (!rls_enabled) {
+            continue;
+        }
+        // Restrictive policies only narrow what permissive ones grant
+        for (const policy of policies.filter((policy) => policy.permissive)) {
+            // INSERT policies have no USING, only WITH CHECK
+            const [clause, condition] = policy.command === 'INSERT' ? ['WITH CHECK', policy.with_check] : ['USING', policy.using];
+            if (policy.roles.includes('anon') || policy.roles.includes('public')) {
+                const who = policy.roles.includes('anon') ? 'anon' : 'public, which includes anon,';
+                findings.push({
+                    check: 'policy_for_anon',
+                    severity: policy.command === 'SELECT' ? 'info' : 'warning',
+                    schema, table, policy: policy.name,
+                    message: `Policy ${policy.name} on ${schema}.${table} applies to ${who} so unauthenticated requests get ${policy.command} access${condition === null ? '' : ` where ${condition}`}.`,
+                });
+            }
+            if (policy.command !== 'SELECT' && condition === 'true') {
+                findings.push({
+                    check: 'write_policy_allows_all',
+                    severity: 'warning',
+                    schema, table, policy: policy.name,
+                    message: `${policy.command} policy ${policy.name} on ${schema}.${table} has ${clause} (true), so ${policy.roles.join(', ')} can ${policy.command === 'INSERT' ? 'insert' : 'write'} any row.`,
+                });
+            }
+        }
+    }
+    return findings;
+}
+
+// The tool definition
+export const listRlsPoliciesTool = {
+    name: 'list_rls_policies',
+    description: 'Lists Row Level Security per table: whether RLS is enabled and forced, and each policy with its command, roles, USING and WITH CHECK expressions and whether it is permissive or restrictive. With audit: true it also flags risky setups: tables in PostgREST-exposed schemas without RLS, tables with RLS but no policies, policies that apply to anon, and write policies with USING (true) or WITH CHECK (true).',
+    inputSchema: ListRlsPoliciesInputSchema,
+    outputSchema: ListRlsPoliciesOutputSchema,
+    execute: async (input: ListRlsPoliciesInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        const result = await executeSqlWithFallback(client, LIST_RLS_POLICIES_SQL, true, [
+            input.schemas ?? null,
+            input.table ?? null,
+            input.include_system_schemas,
+        ]);
+        const tables = handleSqlResponse(result, RlsTablesSchema);
+
+        const exposedSchemas = await client.getPostgrestSchemas();
+        const output = {
+            tables: tables.map(({ policies, ...table }) => ({
+                ...table,
+                exposed: exposedSchemas ? exposedSchemas.includes(table.schema) : null,
+                policies,
+            })),
+        };
+        return input.audit ? { ...output, findings: auditRls(tables, exposedSchemas) } : output;
+    },
+};
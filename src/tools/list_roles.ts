@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { isSupabaseRole, roleAttributeDeviations } from '../sql/supabase-roles.js';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+const RolesSchema = z.array(z.object({
+    name: z.string(),
+    can_login: z.boolean(),
+    superuser: z.boolean(),
+    bypass_rls: z.boolean().describe('Ignores Row Level Security.'),
+    inherit: z.boolean().describe('Gets the privileges of the roles it is a member of without SET ROLE.'),
+    create_role: z.boolean(),
+    create_db: z.boolean(),
+    replication: z.boolean(),
+    connection_limit: z.number().nullable().describe('Null when unlimited.'),
+    valid_until: z.string().nullable().describe('When the password expires; null if never.'),
+    member_of: z.array(z.object({
+        role: z.string(),
+        admin_option: z.boolean().describe('Can grant the membership to others.'),
+    })),
+    comment: z.string().nullable(),
+}));
+
+// Output schema
+const ListRolesOutputSchema = z.array(RolesSchema.element.extend({
+    supabase_role: z.boolean().describe('One of the standard Supabase roles: anon, authenticated, service_role, supabase_admin.'),
+    deviations: z.array(z.string()).optional().describe('For standard Supabase roles, how the attributes differ from a stock project.'),
+}));
+
+// Input schema
+const ListRolesInputSchema = z.object({
+    name_pattern: z.string().optional().describe('SQL LIKE pattern for the role name, e.g. "supabase%".'),
+    include_system_roles: z.boolean().optional().default(false).describe("Also list Postgres's predefined pg_* roles."),
+});
+type ListRolesInput = z.infer<typeof ListRolesInputSchema>;
+
+// $1: name pattern (or null), $2: include pg_* roles
+const LIST_ROLES_SQL = `
+    SELECT
+        r.rolname AS name,
+        r.rolcanlogin AS can_login,
+        r.rolsuper AS superuser,
+        r.rolbypassrls AS bypass_rls,
+        r.rolinherit AS inherit,
+        r.rolcreaterole AS create_role,
+        r.rolcreatedb AS create_db,
+        r.rolreplication AS replication,
+        NULLIF(r.rolconnlimit, -1) AS connection_limit,
+        r.rolvaliduntil AS valid_until,
+        (
+            SELECT COALESCE(json_agg(json_build_object('role', m.role, 'admin_option', m.admin_option) ORDER BY m.role), '[]')
+            FROM (
+                -- Since Postgres 16 a membership can be granted once per grantor
+                SELECT g.rolname AS role, bool_or(am.admin_option) AS admin_option
+                FROM pg_catalog.pg_auth_members am
+                JOIN pg_catalog.pg_roles g ON g.oid = am.roleid
+                WHERE am.member = r.oid
+                GROUP BY g.rolname
+            ) m
+        ) AS member_of,
+        shobj_description(r.oid, 'pg_authid') AS comment
+    FROM
+        pg_catalog.pg_roles r
+    WHERE
+        ($1::text IS NULL OR r.rolname LIKE $1::text)
+        AND ($2::boolean OR r.rolname NOT LIKE 'pg\\_%')
+    ORDER BY
+        r.rolname
+`;
+
+// The tool definition
+export const listRolesTool = {
+    name: 'list_roles',
+    description: 'Lists database roles with their login, superuser, BYPASSRLS and other attributes and the roles they are members of. Standard Supabase roles (anon, authenticated, service_role, supabase_admin) are marked, with any attributes that differ from a stock project.',
+    inputSchema: ListRolesInputSchema,
+    outputSchema: ListRolesOutputSchema,
+    execute: async (input: ListRolesInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        const result = await executeSqlWithFallback(client, LIST_ROLES_SQL, true, [
+            input.name_pattern ?? null,
+            input.include_system_roles,
+        ]);
+        const roles = handleSqlResponse(result, RolesSchema);
+
+        return roles.map((role) => isSupabaseRole(role.name)
+            ? { ...role, supabase_role: true, deviations: roleAttributeDeviations(role.name, role) }
+            : { ...role, supabase_role: false });
+    },
+};
@@ -1,69 +1,105 @@
-import { z } from 'zod';
-import type { SelfhostedSupabaseClient } from '../client/index.js';
-import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
-import type { ToolContext } from './types.js';
-
-// Define the schema for the tool's output (an array of table names)
-const ListTablesOutputSchema = z.array(z.object({
-    schema: z.string(),
-    name: z.string(),
-    comment: z.string().nullable().optional(), // Add comment if available
-}));
-
-// Define input type from schema
-const ListTablesInputSchema = z.object({ // No specific input needed for listing tables
-    // Optional: add schema filter later if needed
-    // schema: z.string().optional().describe('Filter tables by schema name.'),
-});
-type ListTablesInput = z.infer<typeof ListTablesInputSchema>;
-
-// Static JSON Schema for MCP capabilities
-const mcpInputSchema = {
-    type: 'object', 
-    properties: {},
-    required: [],
-};
-
-// Define the tool
-export const listTablesTool = {
-    name: 'list_tables',
-    description: 'Lists all accessible tables in the connected database, grouped by schema.',
-    inputSchema: ListTablesInputSchema, // Use defined schema
-    mcpInputSchema: mcpInputSchema,     // Add the static JSON schema for MCP
-    outputSchema: ListTablesOutputSchema,
-    // Use explicit types for input and context
-    execute: async (input: ListTablesInput, context: ToolContext) => {
-        const client = context.selfhostedClient;
-
-        // SQL query to get tables from pg_catalog and information_schema
-        // Excludes system schemas like pg_catalog, information_schema, and Supabase internal schemas
-        const listTablesSql = `
-            SELECT
-                n.nspname as schema,
-                c.relname as name,
-                pgd.description as comment
-            FROM
-                pg_catalog.pg_class c
-            JOIN
-                pg_catalog.pg_namespace n ON n.oid = c.relnamespace
-            LEFT JOIN
-                pg_catalog.pg_description pgd ON pgd.objoid = c.oid AND pgd.objsubid = 0
-            WHERE
-                c.relkind = 'r' -- r = ordinary table
-                AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
-                AND n.nspname NOT LIKE 'pg_temp_%'
-                AND n.nspname NOT LIKE 'pg_toast_temp_%'
-                 -- Exclude Supabase internal schemas
-                AND n.nspname NOT IN ('auth', 'storage', 'extensions', 'graphql', 'graphql_public', 'pgbouncer', 'realtime', 'supabase_functions', 'supabase_migrations', '_realtime')
-                AND has_schema_privilege(n.oid, 'USAGE')
-                AND has_table_privilege(c.oid, 'SELECT')
-            ORDER BY
-                n.nspname,
-                c.relname
-        `;
-
-        const result = await executeSqlWithFallback(client, listTablesSql, true);
-
-        return handleSqlResponse(result, ListTablesOutputSchema); // Use a helper to handle response/errors
-    },
-}; 
\ No newline at end of file
+import { z } from 'zod';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import { SYSTEM_SCHEMAS, SYSTEM_SCHEMAS_SQL } from '../sql/catalog.js';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Relation kinds and their pg_class.relkind
+const TABLE_KINDS = {
+    table: 'r',
+    partitioned_table: 'p',
+    view: 'v',
+    materialized_view: 'm',
+    foreign_table: 'f',
+} as const;
+type TableKind = keyof typeof TABLE_KINDS;
+const TableKindSchema = z.enum(Object.keys(TABLE_KINDS) as [TableKind, ...TableKind[]]);
+
+// Define the schema for the tool's output (an array of table names)
+const ListTablesOutputSchema = z.array(z.object({
+    schema: z.string(),
+    name: z.string(),
+    kind: TableKindSchema,
+    comment: z.string().nullable().optional(), // Add comment if available
+    estimated_rows: z.string().nullable().optional().describe('A bigint as a decimal string: from the planner statistics, or the live row count if never analyzed; null for views and foreign tables.'),
+    total_bytes: z.string().optional().describe('A bigint as a decimal string: size on disk, indexes and TOAST included.'),
+    rls_enabled: z.boolean().optional(),
+    exposed: z.boolean().nullable().optional().describe("Whether the table's schema is one PostgREST exposes; null if PostgREST couldn't say."),
+}));
+
+// Define input type from schema
+const ListTablesInputSchema = z.object({
+    schemas: z.array(z.string()).optional().describe('Only these schemas. Named schemas are listed even if they are system schemas.'),
+    name_pattern: z.string().optional().describe('SQL LIKE pattern for the name, e.g. "user%" (% any characters, _ one character).'),
+    kinds: z.array(TableKindSchema).optional().default(['table']).describe('Kinds of relations to list.'),
+    include_system_schemas: z.boolean().optional().default(false).describe(`Also list the schemas left out by default: ${SYSTEM_SCHEMAS.join(', ')}.`),
+    include_details: z.boolean().optional().default(false).describe('Add the row estimate, total size, RLS flag and PostgREST exposure of each entry.'),
+});
+type ListTablesInput = z.infer<typeof ListTablesInputSchema>;
+
+// Define the tool
+export const listTablesTool = {
+    name: 'list_tables',
+    description: 'Lists accessible tables in the connected database, by schema. Filters by schema, name pattern and kind (tables, partitioned tables, views, materialized views, foreign tables). Postgres and Supabase system schemas are left out unless included or named. Optionally adds row estimates, sizes, RLS status and whether PostgREST exposes the table.',
+    inputSchema: ListTablesInputSchema, // Use defined schema
+    outputSchema: ListTablesOutputSchema,
+    // Use explicit types for input and context
+    execute: async (input: ListTablesInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        const details = input.include_details ? `,
+                COALESCE(NULLIF(c.reltuples, -1), s.n_live_tup)::bigint AS estimated_rows,
+                pg_total_relation_size(c.oid) AS total_bytes,
+                c.relrowsecurity AS rls_enabled` : '';
+        const estimatesJoin = input.include_details
+            ? 'LEFT JOIN pg_catalog.pg_stat_all_tables s ON s.relid = c.oid'
+            : '';
+
+        // SQL query to get tables from pg_catalog
+        // $1: schemas (or null for all), $2: name pattern (or null), $3: relkinds, $4: include system schemas
+        const listTablesSql = `
+            SELECT
+                n.nspname as schema,
+                c.relname as name,
+                CASE c.relkind
+                    WHEN 'r' THEN 'table' WHEN 'p' THEN 'partitioned_table' WHEN 'v' THEN 'view'
+                    WHEN 'm' THEN 'materialized_view' WHEN 'f' THEN 'foreign_table'
+                END as kind,
+                pgd.description as comment${details}
+            FROM
+                pg_catalog.pg_class c
+            JOIN
+                pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+            LEFT JOIN
+                pg_catalog.pg_description pgd ON pgd.objoid = c.oid AND pgd.classoid = 'pg_catalog.pg_class'::regclass AND pgd.objsubid = 0
+            ${estimatesJoin}
+            WHERE
+                c.relkind::text = ANY($3::text[])
+                AND n.nspname <> 'pg_toast'
+                AND n.nspname NOT LIKE 'pg_temp_%'
+                AND n.nspname NOT LIKE 'pg_toast_temp_%'
+                AND ($1::text[] IS NULL OR n.nspname = ANY($1::text[]))
+                AND ($2::text IS NULL OR c.relname LIKE $2::text)
+                AND ($4::boolean OR $1::text[] IS NOT NULL OR n.nspname NOT IN (${SYSTEM_SCHEMAS_SQL}))
+                AND has_schema_privilege(n.oid, 'USAGE')
+                AND has_table_privilege(c.oid, 'SELECT')
+            ORDER BY
+                n.nspname,
+                c.relname
+        `;
+
+        const result = await executeSqlWithFallback(client, listTablesSql, true, [
+            input.schemas ?? null,
+            input.name_pattern ?? null,
+            input.kinds.map((kind) => TABLE_KINDS[kind]),
+            input.include_system_schemas,
+        ]);
+
+        const tables = handleSqlResponse(result, ListTablesOutputSchema); // Use a helper to handle response/errors
+        if (!input.include_details) {
+            return tables;
+        }
+        const exposedSchemas = await client.getPostgrestSchemas();
+        return tables.map((table) => ({ ...table, exposed: exposedSchemas ? exposedSchemas.includes(table.schema) : null }));
+    },
+};
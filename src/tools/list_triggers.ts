@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { SYSTEM_SCHEMAS_SQL, triggerSql } from '../sql/catalog.js';
+import { handleSqlResponse, executeSqlWithFallback } from './utils.js';
+import type { ToolContext } from './types.js';
+
+// Schema for the output: array of trigger details
+const ListTriggersOutputSchema = z.array(z.object({
+    schema: z.string(),
+    table: z.string(),
+    name: z.string(),
+    timing: z.enum(['BEFORE', 'AFTER', 'INSTEAD OF']),
+    events: z.array(z.enum(['INSERT', 'UPDATE', 'DELETE', 'TRUNCATE'])),
+    level: z.enum(['ROW', 'STATEMENT']),
+    function: z.string().describe('The trigger function, with its argument types.'),
+    enabled: z.enum(['origin', 'always', 'replica', 'disabled']).describe('origin: fires normally; replica: only with session_replication_role = replica; always: in both cases.'),
+    definition: z.string().describe('The CREATE TRIGGER statement.'),
+}));
+
+// Input schema
+const ListTriggersInputSchema = z.object({
+    schemas: z.array(z.string()).optional().describe('Only tables in these schemas. Named schemas are listed even if they are system schemas, e.g. auth for triggers on auth.users.'),
+    table: z.string().optional().describe('Only triggers on tables with this name.'),
+    include_system_schemas: z.boolean().optional().default(false).describe('Also list triggers on tables in the schemas list_tables leaves out by default (auth, storage, ...).'),
+});
+type ListTriggersInput = z.infer<typeof ListTriggersInputSchema>;
+
+const TRIGGER_SQL = triggerSql('t');
+
+// The tool definition
+export const listTriggersTool = {
+    name: 'list_triggers',
+    description: 'Lists triggers on tables and views with their timing, events, level, trigger function and whether they are enabled. Internal triggers (such as those enforcing foreign keys) are left out, and so are Supabase internal schemas unless asked for.',
+    inputSchema: ListTriggersInputSchema,
+    outputSchema: ListTriggersOutputSchema,
+    execute: async (input: ListTriggersInput, context: ToolContext) => {
+        const client = context.selfhostedClient;
+
+        // SQL based on pg_trigger
+        // $1: schemas (or null for all), $2: table name (or null), $3: include system schemas
+        const listTriggersSql = `
+            SELECT
+                n.nspname AS schema,
+                c.relname AS table,
+                t.tgname AS name,
+                ${TRIGGER_SQL.timing} AS timing,
+                ${TRIGGER_SQL.events} AS events,
+                ${TRIGGER_SQL.level} AS level,
+                ${TRIGGER_SQL.function} AS function,
+                ${TRIGGER_SQL.enabled} AS enabled,
+                ${TRIGGER_SQL.definition} AS definition
+            FROM
+                pg_catalog.pg_trigger t
+            JOIN
+                pg_catalog.pg_class c ON c.oid = t.tgrelid
+            JOIN
+                pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+            WHERE
+                NOT t.tgisinternal
+                AND ($1::text[] IS NULL OR n.nspname = ANY($1::text[]))
+                AND ($2::text IS NULL OR c.relname = $2::text)
+                AND ($3::boolean OR $1::text[] IS NOT NULL OR n.nspname NOT IN (${SYSTEM_SCHEMAS_SQL}))
+                AND has_schema_privilege(n.oid, 'USAGE')
+            ORDER BY
+                n.nspname,
+                c.relname,
+                t.tgname
+        `;
+
+        const result = await executeSqlWithFallback(client, listTriggersSql, true, [
+            input.schemas ?? null,
+            input.table ?? null,
+            input.include_system_schemas,
+        ]);
+
+        return handleSqlResponse(result, ListTriggersOutputSchema);
+    },
+};
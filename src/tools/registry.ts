@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import { compileToolPolicy, loadPolicy } from '../policy/index.js';
+import type { Policy, ToolPolicy } from '../policy/index.js';
+import { toMcpToolSchemas } from './schemas.js';
+import type { AppTool } from './types.js';
+
+import { listTablesTool } from './list_tables.js';
+import { describeTableTool } from './describe_table.js';
+import { listExtensionsTool } from './list_extensions.js';
+import { listFunctionsTool } from './list_functions.js';
+import { getFunctionDefinitionTool } from './get_function_definition.js';
+import { listTriggersTool } from './list_triggers.js';
+import { listRlsPoliciesTool } from './list_rls_policies.js';
+import { listRolesTool } from './list_roles.js';
+import { getRolePrivilegesTool } from './get_role_privileges.js';
+import { listMigrationsTool } from './list_migrations.js';
+import { applyMigrationTool } from './apply_migration.js';
+import { executeSqlTool } from './execute_sql.js';
+import { executeSqlScriptTool } from './execute_sql_script.js';
+import { explainQueryTool } from './explain_query.js';
+import { getDatabaseConnectionsTool } from './get_database_connections.js';
+import { getDatabaseStatsTool } from './get_database_stats.js';
+import { getSqlPathStatusTool } from './get_sql_path_status.js';
+import { getProjectUrlTool } from './get_project_url.js';
+import { getAnonKeyTool } from './get_anon_key.js';
+import { getServiceKeyTool } from './get_service_key.js';
+import { generateTypesTool } from './generate_typescript_types.js';
+import { generateZodSchemasTool } from './generate_zod_schemas.js';
+import { rebuildHooksTool } from './rebuild_hooks.js';
+import { verifyJwtSecretTool } from './verify_jwt_secret.js';
+import { listAuthUsersTool } from './list_auth_users.js';
+import { getAuthUserTool } from './get_auth_user.js';
+import { deleteAuthUserTool } from './delete_auth_user.js';
+import { createAuthUserTool } from './create_auth_user.js';
+import { updateAuthUserTool } from './update_auth_user.js';
+import listStorageBucketsTool from './list_storage_buckets.js';
+import listStorageObjectsTool from './list_storage_objects.js';
+import listRealtimePublicationsTool from './list_realtime_publications.js';
+
+// Node.js built-in modules
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * All tools shipped with the server.
+ * Cast here assumes tools implement the AppTool structure.
+ */
+export const builtinTools: AppTool[] = [
+    listTablesTool as AppTool,
+    describeTableTool as AppTool,
+    listExtensionsTool as AppTool,
+    listFunctionsTool as AppTool,
+    getFunctionDefinitionTool as AppTool,
+    listTriggersTool as AppTool,
+    listRlsPoliciesTool as AppTool,
+    listRolesTool as AppTool,
+    getRolePrivilegesTool as AppTool,
+    listMigrationsTool as AppTool,
+    applyMigrationTool as AppTool,
+    executeSqlTool as AppTool,
+    executeSqlScriptTool as AppTool,
+    explainQueryTool as AppTool,
+    getDatabaseConnectionsTool as AppTool,
+    getDatabaseStatsTool as AppTool,
+    getSqlPathStatusTool as AppTool,
+    getProjectUrlTool as AppTool,
+    getAnonKeyTool as AppTool,
+    getServiceKeyTool as AppTool,
+    generateTypesTool as AppTool,
+    generateZodSchemasTool as AppTool,
+    rebuildHooksTool as AppTool,
+    verifyJwtSecretTool as AppTool,
+    listAuthUsersTool as AppTool,
+    getAuthUserTool as AppTool,
+    deleteAuthUserTool as AppTool,
+    createAuthUserTool as AppTool,
+    updateAuthUserTool as AppTool,
+    listStorageBucketsTool as AppTool,
+    listStorageObjectsTool as AppTool,
+    listRealtimePublicationsTool as AppTool,
+];
+
+export interface ToolRegistryOptions {
+    toolsConfigPath?: string; // Tool policy file (see src/policy)
+    policyProfile?: string;   // Built-in policy profile, e.g. "readonly"
+    pluginsDir?: string;      // Directory of additional tool modules
+    readOnly?: boolean;       // Leave out tools flagged as mutating
+}
+
+export interface ToolRegistry {
+    availableTools: Record<string, AppTool>;  // Every known tool (built-in and plugins)
+    registeredTools: Record<string, AppTool>; // Tools enabled by the current configuration
+    toolPolicies: Record<string, ToolPolicy>; // Policy for every available tool
+    policy: Policy;
+    readOnly: boolean;
+}
+
+const PLUGIN_EXTENSIONS = new Set(['.js', '.mjs']);
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Checks that a module export has the `{ name, description, inputSchema, execute }` tool shape.
+ */
+function isToolLike(value: unknown): value is Partial<AppTool> & Pick<AppTool, 'name' | 'description' | 'inputSchema' | 'execute'> {
+    if (!value || typeof value !== 'object') return false;
+    const candidate = value as Record<string, unknown>;
+    return typeof candidate.name === 'string'
+        && typeof candidate.description === 'string'
+        && typeof candidate.execute === 'function'
+        && !!candidate.inputSchema
+        && typeof (candidate.inputSchema as { parse?: unknown }).parse === 'function';
+}
+
+/**
+ * Loads additional tools from every `.js`/`.mjs` module in a directory.
+ * A module may export tools as named exports, as its default export, or as a default-exported array.
+ * Plugins without an `outputSchema` accept any result, which is returned as `{ result }` structured content.
+ */
+export async function loadToolPlugins(pluginsDir: string): Promise<AppTool[]> {
+    const resolvedDir = path.resolve(pluginsDir);
+    if (!fs.existsSync(resolvedDir) || !fs.statSync(resolvedDir).isDirectory()) {
+        throw new Error(`Tool plugin directory not found at ${resolvedDir}`);
+    }
+
+    const plugins: AppTool[] = [];
+    const files = fs.readdirSync(resolvedDir)
+        .filter(file => PLUGIN_EXTENSIONS.has(path.extname(file)))
+        .sort();
+
+    for (const file of files) {
+        const modulePath = path.join(resolvedDir, file);
+        const moduleExports = await import(pathToFileURL(modulePath).href) as Record<string, unknown>;
+
+        const candidates = Object.values(moduleExports)
+            .flatMap(value => Array.isArray(value) ? value : [value]);
+        // The same object is often exported both by name and as default
+        const tools = [...new Set(candidates.filter(isToolLike))];
+
+        if (tools.length === 0) {
+            console.error(`Tool plugin ${file} exports no tools (expected { name, description, inputSchema, execute }). Skipping.`);
+            continue;
+        }
+
+        for (const tool of tools) {
+            if (!TOOL_NAME_PATTERN.test(tool.name)) {
+                throw new Error(`Tool plugin ${file} exports a tool with invalid name "${tool.name}".`);
+            }
+            const plugin: AppTool = { ...tool, outputSchema: tool.outputSchema ?? z.unknown() };
+            try {
+                toMcpToolSchemas(plugin);
+            } catch (error) {
+                throw new Error(`Tool plugin ${file} exports tool "${tool.name}" with unsupported schemas: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            plugins.push(plugin);
+            console.error(`Loaded tool plugin ${tool.name} from ${file}`);
+        }
+    }
+
+    return plugins;
+}
+
+/**
+ * Builds the tool registry shared by the stdio and remote entry points:
+ * built-in tools, plus plugins, filtered by the tool policy and read-only mode.
+ */
+export async function createToolRegistry(options: ToolRegistryOptions = {}): Promise<ToolRegistry> {
+    const availableTools: Record<string, AppTool> = {};
+    for (const tool of builtinTools) {
+        availableTools[tool.name] = tool;
+    }
+
+    if (options.pluginsDir) {
+        for (const plugin of await loadToolPlugins(options.pluginsDir)) {
+            if (availableTools[plugin.name]) {
+                throw new Error(`Tool plugin "${plugin.name}" conflicts with an existing tool of the same name.`);
+            }
+            availableTools[plugin.name] = plugin;
+        }
+    }
+
+    const readOnly = !!options.readOnly;
+
+    // --- Tool Filtering Logic ---
+    // Throws on any config problem: a broken policy must not enable tools
+    const policy = loadPolicy({ path: options.toolsConfigPath, profile: options.policyProfile });
+    console.error(`Tool policy: ${policy.profile ? `profile "${policy.profile}", ` : ''}default ${policy.defaultAction}.`);
+
+    // Check if any tools named in the policy were not found in availableTools
+    for (const requestedName of Object.keys(policy.tools)) {
+        if (!availableTools[requestedName]) {
+            console.warn(`Warning: Tool "${requestedName}" specified in tool policy not found.`);
+        }
+    }
+
+    const toolPolicies: Record<string, ToolPolicy> = {};
+    const registeredTools: Record<string, AppTool> = {};
+    for (const toolName in availableTools) {
+        toolPolicies[toolName] = compileToolPolicy(policy, availableTools[toolName]);
+        if (!toolPolicies[toolName].allow) {
+            console.error(`Tool ${toolName} disabled (denied by tool policy).`);
+        } else if (readOnly && availableTools[toolName].mutating) {
+            console.error(`Tool ${toolName} disabled (read-only mode).`);
+        } else {
+            registeredTools[toolName] = availableTools[toolName];
+        }
+    }
+
+    return { availableTools, registeredTools, toolPolicies, policy, readOnly };
+}
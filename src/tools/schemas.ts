@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON schemas advertised for a tool in `tools/list`, derived from its Zod schemas.
+ */
+export interface McpToolSchemas {
+    inputSchema: JsonSchema;
+    outputSchema: JsonSchema;
+    // MCP requires structuredContent to be an object; other outputs are wrapped as { result }
+    wrapsOutput: boolean;
+}
+
+function toJsonSchema(schema: z.ZodTypeAny, pipeStrategy: 'input' | 'output'): JsonSchema {
+    const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+        $refStrategy: 'none',
+        pipeStrategy,
+        effectStrategy: 'input',
+    }) as JsonSchema;
+    return jsonSchema;
+}
+
+/**
+ * Converts a tool's Zod input and output schemas into the JSON schemas MCP clients expect.
+ */
+export function toMcpToolSchemas(tool: { inputSchema: z.ZodTypeAny; outputSchema: z.ZodTypeAny }): McpToolSchemas {
+    const inputSchema = toJsonSchema(tool.inputSchema, 'input');
+    if (inputSchema.type !== 'object') {
+        throw new Error(`Tool input schema must describe an object, got ${JSON.stringify(inputSchema.type ?? 'any')}`);
+    }
+
+    const outputSchema = toJsonSchema(tool.outputSchema, 'output');
+    if (outputSchema.type === 'object') {
+        return { inputSchema, outputSchema, wrapsOutput: false };
+    }
+
+    return {
+        inputSchema,
+        outputSchema: {
+            type: 'object',
+            properties: { result: outputSchema },
+        },
+        wrapsOutput: true,
+    };
+}
+
+/**
+ * Validates a tool result against its output schema and shapes it as MCP structuredContent.
+ * Throws if the result does not match the schema.
+ */
+export function toStructuredContent(outputSchema: z.ZodTypeAny, result: unknown, wrapsOutput: boolean): Record<string, unknown> {
+    const parsed = outputSchema.safeParse(result);
+    if (!parsed.success) {
+        throw new Error(`Output validation failed: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+    }
+    return wrapsOutput ? { result: parsed.data } : parsed.data as Record<string, unknown>;
+}
@@ -1,14 +1,29 @@
-import type { SelfhostedSupabaseClient } from '../client/index.js';
-
-// Define log function type
-type LogFunction = (message: string, level?: 'info' | 'warn' | 'error') => void;
-
-/**
- * Defines the expected shape of the context object passed to tool execute functions.
- */
-export interface ToolContext {
-    selfhostedClient: SelfhostedSupabaseClient;
-    log: LogFunction; // Explicitly define the log function
-    workspacePath?: string; // Path to the workspace root
-    [key: string]: unknown; // Allow other context properties, though log is now typed
-} 
\ No newline at end of file
+import type { z } from 'zod';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+
+// Define log function type
+type LogFunction = (message: string, level?: 'info' | 'warn' | 'error') => void;
+
+/**
+ * Defines the expected shape of the context object passed to tool execute functions.
+ */
+export interface ToolContext {
+    selfhostedClient: SelfhostedSupabaseClient;
+    log: LogFunction; // Explicitly define the log function
+    workspacePath?: string; // Path to the workspace root
+    signal?: AbortSignal; // Aborted when the client cancels the tool call
+    reportProgress?: (progress: number, total?: number, message?: string) => Promise<void>; // Set when the client asked for progress
+    [key: string]: unknown; // Allow other context properties, though log is now typed
+}
+
+/**
+ * Base structure for tool objects, shared by built-in tools and plugins.
+ */
+export interface AppTool {
+    name: string;
+    description: string;
+    inputSchema: z.ZodTypeAny;  // Zod schema for parsing, also the source of the advertised JSON schema
+    outputSchema: z.ZodTypeAny; // Zod schema validating the result returned as structuredContent
+    mutating?: boolean;         // Writes to the database; not registered in read-only mode
+    execute: (input: unknown, context: ToolContext) => Promise<unknown>;
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import { isConnectionError } from '../client/sql-paths.js';
+import type { SqlPath } from '../client/sql-paths.js';
+import type { SqlExecutionResult } from '../types/index.js';
+import { executeSqlWithFallback } from './utils.js';
+
+const refused: SqlExecutionResult = { error: { message: 'connect ECONNREFUSED 127.0.0.1:5432', code: 'ECONNREFUSED' } };
+
+// Just what executeSqlWithFallback uses, with pg answering `pgResult` and RPC one row
+function stubClient(pgResult: SqlExecutionResult) {
+    const outcomes: [SqlPath, boolean][] = [];
+    const client = {
+        sqlPaths: (): SqlPath[] => ['pg', 'rpc'],
+        isReadOnly: () => false,
+        executeSqlWithPg: vi.fn(async () => pgResult),
+        executeSqlViaRpc: vi.fn(async (): Promise<SqlExecutionResult> => [{ path: 'rpc' }]),
+        recordSqlPathOutcome: (path: SqlPath, error?: { message: string; code?: string }) => {
+            const connectionError = !!error && isConnectionError(error);
+            outcomes.push([path, connectionError]);
+            return connectionError;
+        },
+    };
+    return { client, asClient: client as unknown as SelfhostedSupabaseClient, outcomes };
+}
+
+describe('executeSqlWithFallback', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('retries a read-only query on RPC when pg cannot connect', async () => {
+        const { client, asClient, outcomes } = stubClient(refused);
+        expect(await executeSqlWithFallback(asClient, 'SELECT 1', true)).toEqual([{ path: 'rpc' }]);
+        expect(client.executeSqlViaRpc).toHaveBeenCalledWith('SELECT 1', true, undefined);
+        expect(outcomes).toEqual([['pg', true], ['rpc', false]]);
+    });
+
+    it('does not retry a write, which may have run before the connection failed', async () => {
+        const { client, asClient } = stubClient(refused);
+        expect(await executeSqlWithFallback(asClient, 'DELETE FROM notes', false)).toEqual(refused);
+        expect(client.executeSqlViaRpc).not.toHaveBeenCalled();
+    });
+
+    it('does not retry SQL errors', async () => {
+        const failed: SqlExecutionResult = { error: { message: 'relation "notes" does not exist', code: '42P01' } };
+        const { client, asClient } = stubClient(failed);
+        expect(await executeSqlWithFallback(asClient, 'SELECT * FROM notes', true)).toEqual(failed);
+        expect(client.executeSqlViaRpc).not.toHaveBeenCalled();
+    });
+
+    // stdout carries the MCP protocol on the stdio transport
+    it('logs to stderr only', async () => {
+        const stdout = (['log', 'info', 'debug'] as const).map((method) => vi.spyOn(console, method));
+        await executeSqlWithFallback(stubClient(refused).asClient, 'SELECT 1', true);
+        for (const spy of stdout) expect(spy).not.toHaveBeenCalled();
+    });
+});
@@ -1,78 +1,182 @@
-import { z } from 'zod';
-import type { SqlExecutionResult, SqlErrorResponse } from '../types/index.js';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import type { SelfhostedSupabaseClient } from '../client/index.js';
-
-const execAsync = promisify(exec);
-
-/**
- * Type guard to check if a SQL execution result is an error response.
- */
-export function isSqlErrorResponse(result: SqlExecutionResult): result is SqlErrorResponse {
-    return (result as SqlErrorResponse).error !== undefined;
-}
-
-/**
- * Handles SQL execution results and validates them against the expected schema.
- * Throws an error if the result contains an error or doesn't match the schema.
- */
-export function handleSqlResponse<T>(result: SqlExecutionResult, schema: z.ZodSchema<T>): T {
-    // Check if the result contains an error
-    if ('error' in result) {
-        throw new Error(`SQL Error (${result.error.code}): ${result.error.message}`);
-    }
-
-    // Validate the result against the schema
-    try {
-        return schema.parse(result);
-    } catch (validationError) {
-        if (validationError instanceof z.ZodError) {
-            throw new Error(`Schema validation failed: ${validationError.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
-        }
-        throw new Error(`Unexpected validation error: ${validationError}`);
-    }
-}
-
-/**
- * Executes an external shell command asynchronously.
- * Returns stdout, stderr, and any execution error.
- */
-export async function runExternalCommand(command: string): Promise<{
-    stdout: string;
-    stderr: string;
-    error: Error | null;
-}> {
-    try {
-        const { stdout, stderr } = await execAsync(command);
-        return { stdout, stderr, error: null };
-    } catch (error: unknown) {
-        // execAsync throws on non-zero exit code, includes stdout/stderr in the error object
-        const execError = error as Error & { stdout?: string; stderr?: string };
-        return {
-            stdout: execError.stdout || '',
-            stderr: execError.stderr || execError.message, // Use message if stderr is empty
-            error: execError,
-        };
-    }
-}
-
-/**
- * Executes SQL using the best available method: direct database connection first, then RPC fallback.
- * This bypasses JWT authentication issues when direct database access is available.
- */
-export async function executeSqlWithFallback(
-    client: SelfhostedSupabaseClient, 
-    sql: string, 
-    readOnly: boolean = true
-): Promise<SqlExecutionResult> {
-    // Try direct database connection first (bypasses JWT authentication)
-    if (client.isPgAvailable()) {
-        console.info('Using direct database connection (bypassing JWT)...');
-        return await client.executeSqlWithPg(sql);
-    }
-    
-    // Fallback to RPC if direct connection not available
-    console.info('Falling back to RPC method...');
-    return await client.executeSqlViaRpc(sql, readOnly);
-} 
\ No newline at end of file
+import { z } from 'zod';
+import type { SqlExecutionResult, SqlErrorResponse, SqlPageOptions, SqlPageResult, SqlScriptExecutionResult, SqlScriptOptions } from '../types/index.js';
+import { execFile } from 'node:child_process';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import type { SqlPath } from '../client/sql-paths.js';
+import type { SqlParam } from '../sql/params.js';
+import type { SqlScriptStatement } from '../sql/script.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Type guard to check if a SQL execution result is an error response.
+ */
+export function isSqlErrorResponse(result: SqlExecutionResult): result is SqlErrorResponse {
+    return (result as SqlErrorResponse).error !== undefined;
+}
+
+/**
+ * Handles SQL execution results and validates them against the expected schema.
+ * Throws an error if the result contains an error or doesn't match the schema.
+ */
+export function handleSqlResponse<T>(result: SqlExecutionResult | SqlPageResult | SqlScriptExecutionResult, schema: z.ZodSchema<T>): T {
+    // Check if the result contains an error
+    if ('error' in result) {
+        throw new Error(`SQL Error (${result.error.code}): ${result.error.message}`);
+    }
+
+    // Validate the result against the schema
+    try {
+        return schema.parse(result);
+    } catch (validationError) {
+        if (validationError instanceof z.ZodError) {
+            throw new Error(`Schema validation failed: ${validationError.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+        }
+        throw new Error(`Unexpected validation error: ${validationError}`);
+    }
+}
+
+/**
+ * Runs an external program asynchronously, without a shell: the arguments reach it as they are,
+ * so they need no quoting and can't inject commands. `env` is added to this process's environment.
+ * Returns stdout, stderr, and any execution error.
+ */
+export async function runExternalCommand(file: string, args: string[], env: NodeJS.ProcessEnv = {}): Promise<{
+    stdout: string;
+    stderr: string;
+    error: Error | null;
+}> {
+    try {
+        const { stdout, stderr } = await execFileAsync(file, args, { env: { ...process.env, ...env } });
+        return { stdout, stderr, error: null };
+    } catch (error: unknown) {
+        // execFileAsync throws on non-zero exit code, includes stdout/stderr in the error object
+        const execError = error as Error & { stdout?: string; stderr?: string };
+        return {
+            stdout: execError.stdout || '',
+            stderr: execError.stderr || execError.message, // Use message if stderr is empty
+            error: execError,
+        };
+    }
+}
+
+/**
+ * Normalizes and validates the output path for cross-platform compatibility
+ */
+export function normalizeOutputPath(inputPath: string): string {
+    // Handle Windows drive letters in Unix-style paths (e.g., "/c:/path" -> "C:/path")
+    if (process.platform === 'win32' && inputPath.match(/^\/[a-zA-Z]:/)) {
+        inputPath = inputPath.substring(1); // Remove leading slash
+        inputPath = inputPath.charAt(0).toUpperCase() + inputPath.slice(1); // Uppercase drive letter
+    }
+
+    // Use Node.js resolve to normalize the path
+    return resolve(inputPath);
+}
+
+/**
+ * Writes a generated file (types, schemas) to `outputPath`, creating its directory if needed.
+ */
+export function writeOutputFile(outputPath: string, content: string): void {
+    // Ensure the directory exists
+    const outputDir = dirname(outputPath);
+    try {
+        mkdirSync(outputDir, { recursive: true });
+    } catch (dirError) {
+        // Ignore error if directory already exists
+        if ((dirError as NodeJS.ErrnoException).code !== 'EEXIST') {
+            throw dirError;
+        }
+    }
+
+    writeFileSync(outputPath, content, 'utf8');
+}
+
+/**
+ * Runs a query on the client's SQL paths in order (healthy ones first, the direct connection before RPC),
+ * recording how each attempt went. When a path can't reach the database, a read-only query is retried
+ * on the next path. Other queries are not, as they may have run before the connection failed.
+ */
+async function executeOnSqlPaths<T extends object>(
+    client: SelfhostedSupabaseClient,
+    readOnly: boolean,
+    run: Record<SqlPath, () => Promise<T>>
+): Promise<T> {
+    const paths = client.sqlPaths();
+    if (paths.length === 0) {
+        // Neither path is configured; RPC explains what's missing
+        return await run.rpc();
+    }
+
+    let result: T | undefined;
+    for (const [index, path] of paths.entries()) {
+        console.error(path === 'pg' ? 'Using direct database connection (bypassing JWT)...' : 'Using RPC method...');
+        result = await run[path]();
+        const error = 'error' in result ? (result as SqlErrorResponse).error : undefined;
+        const connectionError = client.recordSqlPathOutcome(path, error);
+        if (!connectionError || !(readOnly || client.isReadOnly()) || index === paths.length - 1) {
+            break;
+        }
+        console.error(`SQL path ${path} can't reach the database; retrying the read-only query via ${paths[index + 1]}.`);
+    }
+    return result as T;
+}
+
+/**
+ * Executes SQL using the best available method: direct database connection first, then RPC fallback.
+ * This bypasses JWT authentication issues when direct database access is available.
+ * A path that fails to connect is tried last until it recovers, and read-only queries are retried on the other path.
+ * `readOnly` is enforced on both paths (and forced on when the server runs in read-only mode).
+ * `params` fill $1..$n on both paths. The direct connection binds them as protocol parameters; the
+ * RPC helper quotes them as literals with format('%L') and splices those into the statement text,
+ * which is injection-safe but means the values show up wherever statement text is logged.
+ */
+export async function executeSqlWithFallback(
+    client: SelfhostedSupabaseClient, 
+    sql: string, 
+    readOnly: boolean = true,
+    params?: SqlParam[]
+): Promise<SqlExecutionResult> {
+    return await executeOnSqlPaths(client, readOnly, {
+        pg: () => client.executeSqlWithPg(sql, readOnly, params),
+        rpc: () => client.executeSqlViaRpc(sql, readOnly, params),
+    });
+}
+
+/**
+ * Executes SQL a page at a time, choosing the connection like executeSqlWithFallback.
+ * Pageable queries return a `nextCursor` for client.fetchSqlPage().
+ */
+export async function executeSqlPageWithFallback(
+    client: SelfhostedSupabaseClient,
+    sql: string,
+    options: SqlPageOptions
+): Promise<SqlPageResult> {
+    if (options.identity && client.isPgAvailable()) {
+        // Only the direct connection can switch roles, so there is nothing to fall back to
+        const result = await client.executeSqlPageWithPg(sql, options);
+        client.recordSqlPathOutcome('pg', 'error' in result ? result.error : undefined);
+        return result;
+    }
+    return await executeOnSqlPaths(client, !!options.readOnly, {
+        pg: () => client.executeSqlPageWithPg(sql, options),
+        rpc: () => client.executeSqlPageViaRpc(sql, options),
+    });
+}
+
+/**
+ * Executes a multi-statement script, choosing the connection like executeSqlWithFallback.
+ */
+export async function executeSqlScriptWithFallback(
+    client: SelfhostedSupabaseClient,
+    statements: SqlScriptStatement[],
+    options: SqlScriptOptions
+): Promise<SqlScriptExecutionResult> {
+    return await executeOnSqlPaths(client, !!options.readOnly, {
+        pg: () => client.executeSqlScriptWithPg(statements, options),
+        rpc: () => client.executeSqlScriptViaRpc(statements, options),
+    });
+}
\ No newline at end of file
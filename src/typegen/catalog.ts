@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import type { SelfhostedSupabaseClient } from '../client/index.js';
+import { executeSqlWithFallback, handleSqlResponse } from '../tools/utils.js';
+
+const ColumnSchema = z.object({
+    name: z.string(),
+    type: z.string().describe('pg_type oid'),
+    type_modifier: z.number().describe('pg_attribute.atttypmod, e.g. the length of a varchar plus 4; -1 if none'),
+    not_null: z.boolean(),
+    has_default: z.boolean(),
+    identity: z.enum(['', 'a', 'd']).describe("'a' GENERATED ALWAYS, 'd' BY DEFAULT"),
+    generated: z.string().describe("'s' for stored generated columns, 'v' for virtual ones"),
+});
+
+const RelationshipSchema = z.object({
+    name: z.string(),
+    columns: z.array(z.string()),
+    one_to_one: z.boolean().describe('The foreign key columns are also a primary key or unique constraint.'),
+    referenced_relation: z.string(),
+    referenced_columns: z.array(z.string()),
+});
+
+const RelationSchema = z.object({
+    schema: z.string(),
+    name: z.string(),
+    kind: z.enum(['r', 'p', 'v', 'm', 'f']),
+    updatable: z.number().describe('pg_relation_is_updatable bits: 4 UPDATE, 8 INSERT, 16 DELETE'),
+    columns: z.array(ColumnSchema),
+    relationships: z.array(RelationshipSchema),
+    checks: z.array(z.object({
+        columns: z.array(z.string()),
+        definition: z.string().describe('pg_get_constraintdef, e.g. "CHECK ((status = ANY (ARRAY[...])))"'),
+    })),
+});
+
+const FunctionSchema = z.object({
+    schema: z.string(),
+    name: z.string(),
+    arg_types: z.array(z.string()).describe('All arguments, OUT and TABLE ones included'),
+    arg_names: z.array(z.string()).nullable(),
+    arg_modes: z.array(z.enum(['i', 'o', 'b', 'v', 't'])).nullable().describe('Null when every argument is IN'),
+    defaults: z.number().describe('How many of the last IN arguments have defaults'),
+    return_type: z.string(),
+    returns_set: z.boolean(),
+    return_columns: z.array(ColumnSchema.pick({ name: true, type: true, not_null: true })).nullable()
+        .describe('Columns of the composite type returned, e.g. by RETURNS SETOF some_table'),
+});
+
+const TypeSchema = z.object({
+    oid: z.string(),
+    schema: z.string(),
+    name: z.string(),
+    kind: z.enum(['b', 'c', 'd', 'e', 'p', 'r', 'm']).describe('pg_type.typtype'),
+    element: z.string().nullable().describe('Element type of an array type'),
+    base: z.string().nullable().describe('Base type of a domain'),
+});
+
+const TypegenCatalogSchema = z.object({
+    relations: z.array(RelationSchema),
+    functions: z.array(FunctionSchema),
+    enums: z.array(z.object({
+        schema: z.string(),
+        name: z.string(),
+        values: z.array(z.string()),
+    })),
+    composite_types: z.array(z.object({
+        schema: z.string(),
+        name: z.string(),
+        attributes: z.array(ColumnSchema.pick({ name: true, type: true })),
+    })),
+    types: z.array(TypeSchema),
+});
+
+export type TypegenColumn = z.infer<typeof ColumnSchema>;
+export type TypegenRelation = z.infer<typeof RelationSchema>;
+export type TypegenFunction = z.infer<typeof FunctionSchema>;
+export type TypegenType = z.infer<typeof TypeSchema>;
+export type TypegenCatalog = z.infer<typeof TypegenCatalogSchema>;
+
+// Names of the given attributes of a relation, in the order of the attribute numbers
+function attributeNamesSql(relation: string, attnums: string): string {
+    return `(
+                SELECT json_agg(a.attname ORDER BY u.position)
+                FROM unnest(${attnums}) WITH ORDINALITY AS u(attnum, position)
+                JOIN pg_catalog.pg_attribute a ON a.attrelid = ${relation} AND a.attnum = u.attnum
+            )`;
+}
+
+// Everything the type generators need about schemas $1, in one row. types covers every type so
+// that columns of types from other schemas (extensions, pg_catalog) resolve too.
+const TYPEGEN_CATALOG_SQL = `
+    SELECT
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', n.nspname,
+                'name', c.relname,
+                'kind', c.relkind,
+                'updatable', pg_relation_is_updatable(c.oid, false),
+                'columns', (
+                    SELECT COALESCE(json_agg(json_build_object(
+                        'name', a.attname,
+                        'type', a.atttypid,
+                        'type_modifier', a.atttypmod,
+                        'not_null', a.attnotnull,
+                        'has_default', a.atthasdef,
+                        'identity', a.attidentity,
+                        'generated', a.attgenerated
+                    ) ORDER BY a.attnum), '[]')
+                    FROM pg_catalog.pg_attribute a
+                    WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+                ),
+                'relationships', (
+                    SELECT COALESCE(json_agg(json_build_object(
+                        'name', k.conname,
+                        'columns', ${attributeNamesSql('k.conrelid', 'k.conkey')},
+                        'one_to_one', EXISTS (
+                            SELECT 1 FROM pg_catalog.pg_constraint uk
+                            WHERE uk.conrelid = k.conrelid AND uk.contype IN ('p', 'u')
+                                AND uk.conkey @> k.conkey AND uk.conkey <@ k.conkey
+                        ),
+                        'referenced_relation', fc.relname,
+                        'referenced_columns', ${attributeNamesSql('k.confrelid', 'k.confkey')}
+                    ) ORDER BY k.conname), '[]')
+                    FROM pg_catalog.pg_constraint k
+                    JOIN pg_catalog.pg_class fc ON fc.oid = k.confrelid
+                    WHERE k.conrelid = c.oid AND k.contype = 'f'
+                ),
+                'checks', (
+                    SELECT COALESCE(json_agg(json_build_object(
+                        'columns', COALESCE(${attributeNamesSql('k.conrelid', 'k.conkey')}, '[]'),
+                        'definition', pg_get_constraintdef(k.oid)
+                    ) ORDER BY k.conname), '[]')
+                    FROM pg_catalog.pg_constraint k
+                    WHERE k.conrelid = c.oid AND k.contype = 'c'
+                )
+            ) ORDER BY n.nspname, c.relname), '[]')
+            FROM pg_catalog.pg_class c
+            JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+            WHERE n.nspname = ANY($1::text[]) AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        ) AS relations,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', n.nspname,
+                'name', p.proname,
+                'arg_types', COALESCE(p.proallargtypes, p.proargtypes::oid[]),
+                'arg_names', p.proargnames,
+                'arg_modes', p.proargmodes,
+                'defaults', p.pronargdefaults,
+                'return_type', p.prorettype,
+                'returns_set', p.proretset,
+                'return_columns', (
+                    SELECT json_agg(json_build_object(
+                        'name', a.attname,
+                        'type', a.atttypid,
+                        'not_null', a.attnotnull
+                    ) ORDER BY a.attnum)
+                    FROM pg_catalog.pg_attribute a
+                    WHERE a.attrelid = rt.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+                )
+            ) ORDER BY n.nspname, p.proname, oidvectortypes(p.proargtypes)), '[]')
+            FROM pg_catalog.pg_proc p
+            JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+            JOIN pg_catalog.pg_type rt ON rt.oid = p.prorettype
+            WHERE n.nspname = ANY($1::text[]) AND p.prokind = 'f'
+        ) AS functions,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', n.nspname,
+                'name', t.typname,
+                'values', (
+                    SELECT COALESCE(json_agg(e.enumlabel ORDER BY e.enumsortorder), '[]')
+                    FROM pg_catalog.pg_enum e
+                    WHERE e.enumtypid = t.oid
+                )
+            ) ORDER BY n.nspname, t.typname), '[]')
+            FROM pg_catalog.pg_type t
+            JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+            WHERE n.nspname = ANY($1::text[]) AND t.typtype = 'e'
+        ) AS enums,
+        (
+            SELECT COALESCE(json_agg(json_build_object(
+                'schema', n.nspname,
+                'name', t.typname,
+                'attributes', (
+                    SELECT COALESCE(json_agg(json_build_object('name', a.attname, 'type', a.atttypid) ORDER BY a.attnum), '[]')
+                    FROM pg_catalog.pg_attribute a
+                    WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+                )
+            ) ORDER BY n.nspname, t.typname), '[]')
+            FROM pg_catalog.pg_type t
+            JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+            JOIN pg_catalog.pg_class c ON c.oid = t.typrelid
+            WHERE n.nspname = ANY($1::text[]) AND t.typtype = 'c' AND c.relkind = 'c'
+        ) AS composite_types,
+        (
+            SELECT json_agg(json_build_object(
+                'oid', t.oid,
+                'schema', n.nspname,
+                'name', t.typname,
+                'kind', t.typtype,
+                'element', CASE WHEN t.typcategory = 'A' THEN t.typelem END,
+                'base', NULLIF(t.typbasetype, 0)
+            ))
+            FROM pg_catalog.pg_type t
+            JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+        ) AS types
+`;
+
+/**
+ * Reads the tables, views, functions, enums and composite types of `schemas` from pg_catalog,
+ * on whichever SQL path the client has.
+ */
+export async function fetchTypegenCatalog(client: SelfhostedSupabaseClient, schemas: string[]): Promise<TypegenCatalog> {
+    const result = await executeSqlWithFallback(client, TYPEGEN_CATALOG_SQL, true, [schemas]);
+    const [catalog] = handleSqlResponse(result, z.array(TypegenCatalogSchema).length(1));
+    return catalog;
+}
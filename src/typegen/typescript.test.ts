@@ -0,0 +1,102 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import ts from 'typescript';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { TypegenCatalog } from './catalog.js';
+import { propertyKey, renderTypescriptTypes } from './typescript.js';
+import { fetchFixtureCatalog } from '../testing/typegen.js';
+
+// Uses the generated types the way an application would; @ts-expect-error marks what they must reject
+const USAGE = `
+import type { Database, Enums, Tables, TablesInsert, TablesUpdate } from './database.types'
+
+const author: Tables<'authors'> = {
+  id: 1, name: 'Ann', email: null, mood: 'happy', home: { street: null, zip: 1000 },
+  tags: [], profile: { nested: [1, 'two', null] }, status: 'active', 'created at': '2024-01-01T00:00:00+00:00',
+}
+const insert: TablesInsert<'authors'> = { name: 'Ann' }
+const update: TablesUpdate<'books'> = { price: 9.5 }
+const invoice: Tables<{ schema: 'billing' }, 'invoices'> = { id: 1, book_id: null, issued: '2024-01-01' }
+const mood: Enums<'mood'> = 'sad'
+const title: Tables<'book_titles'>['title'] = null
+const args: Database['public']['Functions']['add']['Args'] = { a: 1 }
+const books: Database['public']['Functions']['books_by']['Returns'] = [{ id: 1, author_id: 1, title: 'T', title_upper: 'T', price: null, isbn: null }]
+
+// @ts-expect-error identity columns are generated always
+const withId: TablesInsert<'authors'> = { name: 'Ann', id: 1 }
+// @ts-expect-error generated columns can't be written
+const withGenerated: TablesUpdate<'books'> = { title_upper: 'T' }
+// @ts-expect-error not a value of the enum
+const notAMood: Enums<'mood'> = 'angry'
+// @ts-expect-error name is required
+const noName: TablesInsert<'authors'> = {}
+
+export { author, insert, update, invoice, mood, title, args, books, withId, withGenerated, notAMood, noName }
+`;
+
+// Type-checks `files` together in a temporary directory
+function typeErrors(files: Record<string, string>): string[] {
+    const dir = mkdtempSync(join(tmpdir(), 'typegen-'));
+    try {
+        for (const [name, content] of Object.entries(files)) {
+            writeFileSync(join(dir, name), content);
+        }
+        const program = ts.createProgram(Object.keys(files).map((name) => join(dir, name)), {
+            strict: true,
+            noEmit: true,
+            noUnusedLocals: true,
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.ESNext,
+            moduleResolution: ts.ModuleResolutionKind.Bundler,
+            lib: ['lib.es5.d.ts'],
+            types: [],
+        });
+        return ts.getPreEmitDiagnostics(program).map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+// Starting the compiler takes a few seconds
+describe('renderTypescriptTypes', { timeout: 30_000 }, () => {
+    let catalog: TypegenCatalog;
+
+    beforeAll(async () => {
+        catalog = await fetchFixtureCatalog(['public', 'billing']);
+    });
+
+    it('type-checks and describes the tables, views, functions and types', () => {
+        const types = renderTypescriptTypes(catalog, ['public', 'billing']);
+
+        expect(typeErrors({ 'database.types.ts': types, 'usage.ts': USAGE })).toEqual([]);
+        expect(types).toContain(`Args: Record<PropertyKey, never>
+        Returns: {
+          authors: number
+          books: number
+        }`);
+        expect(types).toContain(`foreignKeyName: "invoices_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: true
+            referencedRelation: "books"`);
+        expect(types).toContain('mood: ["happy", "sad"],');
+    });
+
+    it('renders only the requested schemas', () => {
+        const types = renderTypescriptTypes(catalog, ['public']);
+
+        expect(types).not.toContain('billing');
+        expect(types).not.toContain('invoices');
+        expect(typeErrors({ 'database.types.ts': types })).toEqual([]);
+    });
+});
+
+describe('propertyKey', () => {
+    it('quotes names that are not identifiers', () => {
+        expect(propertyKey('name')).toBe('name');
+        expect(propertyKey('$_x1')).toBe('$_x1');
+        expect(propertyKey('created at')).toBe('"created at"');
+        expect(propertyKey('1st')).toBe('"1st"');
+        expect(propertyKey('say "hi"')).toBe('"say \\"hi\\""');
+    });
+});
@@ -0,0 +1,358 @@
+import type { TypegenCatalog, TypegenColumn, TypegenFunction, TypegenRelation, TypegenType } from './catalog.js';
+
+/**
+ * Renders the `Database` type the Supabase CLI (`supabase gen types typescript`) generates, from a
+ * catalog read by fetchTypegenCatalog: per schema its Tables (Row, Insert, Update, Relationships),
+ * Views, Functions (Args, Returns), Enums and CompositeTypes, followed by the CLI's helper types
+ * and the Constants object listing enum values. Formatted the way the CLI formats it.
+ */
+
+// A member of an object type; a nested member list renders as an object type
+interface Member {
+    name: string;
+    optional?: boolean;
+    type: TsType;
+}
+type TsType = string | { members: Member[]; array?: boolean } | { union: Member[][] } | { tuple: Member[][] };
+
+// pg_catalog types and their TypeScript counterparts; other base types become unknown
+const TS_TYPES: Record<string, string> = {
+    bool: 'boolean',
+    int2: 'number', int4: 'number', int8: 'number', float4: 'number', float8: 'number', numeric: 'number', oid: 'number',
+    json: 'Json', jsonb: 'Json',
+    text: 'string', varchar: 'string', bpchar: 'string', char: 'string', name: 'string', citext: 'string',
+    uuid: 'string', bytea: 'string', date: 'string', time: 'string', timetz: 'string', timestamp: 'string',
+    timestamptz: 'string', interval: 'string', inet: 'string', cidr: 'string', macaddr: 'string', macaddr8: 'string',
+    money: 'string', xml: 'string', bit: 'string', varbit: 'string', tsvector: 'string', tsquery: 'string',
+    vector: 'string',
+    void: 'undefined',
+    record: 'Record<string, unknown>',
+};
+
+const JSON_TYPE = `export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]`;
+
+const HELPER_TYPES = `type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never`;
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+export function propertyKey(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// Renders a type whose first line continues the current one and whose other lines start at `indent`
+function renderType(type: TsType, indent: string): string {
+    if (typeof type === 'string') {
+        return type;
+    }
+    if ('union' in type) {
+        return type.union
+            .map((members) => `\n${indent}  | {\n${renderMembers(members, `${indent}      `)}\n${indent}    }`)
+            .join('');
+    }
+    if ('tuple' in type) {
+        if (type.tuple.length === 0) {
+            return '[]';
+        }
+        const elements = type.tuple.map((members) => `${indent}  {\n${renderMembers(members, `${indent}    `)}\n${indent}  },`);
+        return `[\n${elements.join('\n')}\n${indent}]`;
+    }
+    if (type.members.length === 0) {
+        return `{\n${indent}  [_ in never]: never\n${indent}}`;
+    }
+    return `{\n${renderMembers(type.members, `${indent}  `)}\n${indent}}${type.array ? '[]' : ''}`;
+}
+
+function renderMembers(members: Member[], indent: string): string {
+    return members
+        .map(({ name, optional, type }) => {
+            const rendered = renderType(type, indent);
+            return `${indent}${propertyKey(name)}${optional ? '?' : ''}:${rendered.startsWith('\n') ? '' : ' '}${rendered}`;
+        })
+        .join('\n');
+}
+
+/**
+ * Turns pg_type oids into TypeScript types, referring to the Enums and CompositeTypes of the
+ * generated schemas where it can.
+ */
+class TypeMapper {
+    private readonly types: Map<string, TypegenType>;
+    private readonly enums: Set<string>;
+    private readonly composites: Set<string>;
+
+    constructor(catalog: TypegenCatalog) {
+        this.types = new Map(catalog.types.map((type) => [type.oid, type]));
+        this.enums = new Set(catalog.enums.map(({ schema, name }) => `${schema}.${name}`));
+        this.composites = new Set(catalog.composite_types.map(({ schema, name }) => `${schema}.${name}`));
+    }
+
+    tsType(oid: string): string {
+        const type = this.types.get(oid);
+        if (!type) {
+            return 'unknown';
+        }
+        if (type.element !== null) {
+            return `${this.tsType(type.element)}[]`;
+        }
+        const qualified = `${type.schema}.${type.name}`;
+        switch (type.kind) {
+            case 'd':
+                return type.base === null ? 'unknown' : this.tsType(type.base);
+            case 'e':
+                return this.enums.has(qualified) ? `Database["${type.schema}"]["Enums"]["${type.name}"]` : 'string';
+            case 'c':
+                return this.composites.has(qualified) ? `Database["${type.schema}"]["CompositeTypes"]["${type.name}"]` : 'unknown';
+            case 'r':
+            case 'm':
+                return 'string';
+            default:
+                return TS_TYPES[type.name] ?? 'unknown';
+        }
+    }
+
+    typeName(oid: string): string | undefined {
+        return this.types.get(oid)?.name;
+    }
+
+    columnType(column: Pick<TypegenColumn, 'type' | 'not_null'>): string {
+        const type = this.tsType(column.type);
+        return column.not_null ? type : `${type} | null`;
+    }
+}
+
+// Columns the database fills in itself, which can't be written
+function isReadOnlyColumn(column: TypegenColumn): boolean {
+    return column.generated !== '' || column.identity === 'a';
+}
+
+function relationMembers(relation: TypegenRelation, mapper: TypeMapper): Member[] {
+    const columns = [...relation.columns].sort(byName);
+    const isTable = ['r', 'p', 'f'].includes(relation.kind);
+    // View columns carry no NOT NULL; the CLI types them all nullable
+    const row = columns.map((column) => ({ name: column.name, type: mapper.columnType({ ...column, not_null: isTable && column.not_null }) }));
+    const write = (optional: (column: TypegenColumn) => boolean) => columns.map((column) => isReadOnlyColumn(column)
+        ? { name: column.name, optional: true, type: 'never' }
+        : { name: column.name, optional: optional(column), type: mapper.columnType({ ...column, not_null: isTable && column.not_null }) });
+
+    const members: Member[] = [{ name: 'Row', type: { members: row } }];
+    if (isTable || (relation.updatable & 8) !== 0) {
+        const insert = write((column) => !isTable || !column.not_null || column.has_default || column.identity !== '');
+        members.push({ name: 'Insert', type: { members: insert } });
+    }
+    if (isTable || (relation.updatable & 4) !== 0) {
+        members.push({ name: 'Update', type: { members: write(() => true) } });
+    }
+    const stringTuple = (values: string[]) => `[${values.map((value) => JSON.stringify(value)).join(', ')}]`;
+    const relationships = [...relation.relationships].sort(byName).map((relationship) => [
+        { name: 'foreignKeyName', type: JSON.stringify(relationship.name) },
+        { name: 'columns', type: stringTuple(relationship.columns) },
+        { name: 'isOneToOne', type: String(relationship.one_to_one) },
+        { name: 'referencedRelation', type: JSON.stringify(relationship.referenced_relation) },
+        { name: 'referencedColumns', type: stringTuple(relationship.referenced_columns) },
+    ]);
+    members.push({ name: 'Relationships', type: { tuple: relationships } });
+    return members;
+}
+
+// One overload's Args and Returns, or null when PostgREST can't call the function
+function functionSignature(fn: TypegenFunction, mapper: TypeMapper): Member[] | null {
+    const modes = fn.arg_modes ?? fn.arg_types.map(() => 'i' as const);
+    const args = fn.arg_types.map((type, index) => ({ type, name: fn.arg_names?.[index] ?? '', mode: modes[index] }));
+    const inArgs = args.filter(({ mode }) => mode === 'i' || mode === 'b' || mode === 'v');
+    const outArgs = args.filter(({ mode }) => mode === 'o' || mode === 'b' || mode === 't');
+
+    // PostgREST passes arguments by name; a single unnamed one takes the whole request body
+    if (inArgs.some(({ name }) => name === '') && inArgs.length !== 1) {
+        return null;
+    }
+    const firstDefault = inArgs.length - fn.defaults;
+    const argMembers = inArgs.map(({ name, type }, index) => ({ name, optional: index >= firstDefault, type: mapper.tsType(type) }));
+
+    let returns: TsType;
+    if (outArgs.length > 0 && mapper.typeName(fn.return_type) === 'record') {
+        returns = { members: outArgs.map(({ name, type }) => ({ name, type: mapper.tsType(type) })).sort(byName), array: fn.returns_set };
+    } else if (fn.return_columns) {
+        const columns = [...fn.return_columns].sort(byName).map((column) => ({ name: column.name, type: mapper.columnType(column) }));
+        returns = { members: columns, array: fn.returns_set };
+    } else {
+        returns = `${mapper.tsType(fn.return_type)}${fn.returns_set ? '[]' : ''}`;
+    }
+    return [
+        { name: 'Args', type: argMembers.length === 0 ? 'Record<PropertyKey, never>' : { members: argMembers } },
+        { name: 'Returns', type: returns },
+    ];
+}
+
+function functionMembers(functions: TypegenFunction[], mapper: TypeMapper): Member[] {
+    const overloads = new Map<string, Member[][]>();
+    for (const fn of functions) {
+        if (['trigger', 'event_trigger'].includes(mapper.typeName(fn.return_type) ?? '')) {
+            continue;
+        }
+        const signature = functionSignature(fn, mapper);
+        if (signature) {
+            overloads.set(fn.name, [...(overloads.get(fn.name) ?? []), signature]);
+        }
+    }
+    return [...overloads.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, signatures]) => ({ name, type: signatures.length === 1 ? { members: signatures[0] } : { union: signatures } }));
+}
+
+/**
+ * Renders the generated file for `schemas` (sorted by name, as the CLI does).
+ */
+export function renderTypescriptTypes(catalog: TypegenCatalog, schemas: string[]): string {
+    const mapper = new TypeMapper(catalog);
+    const sortedSchemas = [...new Set(schemas)].sort((a, b) => a.localeCompare(b));
+
+    const schemaMembers = sortedSchemas.map((schema): Member => {
+        const relations = catalog.relations.filter((relation) => relation.schema === schema).sort(byName);
+        const tables = relations.filter(({ kind }) => ['r', 'p', 'f'].includes(kind));
+        const views = relations.filter(({ kind }) => kind === 'v' || kind === 'm');
+        const enums = catalog.enums.filter((type) => type.schema === schema).sort(byName);
+        const composites = catalog.composite_types.filter((type) => type.schema === schema).sort(byName);
+        return {
+            name: schema,
+            type: {
+                members: [
+                    { name: 'Tables', type: { members: tables.map((table) => ({ name: table.name, type: { members: relationMembers(table, mapper) } })) } },
+                    { name: 'Views', type: { members: views.map((view) => ({ name: view.name, type: { members: relationMembers(view, mapper) } })) } },
+                    { name: 'Functions', type: { members: functionMembers(catalog.functions.filter((fn) => fn.schema === schema), mapper) } },
+                    { name: 'Enums', type: { members: enums.map(({ name, values }) => ({ name, type: values.map((value) => JSON.stringify(value)).join(' | ') || 'never' })) } },
+                    {
+                        name: 'CompositeTypes',
+                        type: {
+                            members: composites.map(({ name, attributes }) => ({
+                                name,
+                                type: { members: attributes.map((attribute) => ({ name: attribute.name, type: `${mapper.tsType(attribute.type)} | null` })) },
+                            })),
+                        },
+                    },
+                ],
+            },
+        };
+    });
+
+    const constants = sortedSchemas.map((schema) => {
+        const enums = catalog.enums.filter((type) => type.schema === schema).sort(byName);
+        const enumLines = enums.map(({ name, values }) => `      ${propertyKey(name)}: [${values.map((value) => JSON.stringify(value)).join(', ')}],`);
+        return `  ${propertyKey(schema)}: {\n    Enums: {${enumLines.length === 0 ? '' : `\n${enumLines.join('\n')}\n    `}},\n  },`;
+    });
+
+    return [
+        JSON_TYPE,
+        `export type Database = ${renderType({ members: schemaMembers }, '')}`,
+        HELPER_TYPES,
+        `export const Constants = {\n${constants.join('\n')}\n} as const`,
+    ].join('\n\n') + '\n';
+}
@@ -0,0 +1,95 @@
+import ts from 'typescript';
+import { z } from 'zod';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { TypegenCatalog } from './catalog.js';
+import { renderZodSchemas } from './zod.js';
+import { fetchFixtureCatalog } from '../testing/typegen.js';
+
+// Runs the generated module, with its zod import resolved to ours, and returns its exports
+function loadSchemas(source: string): Record<string, z.ZodTypeAny> {
+    const { outputText, diagnostics } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+        reportDiagnostics: true,
+    });
+    expect(diagnostics?.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))).toEqual([]);
+    const exports: Record<string, z.ZodTypeAny> = {};
+    const require = (id: string) => {
+        if (id !== 'zod') {
+            throw new Error(`Unexpected import: ${id}`);
+        }
+        return { z };
+    };
+    new Function('exports', 'require', outputText)(exports, require);
+    return exports;
+}
+
+const author = {
+    id: 1,
+    name: 'Ann',
+    email: null,
+    mood: 'happy',
+    home: { street: 'Main St', zip: 1000 },
+    tags: ['a'],
+    profile: { nested: [1, 'two', null, { deep: true }] },
+    status: "it's complicated",
+    'created at': '2024-01-01T12:00:00.123456+00:00',
+};
+
+describe('renderZodSchemas', () => {
+    let catalog: TypegenCatalog;
+    let schemas: Record<string, z.ZodTypeAny>;
+
+    beforeAll(async () => {
+        catalog = await fetchFixtureCatalog(['public', 'billing']);
+        schemas = loadSchemas(renderZodSchemas(catalog, ['public', 'billing']));
+    });
+
+    it('exports Row, Insert and Update schemas per table, and the enums and composite types', () => {
+        expect(Object.keys(schemas).sort()).toEqual([
+            'AddressSchema',
+            'AuthorsInsertSchema', 'AuthorsRowSchema', 'AuthorsUpdateSchema',
+            'BillingInvoicesInsertSchema', 'BillingInvoicesRowSchema', 'BillingInvoicesUpdateSchema',
+            'BooksInsertSchema', 'BooksRowSchema', 'BooksUpdateSchema',
+            'MoodSchema',
+            'jsonSchema',
+        ]);
+    });
+
+    it('accepts rows as the REST API returns them', () => {
+        expect(schemas.AuthorsRowSchema.safeParse(author).success).toBe(true);
+        expect(schemas.BooksRowSchema.safeParse({
+            id: 1, author_id: 1, title: 'T', title_upper: 'T', price: 9.5, isbn: '0b4c3a4e-4f9a-4ad8-9d8f-2c1e1a2b3c4d',
+        }).success).toBe(true);
+        expect(schemas.BillingInvoicesRowSchema.safeParse({ id: 1, book_id: null, issued: '2024-02-29' }).success).toBe(true);
+    });
+
+    it('carries the column constraints', () => {
+        const rejected = (schema: string, value: object) => schemas[schema].safeParse(value).success === false;
+
+        expect(rejected('AuthorsRowSchema', { ...author, name: 'x'.repeat(21) })).toBe(true);
+        expect(rejected('AuthorsRowSchema', { ...author, status: 'busy' })).toBe(true);
+        expect(rejected('AuthorsRowSchema', { ...author, mood: 'angry' })).toBe(true);
+        expect(rejected('AuthorsRowSchema', { ...author, home: { street: null, zip: 1.5 } })).toBe(true);
+        expect(rejected('AuthorsRowSchema', { ...author, 'created at': 'yesterday' })).toBe(true);
+        expect(rejected('AuthorsRowSchema', { ...author, profile: { fn: () => 1 } })).toBe(true);
+        expect(rejected('BillingInvoicesRowSchema', { id: 2 ** 31, book_id: null, issued: '2024-01-01' })).toBe(true);
+        expect(rejected('BooksRowSchema', { id: 1, author_id: 1, title: 'T', title_upper: null, price: null, isbn: 'not-a-uuid' })).toBe(true);
+    });
+
+    it('leaves defaulted columns optional and refuses generated ones on write', () => {
+        expect(schemas.AuthorsInsertSchema.safeParse({ name: 'Ann' }).success).toBe(true);
+        expect(schemas.AuthorsInsertSchema.safeParse({}).success).toBe(false);
+        expect(schemas.AuthorsInsertSchema.safeParse({ name: 'Ann', id: 1 }).success).toBe(false);
+        expect(schemas.BooksInsertSchema.safeParse({ author_id: 1, title: 'T', id: 7 }).success).toBe(true);
+        expect(schemas.BooksUpdateSchema.safeParse({ price: null }).success).toBe(true);
+        expect(schemas.BooksUpdateSchema.safeParse({ title_upper: 'T' }).success).toBe(false);
+    });
+
+    it('renders only the requested schemas, and jsonSchema only when a column uses it', () => {
+        const billing = renderZodSchemas(catalog, ['billing']);
+
+        expect(Object.keys(loadSchemas(billing)).sort()).toEqual([
+            'BillingInvoicesInsertSchema', 'BillingInvoicesRowSchema', 'BillingInvoicesUpdateSchema',
+        ]);
+    });
+});
@@ -0,0 +1,211 @@
+import type { TypegenCatalog, TypegenColumn, TypegenRelation, TypegenType } from './catalog.js';
+import { propertyKey } from './typescript.js';
+
+/**
+ * Renders Zod schemas for the tables of a catalog read by fetchTypegenCatalog: per table a Row,
+ * an Insert and an Update schema, matching the Row/Insert/Update types of renderTypescriptTypes.
+ * Strings carry the length of varchar and char columns and the format of uuid, date and time
+ * columns; text columns limited to a list of values by a CHECK constraint become z.enum.
+ */
+
+// pg_catalog types and their Zod schemas; other base types become z.unknown()
+const ZOD_TYPES: Record<string, string> = {
+    bool: 'z.boolean()',
+    int2: 'z.number().int().min(-32768).max(32767)',
+    int4: 'z.number().int().min(-2147483648).max(2147483647)',
+    int8: 'z.number().int()',
+    oid: 'z.number().int().nonnegative()',
+    float4: 'z.number()', float8: 'z.number()', numeric: 'z.number()',
+    json: 'jsonSchema', jsonb: 'jsonSchema',
+    uuid: 'z.string().uuid()',
+    date: 'z.string().date()',
+    time: 'z.string().time()',
+    timestamp: 'z.string().datetime({ local: true })',
+    timestamptz: 'z.string().datetime({ offset: true })',
+    text: 'z.string()', varchar: 'z.string()', bpchar: 'z.string()', char: 'z.string()', name: 'z.string()', citext: 'z.string()',
+    bytea: 'z.string()', timetz: 'z.string()', interval: 'z.string()', inet: 'z.string()', cidr: 'z.string()',
+    macaddr: 'z.string()', macaddr8: 'z.string()', money: 'z.string()', xml: 'z.string()', bit: 'z.string()',
+    varbit: 'z.string()', tsvector: 'z.string()', tsquery: 'z.string()', vector: 'z.string()',
+    record: 'z.record(z.string(), z.unknown())',
+};
+
+// Types whose atttypmod is a maximum length plus 4
+const LENGTH_TYPES = ['varchar', 'bpchar'];
+
+const JSON_SCHEMA = `export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export const jsonSchema: z.ZodType<Json> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.record(z.string(), jsonSchema.optional()),
+    z.array(jsonSchema),
+  ])
+)`;
+
+// What pg_get_constraintdef prints for CHECK (column IN (...)) and CHECK (column = ...) on text
+// columns, e.g. CHECK ((status = ANY (ARRAY['draft'::text, 'published'::text]))) or, for a
+// varchar, CHECK (((kind)::text = ANY ((ARRAY['a'::character varying])::text[])))
+const LITERAL = `'((?:[^']|'')*)'::[a-z ]+`;
+const COLUMN = `\\(?("(?:[^"]|"")*"|[a-z_][a-z0-9_$]*)\\)?(?:::[a-z ]+)?`;
+const IN_LIST_CHECK = new RegExp(`^CHECK \\(\\(${COLUMN} = ANY \\(\\(?ARRAY\\[(${LITERAL}(?:, ${LITERAL})*)\\](?:\\)::[a-z ]+\\[\\])?\\)\\)\\)$`);
+const EQUALS_CHECK = new RegExp(`^CHECK \\(\\(${COLUMN} = ${LITERAL}\\)\\)$`);
+
+function unquoteIdentifier(identifier: string): string {
+    return identifier.startsWith('"') ? identifier.slice(1, -1).replaceAll('""', '"') : identifier;
+}
+
+// The values of the CHECK constraints that limit a single column to a list, by column name
+function checkedValues(relation: TypegenRelation): Map<string, string[]> {
+    const values = new Map<string, string[]>();
+    for (const check of relation.checks) {
+        if (check.columns.length !== 1) {
+            continue;
+        }
+        const inList = IN_LIST_CHECK.exec(check.definition);
+        const equals = inList ? null : EQUALS_CHECK.exec(check.definition);
+        const column = (inList ?? equals)?.[1];
+        if (column === undefined || unquoteIdentifier(column) !== check.columns[0] || values.has(check.columns[0])) {
+            continue;
+        }
+        const literals = inList ? [...inList[2].matchAll(new RegExp(LITERAL, 'g'))].map((literal) => literal[1]) : [equals![2]];
+        const list = literals.map((literal) => literal.replaceAll("''", "'"));
+        values.set(check.columns[0], list);
+    }
+    return values;
+}
+
+function pascalCase(name: string): string {
+    const pascal = name
+        .split(/[^A-Za-z0-9]+/)
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('');
+    return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+}
+
+// Name of the schema generated for a table or type; objects outside public get the schema as a prefix
+function schemaName(schema: string, name: string, suffix: string): string {
+    return `${schema === 'public' ? '' : pascalCase(schema)}${pascalCase(name)}${suffix}`;
+}
+
+/**
+ * Turns pg_type oids into Zod schemas, referring to the enum and composite type schemas of the
+ * generated schemas where it can.
+ */
+class ZodMapper {
+    private readonly types: Map<string, TypegenType>;
+    private readonly enums: Set<string>;
+    private readonly composites: Set<string>;
+    usesJson = false;
+
+    constructor(catalog: TypegenCatalog, schemas: string[]) {
+        this.types = new Map(catalog.types.map((type) => [type.oid, type]));
+        this.enums = new Set(catalog.enums.filter(({ schema }) => schemas.includes(schema)).map(({ schema, name }) => `${schema}.${name}`));
+        this.composites = new Set(catalog.composite_types.filter(({ schema }) => schemas.includes(schema)).map(({ schema, name }) => `${schema}.${name}`));
+    }
+
+    // The type modifier of an array column applies to its elements
+    zodType(oid: string, typeModifier = -1): string {
+        const type = this.types.get(oid);
+        if (!type) {
+            return 'z.unknown()';
+        }
+        if (type.element !== null) {
+            return `z.array(${this.zodType(type.element, typeModifier)})`;
+        }
+        const qualified = `${type.schema}.${type.name}`;
+        switch (type.kind) {
+            case 'd':
+                return type.base === null ? 'z.unknown()' : this.zodType(type.base, typeModifier);
+            case 'e':
+                return this.enums.has(qualified) ? schemaName(type.schema, type.name, 'Schema') : 'z.string()';
+            case 'c':
+                return this.composites.has(qualified) ? `z.lazy(() => ${schemaName(type.schema, type.name, 'Schema')})` : 'z.unknown()';
+            case 'r':
+            case 'm':
+                return 'z.string()';
+        }
+        const zodType = ZOD_TYPES[type.name] ?? 'z.unknown()';
+        if (zodType === 'jsonSchema') {
+            this.usesJson = true;
+        }
+        if (LENGTH_TYPES.includes(type.name) && typeModifier >= 4) {
+            return `${zodType}.max(${typeModifier - 4})`;
+        }
+        return zodType;
+    }
+}
+
+// Columns the database fills in itself, which can't be written
+function isReadOnlyColumn(column: TypegenColumn): boolean {
+    return column.generated !== '' || column.identity === 'a';
+}
+
+function renderObject(properties: [string, string][]): string {
+    if (properties.length === 0) {
+        return 'z.object({})';
+    }
+    return `z.object({\n${properties.map(([name, schema]) => `  ${propertyKey(name)}: ${schema},`).join('\n')}\n})`;
+}
+
+function tableSchemas(table: TypegenRelation, mapper: ZodMapper): string[] {
+    const checked = checkedValues(table);
+    const columnSchema = (column: TypegenColumn) => {
+        const values = checked.get(column.name);
+        const schema = values && mapper.zodType(column.type).startsWith('z.string()')
+            ? `z.enum([${values.map((value) => JSON.stringify(value)).join(', ')}])`
+            : mapper.zodType(column.type, column.type_modifier);
+        return column.not_null ? schema : `${schema}.nullable()`;
+    };
+    const row = table.columns.map((column): [string, string] => [column.name, columnSchema(column)]);
+    const insert = table.columns.map((column): [string, string] => {
+        if (isReadOnlyColumn(column)) {
+            return [column.name, 'z.never().optional()'];
+        }
+        const optional = !column.not_null || column.has_default || column.identity !== '';
+        return [column.name, optional ? `${columnSchema(column)}.optional()` : columnSchema(column)];
+    });
+    return [
+        `export const ${schemaName(table.schema, table.name, 'RowSchema')} = ${renderObject(row)}`,
+        `export const ${schemaName(table.schema, table.name, 'InsertSchema')} = ${renderObject(insert)}`,
+        `export const ${schemaName(table.schema, table.name, 'UpdateSchema')} = ${schemaName(table.schema, table.name, 'InsertSchema')}.partial()`,
+    ];
+}
+
+/**
+ * Renders the generated file for the tables of `schemas`: enum and composite type schemas first,
+ * then the Row, Insert and Update schemas of each table, with columns in table order.
+ */
+export function renderZodSchemas(catalog: TypegenCatalog, schemas: string[]): string {
+    const sortedSchemas = [...new Set(schemas)].sort((a, b) => a.localeCompare(b));
+    const mapper = new ZodMapper(catalog, sortedSchemas);
+    const inSchemas = <T extends { schema: string; name: string }>(objects: T[]) => objects
+        .filter(({ schema }) => sortedSchemas.includes(schema))
+        .sort((a, b) => a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name));
+
+    const enums = inSchemas(catalog.enums).map(({ schema, name, values }) =>
+        `export const ${schemaName(schema, name, 'Schema')} = z.enum([${values.map((value) => JSON.stringify(value)).join(', ')}])`);
+    const composites = inSchemas(catalog.composite_types).map(({ schema, name, attributes }) => {
+        const properties = attributes.map(({ name: attribute, type }): [string, string] => [attribute, `${mapper.zodType(type)}.nullable()`]);
+        return `export const ${schemaName(schema, name, 'Schema')} = ${renderObject(properties)}`;
+    });
+    const tables = inSchemas(catalog.relations)
+        .filter(({ kind }) => ['r', 'p', 'f'].includes(kind))
+        .flatMap((table) => tableSchemas(table, mapper));
+
+    return [
+        'import { z } from "zod"',
+        ...(mapper.usesJson ? [JSON_SCHEMA] : []),
+        ...enums,
+        ...composites,
+        ...tables,
+    ].join('\n\n') + '\n';
+}
@@ -1,85 +1,206 @@
-import type { SupabaseClientOptions } from '@supabase/supabase-js';
-
-/**
- * Configuration options for the SelfhostedSupabaseClient.
- */
-export interface SelfhostedSupabaseClientOptions {
-    supabaseUrl: string;
-    supabaseAnonKey: string;
-    supabaseServiceRoleKey?: string; // Optional, but needed for some operations like auto-creating helpers
-    databaseUrl?: string; // Optional, but needed for direct DB access/transactions
-    jwtSecret?: string; // Add JWT Secret
-    supabaseClientOptions?: SupabaseClientOptions<"public">;
-}
-
-/**
- * Represents the structure of a successful SQL execution result via the RPC function.
- */
-export type SqlSuccessResponse = Record<string, unknown>[];
-
-/**
- * Represents the structure of an error during SQL execution.
- */
-export interface SqlErrorResponse {
-    error: {
-        message: string;
-        code?: string; // e.g., PostgreSQL error code
-        details?: string;
-        hint?: string;
-    };
-}
-
-/**
- * Represents the result of an SQL execution, which can be success or error.
- */
-export type SqlExecutionResult = SqlSuccessResponse | SqlErrorResponse;
-
-// --- Core Data Structure Interfaces ---
-
-/**
- * Represents a user object from the auth.users table.
- * Based on fields selected in listAuthUsersTool, getAuthUserTool etc.
- */
-export interface AuthUser {
-    id: string; // uuid
-    email: string | null;
-    role: string | null;
-    created_at: string | null; // Timestamps returned as text from DB
-    last_sign_in_at: string | null;
-    raw_app_meta_data: Record<string, unknown> | null;
-    raw_user_meta_data: Record<string, unknown> | null;
-    // Add other relevant fields if needed, e.g., email_confirmed_at
-}
-
-/**
- * Represents a storage bucket from the storage.buckets table.
- */
-export interface StorageBucket {
-    id: string;
-    name: string;
-    owner: string | null;
-    public: boolean;
-    avif_autodetection: boolean;
-    file_size_limit: number | null;
-    allowed_mime_types: string[] | null;
-    created_at: string | null; // Timestamps returned as text from DB
-    updated_at: string | null;
-}
-
-/**
- * Represents a storage object from the storage.objects table.
- * Based on fields selected in listStorageObjectsTool.
- */
-export interface StorageObject {
-    id: string; // uuid
-    name: string | null;
-    bucket_id: string;
-    owner: string | null; // uuid
-    version: string | null;
-    mimetype: string | null; // Extracted from metadata
-    size: number | null;     // Extracted from metadata, parsed as number
-    metadata: Record<string, unknown> | null; // Use unknown instead of any
-    created_at: string | null; // Timestamps returned as text from DB
-    updated_at: string | null;
-    last_accessed_at: string | null;
+import type { SupabaseClientOptions } from '@supabase/supabase-js';
+import type { PgSslMode } from '../client/pg-config.js';
+import type { SqlPath } from '../client/sql-paths.js';
+import type { SqlTruncation } from '../sql/pagination.js';
+import type { SqlParam } from '../sql/params.js';
+
+/**
+ * Configuration options for the SelfhostedSupabaseClient.
+ */
+export interface SelfhostedSupabaseClientOptions {
+    supabaseUrl: string;
+    supabaseAnonKey: string;
+    supabaseServiceRoleKey?: string; // Optional, but needed for some operations like auto-creating helpers
+    databaseUrl?: string; // Optional, but needed for direct DB access/transactions
+    jwtSecret?: string; // Add JWT Secret
+    readOnly?: boolean; // Run every statement in a read-only transaction
+    sqlMaxRows?: number;  // Most rows execute_sql returns per page
+    sqlMaxBytes?: number; // Most bytes (of JSON) execute_sql returns per page
+    sqlTimeoutMs?: number; // statement_timeout for SQL run by tools; 0 leaves the database's own
+    pg?: PgConnectionOptions; // Pool and TLS settings for the direct connection
+    rpcHelper?: 'auto' | 'manual'; // auto: install and migrate the RPC helper on startup; manual: only use an installed one
+    supabaseClientOptions?: SupabaseClientOptions<"public">;
+}
+
+/**
+ * Pool and TLS settings for the direct database connection. Unset values keep pg's defaults.
+ */
+export interface PgConnectionOptions {
+    poolMax?: number;             // Most open connections (default 10)
+    idleTimeoutMs?: number;       // Close connections idle for this long (default 10000; 0 keeps them)
+    connectionTimeoutMs?: number; // Give up connecting after this long (default: wait indefinitely)
+    applicationName?: string;     // application_name of every connection, shown in pg_stat_activity
+    sslMode?: PgSslMode;          // As in libpq; verify-full when only a CA certificate is given
+    sslRootCert?: string;         // Path to the CA certificate(s) to verify the server with
+    sslCert?: string;             // Path to the client certificate
+    sslKey?: string;              // Path to the client certificate's private key
+}
+
+/**
+ * Represents the structure of a successful SQL execution result via the RPC function.
+ */
+export type SqlSuccessResponse = Record<string, unknown>[];
+
+/**
+ * Represents the structure of an error during SQL execution.
+ */
+export interface SqlErrorResponse {
+    error: {
+        message: string;
+        code?: string; // e.g., PostgreSQL error code
+        details?: string;
+        hint?: string;
+    };
+}
+
+/**
+ * Represents the result of an SQL execution, which can be success or error.
+ */
+export type SqlExecutionResult = SqlSuccessResponse | SqlErrorResponse;
+
+/**
+ * A result column and its Postgres type, e.g. { name: 'id', type: 'uuid' }.
+ */
+export interface SqlColumn {
+    name: string;
+    type: string;
+}
+
+/**
+ * Who SQL runs as, the way PostgREST runs it for a client: a database role and the JWT claims
+ * exposed through request.jwt.claims (and so auth.uid(), auth.jwt() and RLS policies).
+ */
+export interface SqlIdentity {
+    role: string;
+    claims: Record<string, unknown>;
+}
+
+/**
+ * Options of the tool call SQL runs for (see SelfhostedSupabaseClient.runWithCallOptions).
+ */
+export interface SqlCallOptions {
+    timeoutMs?: number;   // Lowers the server's statement timeout for this call
+    signal?: AbortSignal; // Cancels the call's running query when aborted
+    onSqlPath?: (attempt: SqlPathAttempt) => void; // Told which path each query of the call went through
+}
+
+/**
+ * A query's trip through one SQL path. `error` is set when the path couldn't reach the database.
+ */
+export interface SqlPathAttempt {
+    path: SqlPath;
+    error?: string;
+}
+
+/**
+ * Options for executing SQL a page at a time.
+ */
+export interface SqlPageOptions {
+    readOnly?: boolean;
+    params?: SqlParam[];
+    identity?: SqlIdentity; // Requires the direct connection
+    maxRows: number;
+    maxBytes: number;
+}
+
+/**
+ * One page of a query result.
+ */
+export interface SqlPage {
+    rows: SqlSuccessResponse;
+    columns: SqlColumn[];
+    truncatedBy?: SqlTruncation; // Set when more rows were available than the page could hold
+    nextCursor?: string;         // Fetches the next page; only for queries that can be paged
+    notice?: string;
+}
+
+/**
+ * Represents the result of a paged SQL execution, which can be a page or an error.
+ */
+export type SqlPageResult = SqlPage | SqlErrorResponse;
+
+/**
+ * Options for executing a multi-statement script. The limits apply to each statement's rows.
+ */
+export interface SqlScriptOptions {
+    readOnly?: boolean;
+    atomic: boolean; // One transaction, rolled back at the first error; otherwise each statement on its own
+    maxRows: number;
+    maxBytes: number;
+    onStatement?: (done: number) => void; // Called after each statement, with the number run so far
+}
+
+/**
+ * The outcome of one statement in a script.
+ */
+export interface SqlStatementResult {
+    command: string;                     // First word of the command tag, e.g. INSERT
+    status: 'ok' | 'error' | 'skipped';  // Skipped after an earlier error in an atomic script
+    rowCount: number | null;             // Rows returned or affected
+    rows?: SqlSuccessResponse;           // Only for statements that return rows
+    truncatedBy?: SqlTruncation;
+    error?: SqlErrorResponse['error'];
+}
+
+/**
+ * The results of a script, in statement order.
+ */
+export interface SqlScriptResult {
+    rolledBack: boolean; // An atomic script failed and none of its statements took effect
+    statements: SqlStatementResult[];
+}
+
+/**
+ * Represents the result of a script execution, which can be per-statement results or an error.
+ */
+export type SqlScriptExecutionResult = SqlScriptResult | SqlErrorResponse;
+
+// --- Core Data Structure Interfaces ---
+
+/**
+ * Represents a user object from the auth.users table.
+ * Based on fields selected in listAuthUsersTool, getAuthUserTool etc.
+ */
+export interface AuthUser {
+    id: string; // uuid
+    email: string | null;
+    role: string | null;
+    created_at: string | null; // Timestamps returned as text from DB
+    last_sign_in_at: string | null;
+    raw_app_meta_data: Record<string, unknown> | null;
+    raw_user_meta_data: Record<string, unknown> | null;
+    // Add other relevant fields if needed, e.g., email_confirmed_at
+}
+
+/**
+ * Represents a storage bucket from the storage.buckets table.
+ */
+export interface StorageBucket {
+    id: string;
+    name: string;
+    owner: string | null;
+    public: boolean;
+    avif_autodetection: boolean;
+    file_size_limit: string | null; // bigint, as a decimal string
+    allowed_mime_types: string[] | null;
+    created_at: string | null; // Timestamps returned as text from DB
+    updated_at: string | null;
+}
+
+/**
+ * Represents a storage object from the storage.objects table.
+ * Based on fields selected in listStorageObjectsTool.
+ */
+export interface StorageObject {
+    id: string; // uuid
+    name: string | null;
+    bucket_id: string;
+    owner: string | null; // uuid
+    version: string | null;
+    mimetype: string | null; // Extracted from metadata
+    size: number | null;     // Extracted from metadata, parsed as number
+    metadata: Record<string, unknown> | null; // Use unknown instead of any
+    created_at: string | null; // Timestamps returned as text from DB
+    updated_at: string | null;
+    last_accessed_at: string | null;
 } 
\ No newline at end of file
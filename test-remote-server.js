@@ -6,7 +6,10 @@
 
 import fetch from 'node-fetch';
 
-const BASE_URL = 'http://localhost:3000';
+const BASE_URL = process.env.MCP_BASE_URL || 'http://localhost:3000';
+// Bearer token for the /mcp and /sse endpoints (an entry from MCP_API_KEYS or a service_role JWT)
+const API_KEY = process.env.MCP_API_KEY || '';
+const AUTH_HEADERS = API_KEY ? { 'Authorization': `Bearer ${API_KEY}` } : {};
 
 async function testEndpoint(name, url, options = {}) {
     console.log(`\n🧪 Testing ${name}...`);
@@ -32,6 +35,47 @@ async function testEndpoint(name, url, options = {}) {
     }
 }
 
+/**
+ * Opens the SSE stream, waits for the endpoint event, then disconnects
+ */
+async function testSseEndpoint() {
+    console.log(`\n🧪 Testing SSE Endpoint...`);
+    const controller = new AbortController();
+    try {
+        const response = await fetch(`${BASE_URL}/sse`, { headers: AUTH_HEADERS, signal: controller.signal });
+        let received = '';
+        for await (const chunk of response.body) {
+            received += chunk.toString();
+            if (received.includes('\n\n')) break;
+        }
+        controller.abort();
+
+        const ok = response.ok && received.startsWith('event: endpoint');
+        console.log(`${ok ? '✅' : '❌'} SSE Endpoint: ${response.status} ${response.statusText}`);
+        console.log(`📄 Response: ${received.trim()}`);
+        return ok;
+    } catch (error) {
+        controller.abort();
+        console.log(`❌ SSE Endpoint: ${error.message}`);
+        return false;
+    }
+}
+
+// Session ID assigned by the server in response to initialize
+let sessionId = null;
+
+/**
+ * Extracts the JSON-RPC response from either a JSON body or an SSE stream body
+ */
+async function readMcpResponse(response) {
+    const text = await response.text();
+    if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        return text ? JSON.parse(text) : null;
+    }
+    const dataLines = text.split('\n').filter(line => line.startsWith('data: '));
+    return dataLines.map(line => JSON.parse(line.slice('data: '.length))).find(message => 'id' in message) ?? null;
+}
+
 async function testMCPRequest(name, method, params = {}) {
     console.log(`\n🔧 Testing MCP: ${name}...`);
     
@@ -47,14 +91,22 @@ async function testMCPRequest(name, method, params = {}) {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
+                'Accept': 'application/json, text/event-stream',
+                ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+                ...AUTH_HEADERS,
             },
             body: JSON.stringify(payload)
         });
         
-        const data = await response.json();
-        console.log(`✅ MCP ${name}: ${response.status} ${response.statusText}`);
+        if (method === 'initialize') {
+            sessionId = response.headers.get('mcp-session-id');
+            console.log(`🔑 Session: ${sessionId}`);
+        }
+
+        const data = await readMcpResponse(response);
+        console.log(`${response.ok ? '✅' : '❌'} MCP ${name}: ${response.status} ${response.statusText}`);
         console.log(`📄 Response:`, JSON.stringify(data, null, 2));
-        return true;
+        return response.ok && !data?.error;
     } catch (error) {
         console.log(`❌ MCP ${name}: ${error.message}`);
         return false;
@@ -72,22 +124,25 @@ async function runTests() {
     const basicTests = [
         ['Health Check', `${BASE_URL}/health`],
         ['Server Info', `${BASE_URL}/`],
-        ['SSE Endpoint', `${BASE_URL}/sse`],
     ];
     
     for (const [name, url] of basicTests) {
         total++;
-        if (await testEndpoint(name, url)) passed++;
+        if (await testEndpoint(name, url, { headers: AUTH_HEADERS })) passed++;
     }
+
+    total++;
+    if (await testSseEndpoint()) passed++;
     
     // Test MCP endpoints
+    // initialize must run first: it creates the session used by the other requests
     const mcpTests = [
-        ['List Tools', 'tools/list'],
         ['Server Info', 'initialize', { 
-            protocolVersion: "2024-11-05",
+            protocolVersion: "2025-03-26",
             capabilities: {},
             clientInfo: { name: "test-client", version: "1.0.0" }
         }],
+        ['List Tools', 'tools/list'],
     ];
     
     for (const [name, method, params] of mcpTests) {